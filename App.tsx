@@ -1,96 +1,485 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Type } from '@google/genai';
-import { RAW_HOOKS } from './constants';
-import { FormData, GeneratedHook } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  CustomTemplate,
+  FormData,
+  GeneratedHook,
+  GenerationMode,
+  GenerationSession,
+  HookCategory,
+  HookTemplate,
+  Locale,
+  NicheInsights,
+  PlaceholderValues,
+  HookVariant,
+  RewriteMode,
+  SavedHook,
+  ScriptDuration,
+  TemplateFilters,
+  UsageStatus,
+  VoiceProfile,
+  WorkspaceDetail,
+} from './types';
+import { BATCH_SIZE, PLATFORM_RULES, PLATFORMS, VARIANT_COUNT } from './constants';
+import { getLocalizedTemplate, getTemplateById, getTemplateCatalog, registerCustomTemplates } from './utils/templateCatalog';
+import { matchesFilters, selectTemplates } from './utils/templateSelection';
+import { formatUsage, getQuotaMessage, hasQuotas } from './utils/usageFormat';
+import {
+  ApiRequestError,
+  clearSessionToken,
+  critiqueHooks,
+  deleteWorkspaceHook,
+  deleteWorkspaceVoice,
+  fetchSession,
+  expandScript,
+  fetchNicheInsights,
+  fetchUsage,
+  fetchWorkspace,
+  getSessionToken,
+  login,
+  logout,
+  requestAccess,
+  saveWorkspaceHook,
+  saveWorkspaceVoice,
+  streamAdaptedHooks,
+} from './services/api';
+import { createSavedHook, findSavedHook, loadLibrary, persistLibrary } from './services/library';
+import {
+  findVoiceProfile,
+  loadVoiceProfiles,
+  persistVoiceProfiles,
+  toVoiceBrief,
+} from './services/voiceProfiles';
+import { loadCustomTemplates, persistCustomTemplates } from './services/customTemplates';
+import { canEditWorkspace, loadActiveWorkspaceId, persistActiveWorkspaceId } from './services/workspaces';
+import { createSession, loadDraft, loadHistory, persistDraft, persistHistory, updateSession } from './services/history';
 import HookCard from './components/HookCard';
+import TemplateFilterPanel from './components/TemplateFilterPanel';
+import AdminPanel from './components/AdminPanel';
+import LibraryView from './components/LibraryView';
+import HistoryView from './components/HistoryView';
+import VoiceProfilesView from './components/VoiceProfilesView';
+import TemplatesView from './components/TemplatesView';
+import ManualFillPanel from './components/ManualFillPanel';
+import NicheAssistPanel from './components/NicheAssistPanel';
+import BulkView from './components/BulkView';
+import PromptsView from './components/PromptsView';
+import WorkspacesView from './components/WorkspacesView';
+import ExportPanel from './components/ExportPanel';
+import LanguageSelector from './components/LanguageSelector';
+import { fromGeneratedHook, toExportFileName } from './utils/hookExport';
+import { scoreHooks } from './utils/hookScoring';
+import { findNearDuplicates } from './utils/duplicateDetection';
+import { MessageKey, useI18n } from './i18n';
+import { getLanguage } from './i18n/locales';
+import { buildDefaultValues, fillLocalizedTemplate, getUsedPlaceholders, resolveManualValues } from './utils/placeholderFill';
+
+type AppView = 'generator' | 'bulk' | 'library' | 'history' | 'voices' | 'team' | 'templates' | 'prompts' | 'admin';
+type ResultsSort = 'template' | 'score';
+// Near-duplicates stay in the grid with a warning, or are left out of it
+type DuplicateDisplay = 'flag' | 'collapse';
+
+const DUPLICATE_DISPLAYS: DuplicateDisplay[] = ['flag', 'collapse'];
+
+// Minimum total score offered by the results filter (0 = show everything)
+const MIN_SCORE_OPTIONS = [0, 50, 70];
+
+// Same ceiling as the server's /api/critique
+const MAX_HOOKS_PER_CRITIQUE = 25;
+
+const WORKSPACE_ERROR_KEYS: Record<string, MessageKey> = {
+  FORBIDDEN: 'workspaces.error.forbidden',
+  NOT_FOUND: 'workspaces.error.notFound',
+  LAST_OWNER: 'workspaces.error.lastOwner',
+  INVALID_EMAIL: 'workspaces.error.email',
+  INVALID_NAME: 'workspaces.error.name',
+  WORKSPACE_FULL: 'workspaces.error.full',
+};
 
 const App: React.FC = () => {
+  const { locale, intlTag, t } = useI18n();
+
   // --- AUTH STATE ---
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [sessionEmail, setSessionEmail] = useState('');
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [view, setView] = useState<AppView>('generator');
   
   // Login Inputs
   const [loginEmail, setLoginEmail] = useState('');
   const [loginCode, setLoginCode] = useState('');
   const [authError, setAuthError] = useState('');
 
-  // App State
-  const [formData, setFormData] = useState<FormData>({
-    niche: '',
-    topic: '',
-    audience: ''
-  });
+  // Access Request Inputs
+  const [requestEmail, setRequestEmail] = useState('');
+  const [requestStatus, setRequestStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+
+  // App State (form inputs and filters are restored from the last visit)
+  const [draft] = useState(loadDraft);
+  const [formData, setFormData] = useState<FormData>(draft.formData);
   
   const [generatedHooks, setGeneratedHooks] = useState<GeneratedHook[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [batchIndex, setBatchIndex] = useState(0);
+  const [templateFilters, setTemplateFilters] = useState<TemplateFilters>(draft.filters);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>(draft.mode);
+  const [placeholderValues, setPlaceholderValues] = useState<PlaceholderValues>(draft.placeholderValues);
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplate[]>(loadCustomTemplates);
+  // Ordered templates for the current session; "load more" pages through this, not the raw catalog.
+  const [templatePool, setTemplatePool] = useState<HookTemplate[]>([]);
+  const [resultsCategory, setResultsCategory] = useState<HookCategory | 'all'>('all');
+  const [resultsSort, setResultsSort] = useState<ResultsSort>('template');
+  const [minScore, setMinScore] = useState(0);
+  const [duplicateDisplay, setDuplicateDisplay] = useState<DuplicateDisplay>('flag');
+  const [rerolling, setRerolling] = useState(false);
+  const [critiquing, setCritiquing] = useState(false);
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+  const [library, setLibrary] = useState<SavedHook[]>(loadLibrary);
+  // Set when the last library change could not be written to the browser
+  const [libraryNotSaved, setLibraryNotSaved] = useState(false);
+  const [voicesNotSaved, setVoicesNotSaved] = useState(false);
+  const [templatesNotSaved, setTemplatesNotSaved] = useState(false);
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>(loadVoiceProfiles);
+  // The team workspace being worked in; its library and voices replace the personal ones while it is open
+  const [workspace, setWorkspace] = useState<WorkspaceDetail | null>(null);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  // Form values the current results were generated with (the inputs may have been edited since)
+  const [resultsFormData, setResultsFormData] = useState<FormData>(formData);
+  // Locale the current results were written in; "load more" keeps it even if the selector changed since
+  const [resultsLocale, setResultsLocale] = useState<Locale>(locale);
+  // Values the current results were filled with locally; null when a model wrote them
+  const [resultsManualValues, setResultsManualValues] = useState<PlaceholderValues | null>(null);
+  const [history, setHistory] = useState<GenerationSession[]>(loadHistory);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  // Set by "Duplicar": the next generation reuses this exact template order instead of the filters
+  const [reusePoolIds, setReusePoolIds] = useState<number[] | null>(null);
+  // Cards with a rewrite in flight
+  const [rewritingHookIds, setRewritingHookIds] = useState<number[]>([]);
+  const [scriptingHookIds, setScriptingHookIds] = useState<number[]>([]);
+  const [nicheInsights, setNicheInsights] = useState<{ niche: string; insights: NicheInsights } | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
   const hooksContainerRef = useRef<HTMLDivElement>(null);
-
-  const BATCH_SIZE = 10;
+  const topicInputRef = useRef<HTMLInputElement>(null);
+  // Aborts the in-flight generation stream when the user cancels
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Card rewrites in flight; dropped when the results they belong to are replaced
+  const rewriteAbortRef = useRef(new Set<AbortController>());
 
   // --- AUTH CHECK ON MOUNT ---
+  // The stored token is only trusted once the server confirms the session is still alive.
   useEffect(() => {
-    const savedAuth = localStorage.getItem('hook_system_auth');
-    if (savedAuth === 'true') {
-      setIsAuthenticated(true);
-    }
+    if (!getSessionToken()) return;
+    fetchSession()
+      .then(session => {
+        setSessionEmail(session.email);
+        setIsAdmin(session.isAdmin);
+        setIsAuthenticated(true);
+      })
+      .catch(() => clearSessionToken());
   }, []);
 
+  const endSession = (message = '') => {
+    setIsAuthenticated(false);
+    setSessionEmail('');
+    setIsAdmin(false);
+    setView('generator');
+    setWorkspace(null);
+    setLoginEmail('');
+    setLoginCode('');
+    setAuthError(message);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error("Logout Error:", err);
+    }
+    endSession();
+  };
+
   const validateEmail = (email: string) => {
     return email && email.includes('@') && email.includes('.');
   };
 
-  const handleLogin = () => {
+  const handleLogin = async () => {
     setAuthError('');
     
     // 1. Validate Email
     if (!validateEmail(loginEmail)) {
-      setAuthError('Por favor ingresa un correo electrónico válido para entrar.');
+      setAuthError(t('login.error.email'));
       return;
     }
 
     // 2. Validate Code input presence
     if (!loginCode.trim()) {
-        setAuthError('Por favor ingresa tu código de acceso.');
+        setAuthError(t('login.error.code'));
         return;
     }
 
-    // 3. Validate Code Match
-    // process.env.ACCESS_CODES is injected by vite.config.ts
-    const validCodesString = process.env.ACCESS_CODES || "";
-    const validCodes = validCodesString.split(',').map(c => c.trim()).filter(c => c !== "");
-
-    // Check if the input code matches any valid code (case insensitive)
-    if (validCodes.some(code => code.toLowerCase() === loginCode.trim().toLowerCase())) {
+    // 3. Validate Code Match (server side, the valid codes never reach the browser)
+    try {
+      const session = await login({ email: loginEmail.trim(), code: loginCode.trim() });
+      setSessionEmail(session.email);
+      setIsAdmin(session.isAdmin);
       setIsAuthenticated(true);
-      localStorage.setItem('hook_system_auth', 'true');
       setAuthError('');
-    } else {
-      setAuthError('Código de acceso incorrecto. Verifica o solicita uno nuevo abajo.');
+    } catch (err) {
+      if (err instanceof ApiRequestError && err.code === 'INVALID_CODE') {
+        setAuthError(t('login.error.invalid'));
+      } else if (err instanceof ApiRequestError && err.code === 'CODE_EXPIRED') {
+        setAuthError(t('login.error.expired'));
+      } else if (err instanceof ApiRequestError && err.code === 'CODE_REVOKED') {
+        setAuthError(t('login.error.revoked'));
+      } else if (err instanceof ApiRequestError && err.code === 'RATE_LIMITED') {
+        setAuthError(t('login.error.throttled', { minutes: Math.ceil((err.retryAfterSeconds ?? 60) / 60) }));
+      } else {
+        setAuthError(t('login.error.generic'));
+      }
+    }
+  };
+
+  const handleRequestAccess = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateEmail(requestEmail)) {
+      setRequestStatus('error');
+      return;
+    }
+    setRequestStatus('sending');
+    try {
+      await requestAccess({ email: requestEmail.trim() });
+      setRequestStatus('sent');
+      setRequestEmail('');
+    } catch (err) {
+      console.error("Access Request Error:", err);
+      setRequestStatus('error');
     }
   };
 
   // --- MAIN APP LOGIC ---
 
+  useEffect(() => {
+    setLibraryNotSaved(!persistLibrary(library));
+  }, [library]);
+
+  useEffect(() => {
+    setVoicesNotSaved(!persistVoiceProfiles(voiceProfiles));
+  }, [voiceProfiles]);
+
+  useEffect(() => {
+    setTemplatesNotSaved(!persistCustomTemplates(customTemplates));
+  }, [customTemplates]);
+
+  // Reopens the workspace picked last time in this browser
+  useEffect(() => {
+    const workspaceId = loadActiveWorkspaceId();
+    if (isAuthenticated && workspaceId) openWorkspace(workspaceId);
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    persistDraft({ formData, filters: templateFilters, mode: generationMode, placeholderValues });
+  }, [formData, templateFilters, generationMode, placeholderValues]);
+
+  useEffect(() => {
+    persistHistory(history);
+  }, [history]);
+
+  // Keep the active history entry in sync with what is on screen
+  useEffect(() => {
+    if (!activeSessionId) return;
+    setHistory(prev => updateSession(prev, activeSessionId, () => ({ hooks: generatedHooks, batchIndex })));
+  }, [activeSessionId, generatedHooks, batchIndex]);
+
+  const openSession = (session: GenerationSession) => {
+    generationAbortRef.current?.abort();
+    abortRewrites();
+    setFormData(session.formData);
+    setTemplateFilters(session.filters);
+    setResultsFormData(session.formData);
+    setResultsLocale(session.locale);
+    setResultsManualValues(session.manualValues ?? null);
+    setTemplatePool(session.templatePoolIds.flatMap(id => getTemplateById(id) || []));
+    setGeneratedHooks(session.hooks);
+    setBatchIndex(session.batchIndex);
+    setResultsCategory('all');
+    setActiveSessionId(session.id);
+    setReusePoolIds(null);
+    setError(null);
+    setView('generator');
+  };
+
+  // Loads a past session's settings into the form so only the topic needs tweaking before generating
+  const duplicateSession = (session: GenerationSession) => {
+    generationAbortRef.current?.abort();
+    abortRewrites();
+    setFormData(session.formData);
+    setTemplateFilters(session.filters);
+    setReusePoolIds(session.templatePoolIds);
+    setGenerationMode(session.manualValues ? 'manual' : 'ai');
+    if (session.manualValues) setPlaceholderValues(session.manualValues);
+    setGeneratedHooks([]);
+    setTemplatePool([]);
+    setBatchIndex(0);
+    setActiveSessionId(null);
+    setError(null);
+    setView('generator');
+    setTimeout(() => topicInputRef.current?.focus(), 0);
+  };
+
+  const deleteSession = (id: string) => {
+    setHistory(prev => prev.filter(session => session.id !== id));
+    if (id === activeSessionId) setActiveSessionId(null);
+  };
+
+  const handleFiltersChange = (filters: TemplateFilters) => {
+    setTemplateFilters(filters);
+    setReusePoolIds(null);
+  };
+
+  // --- WORKSPACES ---
+
+  const activeLibrary = workspace ? workspace.workspace.library : library;
+  const activeVoiceProfiles = workspace ? workspace.workspace.voiceProfiles : voiceProfiles;
+  const canEditLibrary = !workspace || canEditWorkspace(workspace.role);
+
+  const handleWorkspaceError = (err: unknown) => {
+    console.error("Workspace Error:", err);
+    if (err instanceof ApiRequestError && err.status === 401) {
+      clearSessionToken();
+      endSession(t('login.error.sessionExpired'));
+      return;
+    }
+    const key = err instanceof ApiRequestError && WORKSPACE_ERROR_KEYS[err.code];
+    setWorkspaceError(t(key || 'workspaces.error.generic'));
+  };
+
+  // Every workspace change answers with the workspace as the server now has it, which replaces ours
+  const runWorkspaceAction = async (action: () => Promise<WorkspaceDetail>) => {
+    setWorkspaceError(null);
+    try {
+      setWorkspace(await action());
+      return true;
+    } catch (err) {
+      handleWorkspaceError(err);
+      return false;
+    }
+  };
+
+  // Voices are picked by id, so a choice made in another library would not match anything here
+  const openWorkspace = async (id: string | null) => {
+    if (id !== workspace?.workspace.id) setFormData(prev => ({ ...prev, voiceProfileId: null }));
+    if (!id) {
+      setWorkspace(null);
+      setWorkspaceError(null);
+      persistActiveWorkspaceId(null);
+      return;
+    }
+    const opened = await runWorkspaceAction(() => fetchWorkspace(id));
+    if (opened) {
+      persistActiveWorkspaceId(id);
+    } else {
+      // Deleted, or we were removed from it: back to the personal library
+      setWorkspace(null);
+      persistActiveWorkspaceId(null);
+    }
+  };
+
+  const toggleSavedHook = (hook: GeneratedHook) => {
+    const existing = findSavedHook(activeLibrary, hook.text);
+    if (workspace) {
+      const workspaceId = workspace.workspace.id;
+      runWorkspaceAction(() => existing
+        ? deleteWorkspaceHook(workspaceId, existing.id)
+        : saveWorkspaceHook(workspaceId, createSavedHook(hook, resultsFormData)));
+      return;
+    }
+    setLibrary(prev => existing
+      ? prev.filter(saved => saved.id !== existing.id)
+      : [createSavedHook(hook, resultsFormData), ...prev]);
+  };
+
+  const updateSavedHook = (updated: SavedHook) => {
+    if (workspace) {
+      runWorkspaceAction(() => saveWorkspaceHook(workspace.workspace.id, updated));
+      return;
+    }
+    setLibrary(prev => prev.map(saved => (saved.id === updated.id ? updated : saved)));
+  };
+
+  const deleteSavedHook = (id: string) => {
+    if (workspace) {
+      runWorkspaceAction(() => deleteWorkspaceHook(workspace.workspace.id, id));
+      return;
+    }
+    setLibrary(prev => prev.filter(saved => saved.id !== id));
+  };
+
+  const saveVoiceProfile = (profile: VoiceProfile) => {
+    if (workspace) {
+      runWorkspaceAction(() => saveWorkspaceVoice(workspace.workspace.id, profile));
+      return;
+    }
+    setVoiceProfiles(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => (p.id === profile.id ? profile : p))
+      : [profile, ...prev]);
+  };
+
+  const deleteVoiceProfile = (id: string) => {
+    if (workspace) {
+      runWorkspaceAction(() => deleteWorkspaceVoice(workspace.workspace.id, id));
+    } else {
+      setVoiceProfiles(prev => prev.filter(profile => profile.id !== id));
+    }
+    setFormData(prev => (prev.voiceProfileId === id ? { ...prev, voiceProfileId: null } : prev));
+  };
+
+  // The catalog registry is updated before the render that reads it through getTemplateById
+  const updateCustomTemplates = (templates: CustomTemplate[]) => {
+    registerCustomTemplates(templates);
+    setCustomTemplates(templates);
+  };
+
+  const saveCustomTemplate = (template: CustomTemplate) => {
+    updateCustomTemplates(customTemplates.some(t => t.id === template.id)
+      ? customTemplates.map(t => (t.id === template.id ? template : t))
+      : [...customTemplates, template]);
+  };
+
+  // Hooks already generated from a deleted template keep their text; they just lose the formula details
+  const deleteCustomTemplate = (id: number) => {
+    updateCustomTemplates(customTemplates.filter(template => template.id !== id));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
-  const getAIClient = () => {
-    const rawKey = process.env.API_KEY || "";
-    const apiKey = rawKey.trim();
-    
-    if (!apiKey || apiKey === "" || apiKey === "undefined") {
-      throw new Error("API_KEY_MISSING");
-    }
-    return new GoogleGenAI({ apiKey });
-  };
+  const platformRules = PLATFORM_RULES[formData.platform];
+  const matchingTemplates = getTemplateCatalog().filter(t => matchesFilters(t, templateFilters));
+  const matchingTemplateCount = matchingTemplates.length;
+  // The manual fill form only asks for slots the next generation will actually use
+  const usedPlaceholders = generationMode === 'manual'
+    ? getUsedPlaceholders(reusePoolIds ? reusePoolIds.flatMap(id => getTemplateById(id) || []) : matchingTemplates, getLanguage(locale))
+    : [];
+
+  // --- USAGE ---
+
+  // Refreshed whenever a generation or critique finishes, so the counter under the button stays current
+  useEffect(() => {
+    if (!isAuthenticated || loading || critiquing || suggesting || scriptingHookIds.length > 0) return;
+    fetchUsage().then(setUsage).catch(() => setUsage(null));
+  }, [isAuthenticated, loading, critiquing, suggesting, scriptingHookIds.length]);
 
   const generateHooks = async (isLoadMore: boolean = false) => {
     if (!formData.niche || !formData.topic) {
-      setError("Por favor completa el nicho y la idea principal.");
+      setError(t('generator.error.missingFields'));
+      return;
+    }
+
+    if (!isLoadMore && matchingTemplateCount === 0) {
+      setError(t('generator.error.noTemplates'));
       return;
     }
 
@@ -98,100 +487,366 @@ const App: React.FC = () => {
     setError(null);
 
     try {
-      const ai = getAIClient();
-
       const start = isLoadMore ? (batchIndex + 1) * BATCH_SIZE : 0;
       const end = start + BATCH_SIZE;
+      const pool = isLoadMore
+        ? templatePool
+        : reusePoolIds
+          ? reusePoolIds.flatMap(id => getTemplateById(id) || [])
+          : selectTemplates(getTemplateCatalog(), templateFilters);
+      let sessionId = activeSessionId;
+      const outputLocale = isLoadMore ? resultsLocale : locale;
+      const manualValues = isLoadMore ? resultsManualValues : generationMode === 'manual' ? placeholderValues : null;
       
       if (!isLoadMore) {
+        abortRewrites();
+        const session = {
+          ...createSession(formData, templateFilters, pool.map(t => t.id), locale),
+          ...(manualValues && { manualValues }),
+        };
+        sessionId = session.id;
+        setHistory(prev => [session, ...prev]);
+        setActiveSessionId(session.id);
+        setReusePoolIds(null);
         setGeneratedHooks([]);
         setBatchIndex(0);
+        setResultsCategory('all');
+        setTemplatePool(pool);
+        setResultsFormData(formData);
+        setResultsLocale(locale);
+        setResultsManualValues(manualValues);
       }
 
-      const templatesToAdapt = RAW_HOOKS.slice(start, end);
+      const templatesToAdapt = pool.slice(start, end);
+      const requestFormData = isLoadMore ? resultsFormData : formData;
+      const voiceProfile = findVoiceProfile(activeVoiceProfiles, requestFormData.voiceProfileId);
 
       if (templatesToAdapt.length === 0) {
         setLoading(false);
         return;
       }
 
-      const prompt = `
-        Act as a professional copywriter and viral content expert.
-        
-        CONTEXT:
-        The user wants to adapt viral hook templates to their specific niche.
-        - User Niche: "${formData.niche}"
-        - Video Topic/Idea: "${formData.topic}"
-        - Target Audience: "${formData.audience || "General audience within the niche"}"
-
-        TASK:
-        I will provide a list of templates containing placeholders like [tema], [resultado], [número], etc.
-        You must adapt each template to be grammatically correct (Spanish), engaging, and relevant to the user's input.
-
-        RULES:
-        1. Replace ALL placeholders ([...]) with specific terms related to the Niche and Topic.
-        2. Do NOT leave any brackets [] in the final output.
-        3. Maintain the psychological trigger (curiosity, fear, gain) of the original hook.
-        4. Keep the output in Spanish.
-        5. Return ONLY a JSON array of strings. No markdown formatting.
-
-        TEMPLATES TO ADAPT:
-        ${JSON.stringify(templatesToAdapt)}
-      `;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          }
-        }
-      });
+      if (manualValues) {
+        fillManually(templatesToAdapt, start, requestFormData, outputLocale, manualValues, sessionId, isLoadMore);
+        return;
+      }
 
-      const responseText = response.text;
-      if (!responseText) throw new Error("No response from AI");
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
+      const startedAt = new Date().toISOString();
+      const receivedIds: number[] = [];
 
-      let adaptedStrings: string[] = [];
       try {
-        adaptedStrings = JSON.parse(responseText);
-      } catch (e) {
-        const cleanText = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
-        adaptedStrings = JSON.parse(cleanText);
-      }
+        const summary = await streamAdaptedHooks(
+          {
+            formData: requestFormData,
+            templates: templatesToAdapt.map(template => ({
+              id: template.id,
+              template: getLocalizedTemplate(template, getLanguage(outputLocale)).template,
+            })),
+            locale: outputLocale,
+            voice: voiceProfile && toVoiceBrief(voiceProfile),
+            workspaceId: workspace?.workspace.id,
+          },
+          (hook) => {
+            receivedIds.push(hook.templateId);
+            // Ids follow the template's position in the pool, so they stay unique when a template fails
+            const newHook: GeneratedHook = {
+              id: start + templatesToAdapt.findIndex(t => t.id === hook.templateId),
+              originalTemplateId: hook.templateId,
+              text: hook.text
+            };
+            setGeneratedHooks(prev => [...prev, newHook]);
+          },
+          controller.signal,
+        );
 
-      const newHooks: GeneratedHook[] = adaptedStrings.map((text, index) => ({
-        id: start + index,
-        originalTemplateId: start + index,
-        text: text
-      }));
+        if (summary.failedTemplateIds.length > 0) {
+          setError(t('generator.error.failedTemplates', { count: summary.failedTemplateIds.length }));
+        }
+        if (sessionId) {
+          setHistory(prev => updateSession(prev, sessionId!, () => ({ provider: summary.provider, model: summary.model })));
+        }
+      } finally {
+        generationAbortRef.current = null;
+        const received = receivedIds.length;
+        // A batch counts as consumed once any of its hooks is on screen, so it is never requested twice
+        if (isLoadMore && received > 0) setBatchIndex(prev => prev + 1);
 
-      if (isLoadMore) {
-        setGeneratedHooks(prev => [...prev, ...newHooks]);
-        setBatchIndex(prev => prev + 1);
-      } else {
-        setGeneratedHooks(newHooks);
-        setBatchIndex(0);
+        if (sessionId && received > 0) {
+          const batch = {
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            templateIds: templatesToAdapt.map(t => t.id),
+            failedTemplateIds: templatesToAdapt.map(t => t.id).filter(id => !receivedIds.includes(id)),
+          };
+          setHistory(prev => updateSession(prev, sessionId!, s => ({ batches: [...s.batches, batch] })));
+        } else if (sessionId && !isLoadMore) {
+          // Nothing came back: do not keep an empty entry in the history
+          setHistory(prev => prev.filter(s => s.id !== sessionId));
+          setActiveSessionId(null);
+        }
       }
 
     } catch (err: any) {
-      console.error("AI Error:", err);
-      let errorMessage = "Hubo un error generando los hooks. Por favor intenta de nuevo.";
-      
-      if (err.message === "API_KEY_MISSING") {
-        errorMessage = "Error de Configuración: Falta la API KEY en Vercel.";
-      } else if (err.toString().includes("429")) {
-        errorMessage = "⏳ Límite gratuito alcanzado. Espera 10 segundos e intenta de nuevo.";
+      handleGenerationError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Manual mode: the batch is filled in the browser at once, with no provider involved
+  const fillManually = (
+    templates: HookTemplate[],
+    start: number,
+    requestFormData: FormData,
+    outputLocale: Locale,
+    manualValues: PlaceholderValues,
+    sessionId: string | null,
+    isLoadMore: boolean,
+  ) => {
+    const language = getLanguage(outputLocale);
+    const values = resolveManualValues(manualValues, requestFormData, language);
+    const filled: GeneratedHook[] = templates.map((template, index) => ({
+      id: start + index,
+      originalTemplateId: template.id,
+      text: fillLocalizedTemplate(getLocalizedTemplate(template, language).template, values, language),
+    }));
+    const now = new Date().toISOString();
+
+    setGeneratedHooks(prev => [...prev, ...filled]);
+    if (isLoadMore) setBatchIndex(prev => prev + 1);
+    if (sessionId) {
+      const batch = { startedAt: now, finishedAt: now, templateIds: templates.map(t => t.id), failedTemplateIds: [] };
+      setHistory(prev => updateSession(prev, sessionId, s => ({ batches: [...s.batches, batch] })));
+    }
+  };
+
+  const handleGenerationError = (err: any) => {
+    if (err?.name === 'AbortError') return;
+    console.error("AI Error:", err);
+    if (err instanceof ApiRequestError && err.status === 401) {
+      clearSessionToken();
+      endSession(t('login.error.sessionExpired'));
+      return;
+    }
+
+    let errorMessage = t('generator.error.generic');
+    const quotaMessage = err instanceof ApiRequestError && getQuotaMessage(err.code, err.retryAfterSeconds, t, intlTag);
+    
+    if (quotaMessage) {
+      errorMessage = quotaMessage;
+    } else if (err instanceof ApiRequestError && err.code === "API_KEY_MISSING") {
+      errorMessage = t('generator.error.apiKey');
+    } else if (err instanceof ApiRequestError && err.code === "RATE_LIMITED") {
+      errorMessage = t('generator.error.rateLimited', { seconds: err.retryAfterSeconds ?? 10 });
+    }
+
+    setError(errorMessage);
+  };
+
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // --- CARD ACTIONS ---
+
+  const abortRewrites = () => {
+    rewriteAbortRef.current.forEach(controller => controller.abort());
+    rewriteAbortRef.current.clear();
+  };
+
+  const updateGeneratedHook = (id: number, changes: (hook: GeneratedHook) => Partial<GeneratedHook>) => {
+    setGeneratedHooks(prev => prev.map(hook => (hook.id === id ? { ...hook, ...changes(hook) } : hook)));
+  };
+
+  // Sends only this hook's template back to the provider; whatever comes back is listed as variants under the card.
+  // Resolves with the variants that arrived, none if the rewrite failed or was cancelled
+  const rewriteHook = async (hook: GeneratedHook, mode: RewriteMode, avoidTexts?: string[]) => {
+    const template = getTemplateById(hook.originalTemplateId);
+    if (!template) return [];
+
+    setRewritingHookIds(prev => [...prev, hook.id]);
+    setError(null);
+    const voiceProfile = findVoiceProfile(activeVoiceProfiles, resultsFormData.voiceProfileId);
+    const received: HookVariant[] = [];
+    const controller = new AbortController();
+    rewriteAbortRef.current.add(controller);
+
+    try {
+      await streamAdaptedHooks(
+        {
+          formData: resultsFormData,
+          templates: [{ id: template.id, template: getLocalizedTemplate(template, getLanguage(resultsLocale)).template }],
+          locale: resultsLocale,
+          voice: voiceProfile && toVoiceBrief(voiceProfile),
+          rewrite: { mode, sourceText: hook.text, count: mode === 'variants' ? VARIANT_COUNT : 1, avoidTexts },
+        },
+        (adapted) => {
+          const variant: HookVariant = { id: crypto.randomUUID(), text: adapted.text, mode };
+          received.push(variant);
+          updateGeneratedHook(hook.id, h => ({ variants: [...(h.variants || []), variant] }));
+        },
+        controller.signal,
+      );
+      if (received.length === 0) setError(t('hook.error.rewrite'));
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      rewriteAbortRef.current.delete(controller);
+      setRewritingHookIds(prev => prev.filter(id => id !== hook.id));
+    }
+    return received;
+  };
+
+  // The winner takes the card's place; the text it replaces stays available as a variant.
+  const pickVariant = (hookId: number, variantId: string) => {
+    updateGeneratedHook(hookId, hook => {
+      const winner = hook.variants?.find(variant => variant.id === variantId);
+      if (!winner) return {};
+      const previous: HookVariant = { id: crypto.randomUUID(), text: hook.text, mode: 'previous' };
+      return {
+        text: winner.text,
+        critique: undefined, // It rated the replaced text
+        script: undefined, // It opens with the replaced text
+        variants: [previous, ...(hook.variants || []).filter(variant => variant.id !== variantId)],
+      };
+    });
+  };
+
+  const discardVariant = (hookId: number, variantId: string) => {
+    updateGeneratedHook(hookId, hook => ({ variants: (hook.variants || []).filter(variant => variant.id !== variantId) }));
+  };
+
+  // The script replaces any earlier one and also lands on the library copy of the hook, if it was saved
+  const expandHookScript = async (hook: GeneratedHook, duration: ScriptDuration) => {
+    setScriptingHookIds(prev => [...prev, hook.id]);
+    setError(null);
+    const voiceProfile = findVoiceProfile(activeVoiceProfiles, resultsFormData.voiceProfileId);
+
+    try {
+      const { script } = await expandScript({
+        formData: resultsFormData,
+        hook: hook.text,
+        duration,
+        locale: resultsLocale,
+        voice: voiceProfile && toVoiceBrief(voiceProfile),
+      });
+      updateGeneratedHook(hook.id, current => (current.text === script.hook.say ? { script } : {}));
+      const sharedCopy = workspace && findSavedHook(activeLibrary, script.hook.say);
+      if (!workspace) {
+        setLibrary(prev => prev.map(saved => (saved.text === script.hook.say ? { ...saved, script } : saved)));
+      } else if (sharedCopy && canEditLibrary) {
+        runWorkspaceAction(() => saveWorkspaceHook(workspace.workspace.id, { ...sharedCopy, script }));
       }
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      setScriptingHookIds(prev => prev.filter(id => id !== hook.id));
+    }
+  };
 
-      setError(errorMessage);
+  const suggestNicheInsights = async () => {
+    const niche = formData.niche.trim();
+    if (!niche) return;
+    setSuggesting(true);
+    setError(null);
+
+    try {
+      const { insights } = await fetchNicheInsights({ niche, locale, platform: formData.platform });
+      setNicheInsights({ niche, insights });
+    } catch (err) {
+      handleGenerationError(err);
     } finally {
-      setLoading(false);
+      setSuggesting(false);
     }
   };
 
+  const resultCategories = Array.from(new Set(
+    generatedHooks
+      .map(hook => getTemplateById(hook.originalTemplateId)?.category)
+      .filter((category): category is HookCategory => Boolean(category))
+  ));
+
+  const hookScores = useMemo(
+    () => scoreHooks(generatedHooks, {
+      formData: resultsFormData,
+      language: getLanguage(resultsLocale),
+      getTemplate: getTemplateById,
+    }),
+    // Editing a custom template can change its trigger, which the curiosity score reads
+    [generatedHooks, resultsFormData, resultsLocale, customTemplates]
+  );
+  const getTotalScore = (hook: GeneratedHook) => hookScores.get(hook.id)?.total ?? 0;
+
+  const duplicates = useMemo(() => findNearDuplicates(generatedHooks, activeLibrary), [generatedHooks, activeLibrary]);
+
+  const visibleHooks = generatedHooks
+    .filter(hook => duplicateDisplay === 'flag' || !duplicates.has(hook.id))
+    .filter(hook => resultsCategory === 'all' || getTemplateById(hook.originalTemplateId)?.category === resultsCategory)
+    .filter(hook => getTotalScore(hook) >= minScore)
+    .sort((a, b) => (resultsSort === 'score' ? getTotalScore(b) - getTotalScore(a) : 0));
+
+  // One card at a time, steering each away from the text it repeats; the new text takes the card's place.
+  // Stops at the first rewrite that brings nothing back, since the rest would most likely fail the same way.
+  const rerollDuplicates = async () => {
+    const targets = generatedHooks.filter(hook => duplicates.has(hook.id));
+    setRerolling(true);
+    for (const hook of targets) {
+      const [variant] = await rewriteHook(hook, 'regenerate', [duplicates.get(hook.id)!.text]);
+      if (!variant) break;
+      pickVariant(hook.id, variant.id);
+    }
+    setRerolling(false);
+  };
+
+  // Asks the model to review the hooks on screen that it has not rated yet
+  const critiqueVisibleHooks = async () => {
+    const pending = visibleHooks.filter(hook => !hook.critique).slice(0, MAX_HOOKS_PER_CRITIQUE);
+    if (pending.length === 0) return;
+    setCritiquing(true);
+    setError(null);
+    try {
+      const { critiques } = await critiqueHooks({
+        formData: resultsFormData,
+        hooks: pending.map(hook => hook.text),
+        locale: resultsLocale,
+      });
+      if (critiques.every(critique => !critique)) setError(t('results.critiqueUnavailable'));
+      // Hooks whose text changed while the critique was running keep no critique
+      setGeneratedHooks(prev => prev.map(hook => {
+        const index = pending.findIndex(p => p.id === hook.id && p.text === hook.text);
+        const critique = index >= 0 ? critiques[index] : null;
+        return critique ? { ...hook, critique } : hook;
+      }));
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      setCritiquing(false);
+    }
+  };
+
+  // Forbidden words are checked against the voice the results were generated with
+  const resultsForbiddenWords = findVoiceProfile(activeVoiceProfiles, resultsFormData.voiceProfileId)?.forbiddenWords ?? [];
+
+  const hasMoreTemplates = (batchIndex + 1) * BATCH_SIZE < templatePool.length;
+
+  // The voice picked in the form, for the views that generate with the form's settings (batch, A/B)
+  const formVoice = findVoiceProfile(activeVoiceProfiles, formData.voiceProfileId);
+
+  const navItems: { view: AppView; label: string }[] = [
+    { view: 'generator', label: t('nav.generator') },
+    { view: 'bulk', label: t('nav.bulk') },
+    { view: 'library', label: t('nav.library', { count: activeLibrary.length }) },
+    { view: 'history', label: t('nav.history') },
+    { view: 'voices', label: t('nav.voices') },
+    { view: 'team', label: workspace ? t('nav.teamActive', { name: workspace.workspace.name }) : t('nav.team') },
+    { view: 'templates', label: t('nav.templates', { count: customTemplates.length }) },
+    ...(isAdmin
+      ? [{ view: 'prompts' as AppView, label: t('nav.prompts') }, { view: 'admin' as AppView, label: t('nav.admin') }]
+      : []),
+  ];
+
   // --- LOGIN SCREEN RENDER ---
   if (!isAuthenticated) {
     return (
@@ -199,8 +854,9 @@ const App: React.FC = () => {
         <div className="bg-white p-8 md:p-10 rounded-lg shadow-2xl max-w-md w-full border-t-4 border-brand-gold relative overflow-hidden animate-fade-in">
           
           <div className="text-center mb-8 relative z-10">
-            <h1 className="text-3xl md:text-4xl font-serif text-brand-black mb-2">Acceso Exclusivo</h1>
+            <h1 className="text-3xl md:text-4xl font-serif text-brand-black mb-2">{t('login.title')}</h1>
             <p className="text-brand-gold uppercase tracking-widest text-xs font-bold">Incubadora PRO FS</p>
+            <LanguageSelector className="justify-center mt-4" />
           </div>
           
           <div className="space-y-8 relative z-10">
@@ -208,27 +864,27 @@ const App: React.FC = () => {
             {/* --- SECTION 1: LOGIN --- */}
             <div className="space-y-4">
               <h2 className="text-sm font-bold text-gray-800 uppercase tracking-wide border-b border-gray-100 pb-2">
-                1. Ingresar con Código
+                {t('login.heading')}
               </h2>
               
               <div>
-                <label className="block text-xs font-semibold text-gray-500 mb-1">Tu Correo (Registrado):</label>
+                <label className="block text-xs font-semibold text-gray-500 mb-1">{t('login.email')}</label>
                 <input 
                   type="email"
                   value={loginEmail}
                   onChange={(e) => setLoginEmail(e.target.value)}
-                  placeholder="ejemplo@correo.com"
+                  placeholder={t('login.emailPlaceholder')}
                   className="w-full bg-gray-50 border border-gray-300 px-4 py-2 rounded focus:outline-none focus:border-brand-black transition-colors"
                 />
               </div>
 
               <div>
-                <label className="block text-xs font-semibold text-gray-500 mb-1">Tu Código de Acceso:</label>
+                <label className="block text-xs font-semibold text-gray-500 mb-1">{t('login.code')}</label>
                 <input 
                   type="text"
                   value={loginCode}
                   onChange={(e) => setLoginCode(e.target.value)}
-                  placeholder="Código VIP"
+                  placeholder={t('login.codePlaceholder')}
                   className="w-full bg-gray-50 border border-gray-300 px-4 py-2 rounded focus:outline-none focus:border-brand-black transition-colors"
                   onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
                 />
@@ -242,64 +898,55 @@ const App: React.FC = () => {
                 onClick={handleLogin}
                 className="w-full bg-brand-black text-white font-bold py-3 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs shadow-md"
               >
-                Ingresar al Sistema
+                {t('login.submit')}
               </button>
             </div>
 
             {/* DIVIDER */}
             <div className="relative flex py-2 items-center">
                 <div className="flex-grow border-t border-gray-200"></div>
-                <span className="flex-shrink-0 mx-4 text-gray-300 text-xs uppercase tracking-widest">O</span>
+                <span className="flex-shrink-0 mx-4 text-gray-300 text-xs uppercase tracking-widest">{t('login.or')}</span>
                 <div className="flex-grow border-t border-gray-200"></div>
             </div>
 
-            {/* --- SECTION 2: REQUEST ACCESS (PURE HTML FORM) --- */}
+            {/* --- SECTION 2: REQUEST ACCESS --- */}
             <div className="bg-gray-50 p-4 rounded border border-gray-100">
-               <h3 className="text-sm font-bold text-brand-gold mb-2 text-center">¿Aún no tienes código?</h3>
+               <h3 className="text-sm font-bold text-brand-gold mb-2 text-center">{t('request.title')}</h3>
                <p className="text-xs text-gray-500 text-center mb-4">
-                 Solicítalo gratis enviando tu correo a nuestro equipo.
+                 {t('request.subtitle')}
                </p>
-               
-               {/* 
-                  Standard HTML Form. 
-                  REMOVED target="_blank" to ensure functionality on mobile devices.
-                  The user will be redirected to the FormSubmit success page.
-               */}
-               <form 
-                  action="https://formsubmit.co/silvia.silvatorres@gmail.com" 
-                  method="POST"
-                  className="w-full"
-               >
-                   <input type="hidden" name="_subject" value="Nueva Solicitud - Hook Generator" />
-                   <input type="hidden" name="_template" value="table" />
-                   <input type="hidden" name="_captcha" value="true" />
 
+               {requestStatus === 'sent' ? (
+                 <p className="text-xs text-green-700 font-bold text-center">
+                   {t('request.sent')}
+                 </p>
+               ) : (
+                 <form onSubmit={handleRequestAccess} className="w-full">
                    <div className="flex flex-col gap-2">
                      <input 
                         type="email" 
-                        name="email" 
+                        value={requestEmail}
+                        onChange={(e) => setRequestEmail(e.target.value)}
                         required 
-                        placeholder="Escribe tu correo aquí..." 
+                        placeholder={t('request.placeholder')}
                         className="w-full border border-gray-300 px-3 py-2 text-sm rounded focus:border-brand-gold focus:outline-none"
                      />
                      <button
                       type="submit"
-                      className="w-full border border-brand-gold text-brand-gold font-bold py-2 rounded hover:bg-brand-gold hover:text-white transition-colors text-xs uppercase tracking-widest"
+                      disabled={requestStatus === 'sending'}
+                      className="w-full border border-brand-gold text-brand-gold font-bold py-2 rounded hover:bg-brand-gold hover:text-white transition-colors text-xs uppercase tracking-widest disabled:opacity-50"
                     >
-                      Enviar Solicitud
+                      {requestStatus === 'sending' ? t('request.sending') : t('request.submit')}
                     </button>
                    </div>
-               </form>
-               
-               {/* Manual Fallback Link */}
-               <div className="mt-3 text-center">
-                 <a 
-                   href="mailto:silvia.silvatorres@gmail.com?subject=Solicitud Acceso Hook System"
-                   className="text-[10px] text-gray-400 underline hover:text-brand-gold transition-colors"
-                 >
-                   ¿Problemas? Enviar correo manualmente
-                 </a>
-               </div>
+                 </form>
+               )}
+
+               {requestStatus === 'error' && (
+                 <p className="mt-2 text-brand-red text-xs font-bold text-center">
+                   {t('request.error')}
+                 </p>
+               )}
             </div>
 
             <div className="text-center pt-2">
@@ -328,117 +975,435 @@ const App: React.FC = () => {
               Incubadora PRO FS
             </p>
           </div>
-          <button 
-            onClick={() => {
-              localStorage.removeItem('hook_system_auth');
-              setIsAuthenticated(false);
-              setLoginEmail('');
-              setLoginCode('');
-            }}
-            className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline transition-colors"
-          >
-            Cerrar Sesión
-          </button>
+          <div className="flex flex-col items-center md:items-end gap-2">
+            <nav className="flex flex-wrap justify-center gap-4">
+              {navItems.map((item) => (
+                <button
+                  key={item.view}
+                  onClick={() => setView(item.view)}
+                  className={`text-xs uppercase tracking-widest transition-colors ${
+                    view === item.view ? 'text-brand-black font-bold' : 'text-brand-gold hover:text-brand-black underline'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </nav>
+            <div className="flex items-center gap-3">
+              <LanguageSelector />
+              <span className="text-[10px] text-gray-400 tracking-wide">{sessionEmail}</span>
+              <button 
+                onClick={handleLogout}
+                className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline transition-colors"
+              >
+                {t('nav.logout')}
+              </button>
+            </div>
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-grow container mx-auto px-4 md:px-8 py-10 max-w-4xl">
         
-        {/* Input Section */}
-        <section className="mb-16">
-          <div className="bg-brand-gray p-8 md:p-12 rounded-xl shadow-sm border border-gray-100">
-            <h2 className="text-2xl font-serif mb-8 text-brand-black text-center md:text-left">Configura tu Generador</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {view === 'admin' && <AdminPanel />}
+
+        {view === 'prompts' && (
+          <PromptsView
+            formData={formData}
+            filters={templateFilters}
+            voice={formVoice && toVoiceBrief(formVoice)}
+            onSessionExpired={() => {
+              clearSessionToken();
+              endSession(t('login.error.sessionExpired'));
+            }}
+          />
+        )}
+
+        {libraryNotSaved && (
+          <p className="mb-8 text-sm text-brand-red font-semibold">{t('library.error.storage')}</p>
+        )}
+
+        {voicesNotSaved && (
+          <p className="mb-8 text-sm text-brand-red font-semibold">{t('voices.error.storage')}</p>
+        )}
+
+        {templatesNotSaved && (
+          <p className="mb-8 text-sm text-brand-red font-semibold">{t('templates.error.storage')}</p>
+        )}
+
+        {workspaceError && (
+          <p className="mb-8 text-sm text-brand-red font-semibold">{workspaceError}</p>
+        )}
+
+        {view === 'team' && (
+          <WorkspacesView
+            email={sessionEmail}
+            workspace={workspace}
+            library={library}
+            voiceProfiles={voiceProfiles}
+            onOpen={openWorkspace}
+            onAction={runWorkspaceAction}
+            onError={handleWorkspaceError}
+          />
+        )}
+
+        {view === 'library' && (
+          <LibraryView
+            library={activeLibrary}
+            onUpdate={canEditLibrary ? updateSavedHook : undefined}
+            onDelete={canEditLibrary ? deleteSavedHook : undefined}
+          />
+        )}
+
+        {view === 'voices' && (
+          <VoiceProfilesView
+            profiles={activeVoiceProfiles}
+            onSave={canEditLibrary ? saveVoiceProfile : undefined}
+            onDelete={canEditLibrary ? deleteVoiceProfile : undefined}
+          />
+        )}
+
+        {/* Kept mounted while hidden, so a running queue survives switching views */}
+        <div className={view === 'bulk' ? '' : 'hidden'}>
+          <BulkView
+            formData={formData}
+            filters={templateFilters}
+            voice={formVoice && toVoiceBrief(formVoice)}
+            manualValues={generationMode === 'manual' ? placeholderValues : null}
+            workspaceId={workspace?.workspace.id}
+            onSession={(session) => setHistory(prev => [session, ...prev])}
+            onSessionExpired={() => {
+              clearSessionToken();
+              endSession(t('login.error.sessionExpired'));
+            }}
+          />
+        </div>
+
+        {view === 'templates' && (
+          <TemplatesView
+            templates={customTemplates}
+            onSave={saveCustomTemplate}
+            onDelete={deleteCustomTemplate}
+            onImport={(imported) => updateCustomTemplates([...customTemplates, ...imported])}
+          />
+        )}
+
+        {view === 'history' && (
+          <HistoryView
+            history={history}
+            activeSessionId={activeSessionId}
+            onOpen={openSession}
+            onDuplicate={duplicateSession}
+            onDelete={deleteSession}
+          />
+        )}
+
+        {view === 'generator' && (
+          <>
+            {/* Input Section */}
+            <section className="mb-16">
+              <div className="bg-brand-gray p-8 md:p-12 rounded-xl shadow-sm border border-gray-100">
+                <h2 className="text-2xl font-serif mb-8 text-brand-black text-center md:text-left">{t('generator.title')}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
               
-              <div className="col-span-1">
-                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
-                  1. Tu Nicho
-                </label>
-                <input
-                  type="text"
-                  name="niche"
-                  value={formData.niche}
-                  onChange={handleInputChange}
-                  placeholder="Ej. Fitness, Bienes Raíces..."
-                  className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                  <div className="col-span-1">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                      {t('generator.niche')}
+                    </label>
+                    <input
+                      type="text"
+                      name="niche"
+                      value={formData.niche}
+                      onChange={handleInputChange}
+                      placeholder={t('generator.nichePlaceholder')}
+                      className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                    />
+                  </div>
+
+                  <div className="col-span-1">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                      {t('generator.topic')}
+                    </label>
+                    <input
+                      type="text"
+                      name="topic"
+                      ref={topicInputRef}
+                      value={formData.topic}
+                      onChange={handleInputChange}
+                      placeholder={t('generator.topicPlaceholder')}
+                      className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                    />
+                  </div>
+
+                  <div className="col-span-1">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                      {t('generator.audience')}
+                    </label>
+                    <input
+                      type="text"
+                      name="audience"
+                      value={formData.audience}
+                      onChange={handleInputChange}
+                      placeholder={t('generator.audiencePlaceholder')}
+                      className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                    />
+                  </div>
+
+                  <div className="col-span-1">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                      {t('generator.voice')}
+                    </label>
+                    <select
+                      value={formData.voiceProfileId ?? ''}
+                      onChange={(e) => setFormData(prev => ({ ...prev, voiceProfileId: e.target.value || null }))}
+                      className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors"
+                    >
+                      <option value="">{t('generator.voiceNone')}</option>
+                      {activeVoiceProfiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                    {activeVoiceProfiles.length === 0 && (
+                      <p className="mt-2 text-xs text-gray-400">{t('generator.voiceEmpty')}</p>
+                    )}
+                  </div>
+
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                      {t('generator.platform')}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {PLATFORMS.map((platform) => (
+                        <button
+                          key={platform}
+                          onClick={() => setFormData(prev => ({ ...prev, platform }))}
+                          className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+                            formData.platform === platform
+                              ? 'bg-brand-black text-white border-brand-black'
+                              : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                          }`}
+                        >
+                          {t(`platform.${platform}`)}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-400">
+                      {[
+                        t('platform.maxChars', { count: platformRules.maxChars }),
+                        t(`platform.style.${platformRules.style}`),
+                        t(`platform.emoji.${platformRules.emoji}`),
+                      ].join(' · ')}
+                    </p>
+                  </div>
+                </div>
+
+                <NicheAssistPanel
+                  formData={formData}
+                  insights={nicheInsights}
+                  loading={suggesting}
+                  onSuggest={suggestNicheInsights}
+                  onChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
                 />
-              </div>
 
-              <div className="col-span-1">
-                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
-                  2. Idea / Tema
-                </label>
-                <input
-                  type="text"
-                  name="topic"
-                  value={formData.topic}
-                  onChange={handleInputChange}
-                  placeholder="Ej. Dieta Keto, Vender sin vender..."
-                  className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                <TemplateFilterPanel
+                  filters={templateFilters}
+                  matchingCount={matchingTemplateCount}
+                  hasCustomTemplates={customTemplates.length > 0}
+                  onChange={handleFiltersChange}
                 />
-              </div>
 
-              <div className="col-span-1 md:col-span-2">
-                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
-                  3. Audiencia (Opcional)
-                </label>
-                <input
-                  type="text"
-                  name="audience"
-                  value={formData.audience}
-                  onChange={handleInputChange}
-                  placeholder="Ej. Principiantes, Expertos..."
-                  className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300"
+                <ManualFillPanel
+                  mode={generationMode}
+                  usedPlaceholders={usedPlaceholders}
+                  values={placeholderValues}
+                  defaults={buildDefaultValues(formData, getLanguage(locale))}
+                  onModeChange={setGenerationMode}
+                  onChange={setPlaceholderValues}
                 />
-              </div>
-            </div>
 
-            {error && (
-              <div className="mt-8 p-4 bg-red-50 border-l-4 border-brand-red rounded-r animate-fade-in">
-                 <p className="text-brand-red font-bold text-center text-sm md:text-base">
-                  {error}
-                </p>
+                {error && (
+                  <div className="mt-8 p-4 bg-red-50 border-l-4 border-brand-red rounded-r animate-fade-in">
+                     <p className="text-brand-red font-bold text-center text-sm md:text-base">
+                      {error}
+                    </p>
+                  </div>
+                )}
+
+                <div className="mt-12 flex flex-col items-center gap-4">
+                  <button
+                    onClick={() => generateHooks(false)}
+                    disabled={loading}
+                    className="bg-brand-red text-white font-bold py-4 px-12 rounded-sm hover:bg-red-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed uppercase tracking-widest text-sm"
+                  >
+                    {loading && generatedHooks.length === 0 ? t('generator.analyzing') : t('generator.submit')}
+                  </button>
+                  {loading && (
+                    <button
+                      onClick={cancelGeneration}
+                      className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline transition-colors"
+                    >
+                      {t('common.cancel')}
+                    </button>
+                  )}
+                  {usage && hasQuotas(usage.quotas) && (
+                    <p className="text-[10px] text-gray-400 uppercase tracking-widest text-center">
+                      {t('usage.today', {
+                        usage: formatUsage(usage.today, { requests: usage.quotas.dailyRequests, tokens: usage.quotas.dailyTokens }, t, intlTag),
+                      })}
+                      <br />
+                      {t('usage.month', {
+                        usage: formatUsage(usage.month, { requests: usage.quotas.monthlyRequests, tokens: usage.quotas.monthlyTokens }, t, intlTag),
+                      })}
+                    </p>
+                  )}
+                </div>
               </div>
-            )}
+            </section>
 
-            <div className="mt-12 flex justify-center">
-              <button
-                onClick={() => generateHooks(false)}
-                disabled={loading}
-                className="bg-brand-red text-white font-bold py-4 px-12 rounded-sm hover:bg-red-600 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed uppercase tracking-widest text-sm"
-              >
-                {loading && generatedHooks.length === 0 ? 'Analizando...' : 'Generar Hooks Virales'}
-              </button>
-            </div>
-          </div>
-        </section>
-
-        {/* Results Section */}
-        {generatedHooks.length > 0 && (
-          <section ref={hooksContainerRef} className="animate-fade-in">
-            <div className="flex items-center gap-4 mb-8">
-               <div className="h-px bg-gray-200 flex-grow"></div>
-               <h3 className="text-2xl font-serif text-brand-black px-4">Resultados Adaptados</h3>
-               <div className="h-px bg-gray-200 flex-grow"></div>
-            </div>
+            {/* Results Section */}
+            {generatedHooks.length > 0 && (
+              <section ref={hooksContainerRef} className="animate-fade-in">
+                <div className="flex items-center gap-4 mb-8">
+                   <div className="h-px bg-gray-200 flex-grow"></div>
+                   <h3 className="text-2xl font-serif text-brand-black px-4">{t('results.title')}</h3>
+                   <div className="h-px bg-gray-200 flex-grow"></div>
+                </div>
             
-            <div className="grid gap-6">
-              {generatedHooks.map((hook) => (
-                <HookCard key={hook.id} hook={hook} />
-              ))}
-            </div>
+                {/* Category filter: only categories present in the results are offered */}
+                <div className="flex flex-wrap justify-center gap-2 mb-8">
+                  {(['all', ...resultCategories] as (HookCategory | 'all')[]).map((category) => (
+                    <button
+                      key={category}
+                      onClick={() => setResultsCategory(category)}
+                      className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+                        resultsCategory === category
+                          ? 'bg-brand-black text-white border-brand-black'
+                          : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                      }`}
+                    >
+                      {category === 'all' ? t('results.all') : t(`category.${category}`)}
+                    </button>
+                  ))}
+                </div>
 
-            <div className="mt-16 text-center pb-12">
-               <button
-                onClick={() => generateHooks(true)}
-                disabled={loading}
-                className="bg-white border-2 border-brand-black text-brand-black font-bold py-3 px-8 hover:bg-brand-black hover:text-white transition-all duration-300 uppercase text-xs tracking-widest disabled:opacity-50 rounded-sm"
-              >
-                {loading ? 'Cargando...' : 'Cargar más fórmulas'}
-              </button>
-            </div>
-          </section>
+                {/* Score: sort, minimum and the optional model critique */}
+                <div className="flex flex-wrap justify-center items-center gap-2 mb-8">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mr-1">{t('results.sort')}</span>
+                  {(['template', 'score'] as ResultsSort[]).map((sort) => (
+                    <button
+                      key={sort}
+                      onClick={() => setResultsSort(sort)}
+                      className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+                        resultsSort === sort
+                          ? 'bg-brand-black text-white border-brand-black'
+                          : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                      }`}
+                    >
+                      {t(`results.sort.${sort}`)}
+                    </button>
+                  ))}
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest ml-4 mr-1">{t('results.minScore')}</span>
+                  {MIN_SCORE_OPTIONS.map((score) => (
+                    <button
+                      key={score}
+                      onClick={() => setMinScore(score)}
+                      className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+                        minScore === score
+                          ? 'bg-brand-black text-white border-brand-black'
+                          : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                      }`}
+                    >
+                      {score === 0 ? t('results.all') : `≥ ${score}`}
+                    </button>
+                  ))}
+                  <button
+                    onClick={critiqueVisibleHooks}
+                    disabled={critiquing || visibleHooks.every(hook => hook.critique)}
+                    className="ml-4 px-4 py-1 rounded-full text-xs font-semibold border border-brand-gold text-brand-gold hover:bg-brand-gold hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    {critiquing ? t('results.critiquing') : t('results.critique')}
+                  </button>
+                </div>
+
+                {/* Near-duplicates across "load more" batches and against the library */}
+                {duplicates.size > 0 && (
+                  <div className="flex flex-wrap justify-center items-center gap-2 mb-8">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mr-1">
+                      {t('results.duplicates', { count: duplicates.size })}
+                    </span>
+                    {DUPLICATE_DISPLAYS.map((display) => (
+                      <button
+                        key={display}
+                        onClick={() => setDuplicateDisplay(display)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+                          duplicateDisplay === display
+                            ? 'bg-brand-black text-white border-brand-black'
+                            : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                        }`}
+                      >
+                        {t(`results.duplicates.${display}`)}
+                      </button>
+                    ))}
+                    <button
+                      onClick={rerollDuplicates}
+                      disabled={rerolling || loading}
+                      className="ml-4 px-4 py-1 rounded-full text-xs font-semibold border border-brand-gold text-brand-gold hover:bg-brand-gold hover:text-white transition-colors disabled:opacity-50"
+                    >
+                      {rerolling ? t('results.duplicates.rerolling') : t('results.duplicates.reroll')}
+                    </button>
+                  </div>
+                )}
+
+                <ExportPanel
+                  hooks={visibleHooks.map(hook => fromGeneratedHook(hook, resultsFormData))}
+                  fileName={toExportFileName(resultsFormData.niche, resultsFormData.topic)}
+                />
+
+                <div className="grid gap-6">
+                  {visibleHooks.map((hook) => (
+                    <HookCard
+                      key={hook.id}
+                      hook={hook}
+                      template={getTemplateById(hook.originalTemplateId)}
+                      platform={resultsFormData.platform}
+                      score={hookScores.get(hook.id)}
+                      duplicateOf={duplicates.get(hook.id)}
+                      forbiddenWords={resultsForbiddenWords}
+                      isRewriting={rewritingHookIds.includes(hook.id)}
+                      isScripting={scriptingHookIds.includes(hook.id)}
+                      onExpandScript={(duration) => expandHookScript(hook, duration)}
+                      onRewrite={(mode) => rewriteHook(hook, mode)}
+                      onPickVariant={(variantId) => pickVariant(hook.id, variantId)}
+                      onDiscardVariant={(variantId) => discardVariant(hook.id, variantId)}
+                      isSaved={Boolean(findSavedHook(activeLibrary, hook.text))}
+                      onToggleSave={canEditLibrary ? () => toggleSavedHook(hook) : undefined}
+                    />
+                  ))}
+                </div>
+
+                <div className="mt-16 text-center pb-12">
+                   {hasMoreTemplates && (
+                     <button
+                      onClick={() => generateHooks(true)}
+                      disabled={loading}
+                      className="bg-white border-2 border-brand-black text-brand-black font-bold py-3 px-8 hover:bg-brand-black hover:text-white transition-all duration-300 uppercase text-xs tracking-widest disabled:opacity-50 rounded-sm"
+                    >
+                      {loading ? t('common.loading') : t('results.loadMore')}
+                    </button>
+                   )}
+                   {loading && (
+                     <button
+                       onClick={cancelGeneration}
+                       className="block mx-auto mt-4 text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline transition-colors"
+                     >
+                       {t('common.cancel')}
+                     </button>
+                   )}
+                </div>
+              </section>
+            )}
+          </>
         )}
 
       </main>
@@ -449,7 +1414,7 @@ const App: React.FC = () => {
           <p className="font-serif text-3xl text-brand-gold mb-4">Incubadora PRO FS</p>
           <div className="max-w-md mx-auto h-px bg-gray-800 mb-6"></div>
           <p className="text-gray-400 text-xs font-bold uppercase tracking-widest mb-2">
-            Presentado por
+            {t('footer.presentedBy')}
           </p>
           <p className="text-white text-base mb-8 font-light">
             Silvia Silva & Luis Figuerola
@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import { AccessCode, AdminOverview, UsageTotals } from '../types';
+import {
+  approveAccessRequest,
+  fetchAdminOverview,
+  issueAccessCode,
+  rejectAccessRequest,
+  revokeAccessCode,
+} from '../services/api';
+import { buildInvitationEmail, buildMailtoLink } from '../utils/invitationEmail';
+import { formatQuota, formatUsage, hasQuotas } from '../utils/usageFormat';
+import { MessageKey, useI18n } from '../i18n';
+
+// The date input gives "YYYY-MM-DD"; a code stays valid until the end of that day.
+const toExpiry = (day: string) => (day ? new Date(`${day}T23:59:59`).toISOString() : null);
+
+const codeStatus = (code: AccessCode): { labelKey: MessageKey; className: string } => {
+  if (code.revoked) return { labelKey: 'admin.status.revoked', className: 'text-brand-red' };
+  if (code.expiresAt && new Date(code.expiresAt) <= new Date()) return { labelKey: 'admin.status.expired', className: 'text-gray-400' };
+  return { labelKey: 'admin.status.active', className: 'text-green-700' };
+};
+
+const AdminPanel: React.FC = () => {
+  const { intlTag, t } = useI18n();
+  const [overview, setOverview] = useState<AdminOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [expiryDay, setExpiryDay] = useState('');
+  const [issueEmail, setIssueEmail] = useState('');
+  // Last code issued, shown with its ready-to-send email
+  const [issuedCode, setIssuedCode] = useState<AccessCode | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString(intlTag) : '—');
+  const formatTotals = (totals: UsageTotals) => formatUsage(totals, { requests: null, tokens: null }, t, intlTag);
+
+  const refresh = async () => {
+    try {
+      setOverview(await fetchAdminOverview());
+      setError(null);
+    } catch (err) {
+      console.error("Admin Error:", err);
+      setError(t('admin.error.load'));
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error("Admin Error:", err);
+      setError(t('admin.error.action'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApprove = (id: string) => runAction(async () => {
+    setIssuedCode(await approveAccessRequest(id, toExpiry(expiryDay)));
+  });
+
+  const handleIssue = () => runAction(async () => {
+    setIssuedCode(await issueAccessCode({ email: issueEmail.trim(), expiresAt: toExpiry(expiryDay) }));
+    setIssueEmail('');
+  });
+
+  const invitation = issuedCode ? buildInvitationEmail(issuedCode, window.location.origin, t, intlTag) : null;
+
+  const handleCopyInvitation = () => {
+    if (!invitation) return;
+    navigator.clipboard.writeText(`${invitation.subject}\n\n${invitation.body}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!overview) {
+    return (
+      <p className="text-center text-sm text-gray-400 py-16">
+        {error || t('admin.loading')}
+      </p>
+    );
+  }
+
+  const pending = overview.requests.filter(r => r.status === 'pending');
+  const decided = overview.requests.filter(r => r.status !== 'pending');
+
+  return (
+    <div className="space-y-12 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('admin.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-l-4 border-brand-red rounded-r">
+          <p className="text-brand-red font-bold text-center text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* --- ISSUE SETTINGS --- */}
+      <section className="bg-brand-gray p-6 rounded-xl border border-gray-100 space-y-4">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('admin.issue.title')}</h3>
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="email"
+            value={issueEmail}
+            onChange={(e) => setIssueEmail(e.target.value)}
+            placeholder={t('admin.issue.emailPlaceholder')}
+            className="flex-grow bg-white border border-gray-300 px-4 py-2 rounded text-sm focus:outline-none focus:border-brand-gold"
+          />
+          <label className="flex items-center gap-2 text-xs font-semibold text-gray-500">
+            {t('admin.issue.expires')}
+            <input
+              type="date"
+              value={expiryDay}
+              onChange={(e) => setExpiryDay(e.target.value)}
+              className="bg-white border border-gray-300 px-2 py-2 rounded text-sm focus:outline-none focus:border-brand-gold"
+            />
+          </label>
+          <button
+            onClick={handleIssue}
+            disabled={busy || !issueEmail.trim()}
+            className="bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+          >
+            {t('admin.issue.submit')}
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400">
+          {t('admin.issue.hint')}
+        </p>
+
+        {issuedCode && invitation && (
+          <div className="bg-white border-l-4 border-brand-gold p-4 rounded-r space-y-3">
+            <p className="text-sm">
+              {t('admin.issued.code')} <span className="font-bold tracking-wider">{issuedCode.code}</span> {t('admin.issued.for')}{' '}
+              <span className="font-semibold">{issuedCode.email}</span>.
+            </p>
+            <pre className="text-xs text-gray-600 whitespace-pre-wrap bg-brand-gray p-3 rounded font-sans">{invitation.body}</pre>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleCopyInvitation}
+                className="px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors"
+              >
+                {copied ? t('common.copied') : t('admin.copyEmail')}
+              </button>
+              <a
+                href={buildMailtoLink(issuedCode.email, invitation)}
+                className="px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors"
+              >
+                {t('admin.openEmail')}
+              </a>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* --- PENDING REQUESTS --- */}
+      <section>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">
+          {t('admin.pending.title', { count: pending.length })}
+        </h3>
+        {pending.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('admin.pending.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((request) => (
+              <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border border-gray-100 rounded p-4">
+                <div>
+                  <p className="font-semibold text-sm">{request.email}</p>
+                  <p className="text-[10px] text-gray-400">{formatDate(request.createdAt)}</p>
+                  {request.message && <p className="text-xs text-gray-500 mt-1">{request.message}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleApprove(request.id)}
+                    disabled={busy}
+                    className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider bg-brand-black text-white hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    {t('admin.approve')}
+                  </button>
+                  <button
+                    onClick={() => runAction(() => rejectAccessRequest(request.id))}
+                    disabled={busy}
+                    className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider border border-gray-300 text-gray-500 hover:border-brand-red hover:text-brand-red disabled:opacity-50"
+                  >
+                    {t('admin.reject')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* --- CODES --- */}
+      <section>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">
+          {t('admin.codes.title', { count: overview.codes.length })}
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-left">
+            <thead>
+              <tr className="text-gray-400 uppercase tracking-wider border-b border-gray-200">
+                <th className="py-2 pr-4">{t('admin.codes.email')}</th>
+                <th className="py-2 pr-4">{t('admin.codes.code')}</th>
+                <th className="py-2 pr-4">{t('admin.codes.uses')}</th>
+                <th className="py-2 pr-4">{t('admin.codes.lastUsed')}</th>
+                <th className="py-2 pr-4">{t('admin.codes.expires')}</th>
+                <th className="py-2 pr-4">{t('admin.codes.status')}</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.codes.map((code) => {
+                const status = codeStatus(code);
+                return (
+                  <tr key={code.code} className="border-b border-gray-100">
+                    <td className="py-2 pr-4">{code.email}</td>
+                    <td className="py-2 pr-4 font-bold tracking-wider">{code.code}</td>
+                    <td className="py-2 pr-4">{code.uses}</td>
+                    <td className="py-2 pr-4">{formatDate(code.lastUsedAt)}</td>
+                    <td className="py-2 pr-4">{formatDate(code.expiresAt)}</td>
+                    <td className={`py-2 pr-4 font-bold ${status.className}`}>{t(status.labelKey)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setIssuedCode(code)}
+                        className="underline text-gray-400 hover:text-brand-gold mr-3"
+                      >
+                        {t('admin.codes.invitation')}
+                      </button>
+                      {!code.revoked && (
+                        <button
+                          onClick={() => runAction(() => revokeAccessCode(code.code))}
+                          disabled={busy}
+                          className="underline text-gray-400 hover:text-brand-red disabled:opacity-50"
+                        >
+                          {t('admin.codes.revoke')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* --- CONSUMPTION --- */}
+      <section>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t('admin.consumption.title')}</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          {hasQuotas(overview.consumption.quotas)
+            ? t('admin.consumption.quotas', {
+                daily: formatQuota({ requests: overview.consumption.quotas.dailyRequests, tokens: overview.consumption.quotas.dailyTokens }, t, intlTag),
+                monthly: formatQuota({ requests: overview.consumption.quotas.monthlyRequests, tokens: overview.consumption.quotas.monthlyTokens }, t, intlTag),
+              })
+            : t('admin.consumption.noQuotas')}
+        </p>
+        {overview.consumption.rows.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('admin.consumption.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-gray-400 uppercase tracking-wider border-b border-gray-200">
+                  <th className="py-2 pr-4">{t('admin.codes.email')}</th>
+                  <th className="py-2 pr-4">{t('admin.codes.code')}</th>
+                  <th className="py-2 pr-4">{t('admin.consumption.today')}</th>
+                  <th className="py-2 pr-4">{t('admin.consumption.month')}</th>
+                  <th className="py-2 pr-4">{t('admin.consumption.total')}</th>
+                  <th className="py-2">{t('admin.codes.lastUsed')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.consumption.rows.map((row) => (
+                  <tr key={row.code} className="border-b border-gray-100">
+                    <td className="py-2 pr-4">{row.email}</td>
+                    <td className="py-2 pr-4 font-bold tracking-wider">{row.code}</td>
+                    <td className="py-2 pr-4">{formatTotals(row.today)}</td>
+                    <td className="py-2 pr-4">{formatTotals(row.month)}</td>
+                    <td className="py-2 pr-4">{formatTotals(row.total)}</td>
+                    <td className="py-2">{formatDate(row.lastUsedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* --- USAGE LOG --- */}
+      <section>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">{t('admin.usage.title')}</h3>
+        {overview.usage.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('admin.usage.empty')}</p>
+        ) : (
+          <ul className="text-xs divide-y divide-gray-100 max-h-72 overflow-y-auto">
+            {overview.usage.map((entry, index) => (
+              <li key={`${entry.code}-${entry.usedAt}-${index}`} className="py-2 flex justify-between gap-4">
+                <span>{entry.email} · <span className="font-bold tracking-wider">{entry.code}</span></span>
+                <span className="text-gray-400">{formatDate(entry.usedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* --- DECIDED REQUESTS --- */}
+      {decided.length > 0 && (
+        <section>
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">{t('admin.decided.title')}</h3>
+          <ul className="text-xs divide-y divide-gray-100">
+            {decided.map((request) => (
+              <li key={request.id} className="py-2 flex justify-between gap-4">
+                <span>
+                  {request.email}{' '}
+                  <span className={request.status === 'approved' ? 'text-green-700 font-bold' : 'text-brand-red font-bold'}>
+                    {request.status === 'approved' ? t('admin.decided.approved', { code: request.code ?? '' }) : t('admin.decided.rejected')}
+                  </span>
+                </span>
+                <span className="text-gray-400">{request.decidedBy} · {formatDate(request.decidedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,342 @@
+import React, { useRef, useState } from 'react';
+import {
+  BulkRow,
+  BulkRowInput,
+  FormData,
+  GeneratedHook,
+  GenerationSession,
+  Locale,
+  PlaceholderValues,
+  TemplateFilters,
+  VoiceBrief,
+} from '../types';
+import { BATCH_SIZE, BULK_CONCURRENCY, BULK_MAX_ROWS } from '../constants';
+import { ApiRequestError, streamAdaptedHooks } from '../services/api';
+import { createTaskQueue } from '../services/bulkQueue';
+import { createSession } from '../services/history';
+import { parseBulkRows } from '../utils/bulkImport';
+import { fromGeneratedHook, toExportFileName } from '../utils/hookExport';
+import { fillLocalizedTemplate, resolveManualValues } from '../utils/placeholderFill';
+import { getLocalizedTemplate, getTemplateCatalog } from '../utils/templateCatalog';
+import { selectTemplates } from '../utils/templateSelection';
+import { getQuotaMessage } from '../utils/usageFormat';
+import { getLanguage } from '../i18n/locales';
+import { useI18n } from '../i18n';
+import ExportPanel from './ExportPanel';
+
+interface BulkViewProps {
+  // Generator settings every row is generated with; only niche, topic and audience come from the row
+  formData: FormData;
+  filters: TemplateFilters;
+  voice?: VoiceBrief;
+  manualValues: PlaceholderValues | null; // Set when the generator is in manual fill mode
+  workspaceId?: string; // Runs show up in this workspace's activity feed
+  onSession: (session: GenerationSession) => void;
+  onSessionExpired: () => void;
+}
+
+type BulkSettings = Pick<BulkViewProps, 'formData' | 'filters' | 'voice' | 'manualValues' | 'workspaceId'> & { locale: Locale };
+
+const buttonClass =
+  'px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50';
+
+const STATUS_CLASSES: Record<BulkRow['status'], string> = {
+  pending: 'text-gray-400',
+  queued: 'text-gray-500',
+  running: 'text-brand-gold',
+  done: 'text-green-700',
+  failed: 'text-brand-red',
+  cancelled: 'text-gray-400',
+};
+
+const groupKey = (topic: string) => topic.trim().toLowerCase();
+
+const BulkView: React.FC<BulkViewProps> = ({ formData, filters, voice, manualValues, workspaceId, onSession, onSessionExpired }) => {
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [pasted, setPasted] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const queueRef = useRef(createTaskQueue(BULK_CONCURRENCY));
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const { locale, intlTag, t } = useI18n();
+
+  const updateRow = (id: string, changes: (row: BulkRow) => Partial<BulkRow>) =>
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes(row) } : row)));
+
+  // --- LOADING ROWS ---
+
+  const addRows = (text: string) => {
+    const { rows: inputs, skipped } = parseBulkRows(text);
+    const room = Math.max(0, BULK_MAX_ROWS - rows.length);
+    const added: BulkRow[] = inputs.slice(0, room).map(input => ({
+      id: crypto.randomUUID(),
+      input,
+      status: 'pending',
+      hooks: [],
+      expected: 0,
+    }));
+    setRows(prev => [...prev, ...added]);
+    setImportMessage(t('bulk.loaded', { count: added.length, skipped: skipped + inputs.length - added.length }));
+    if (added.length > 0) setPasted('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addRows(await file.text());
+  };
+
+  // --- QUEUE ---
+
+  // Settings are captured when the row is queued, so editing the generator meanwhile does not mix runs
+  const enqueue = (targets: BulkRow[]) => {
+    const settings: BulkSettings = { formData, filters, voice, manualValues, workspaceId, locale };
+    targets.forEach(row => {
+      updateRow(row.id, () => ({ status: 'queued', errorCode: undefined, retryAfterSeconds: undefined }));
+      queueRef.current.push(() => runRow(row.id, row.input, settings));
+    });
+  };
+
+  const runRow = async (id: string, input: BulkRowInput, settings: BulkSettings) => {
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    // Context accepted in the niche assistant belongs to the form's niche, not to the row's
+    const rowFormData = { ...settings.formData, ...input, context: undefined };
+    const language = getLanguage(settings.locale);
+    const pool = selectTemplates(getTemplateCatalog(), settings.filters);
+    const templates = pool.slice(0, BATCH_SIZE);
+    const hooks: GeneratedHook[] = [];
+    const startedAt = new Date().toISOString();
+    updateRow(id, () => ({ status: 'running', hooks: [], expected: templates.length }));
+
+    try {
+      let provider = '';
+      let model = '';
+      let failedTemplateIds: number[] = [];
+      if (settings.manualValues) {
+        const values = resolveManualValues(settings.manualValues, rowFormData, language);
+        templates.forEach((template, index) => hooks.push({
+          id: index,
+          originalTemplateId: template.id,
+          text: fillLocalizedTemplate(getLocalizedTemplate(template, language).template, values, language),
+        }));
+      } else {
+        const summary = await streamAdaptedHooks(
+          {
+            formData: rowFormData,
+            templates: templates.map(template => ({ id: template.id, template: getLocalizedTemplate(template, language).template })),
+            locale: settings.locale,
+            voice: settings.voice,
+            workspaceId: settings.workspaceId,
+          },
+          (hook) => {
+            hooks.push({ id: templates.findIndex(t => t.id === hook.templateId), originalTemplateId: hook.templateId, text: hook.text });
+            updateRow(id, () => ({ hooks: [...hooks] }));
+          },
+          controller.signal,
+        );
+        ({ provider, model, failedTemplateIds } = summary);
+      }
+
+      if (hooks.length === 0) throw new ApiRequestError(502, 'EMPTY_RESPONSE');
+      updateRow(id, () => ({ status: 'done', hooks: [...hooks] }));
+
+      // Each row also lands in the history, where "load more" can continue it like any other session
+      onSession({
+        ...createSession(rowFormData, settings.filters, pool.map(t => t.id), settings.locale),
+        ...(settings.manualValues && { manualValues: settings.manualValues }),
+        hooks,
+        batches: [{
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          templateIds: templates.map(t => t.id),
+          failedTemplateIds,
+        }],
+        provider,
+        model,
+      });
+    } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        updateRow(id, () => ({ status: 'cancelled' }));
+        return;
+      }
+      if (err instanceof ApiRequestError && err.status === 401) {
+        cancelAll();
+        onSessionExpired();
+        return;
+      }
+      updateRow(id, () => ({
+        status: 'failed',
+        errorCode: err instanceof ApiRequestError ? err.code : 'UNKNOWN',
+        retryAfterSeconds: err instanceof ApiRequestError ? err.retryAfterSeconds : undefined,
+      }));
+    } finally {
+      controllersRef.current.delete(id);
+    }
+  };
+
+  const cancelAll = () => {
+    queueRef.current.clear();
+    controllersRef.current.forEach(controller => controller.abort());
+    setRows(prev => prev.map(row => (row.status === 'queued' ? { ...row, status: 'pending' } : row)));
+  };
+
+  const removeRow = (id: string) => setRows(prev => prev.filter(row => row.id !== id));
+
+  const clearRows = () => {
+    cancelAll();
+    setRows([]);
+    setImportMessage(null);
+  };
+
+  const errorMessage = (row: BulkRow) => {
+    const quotaMessage = row.errorCode && getQuotaMessage(row.errorCode, row.retryAfterSeconds, t, intlTag);
+    if (quotaMessage) return quotaMessage;
+    if (row.errorCode === 'RATE_LIMITED') return t('generator.error.rateLimited', { seconds: row.retryAfterSeconds ?? 10 });
+    if (row.errorCode === 'API_KEY_MISSING') return t('generator.error.apiKey');
+    return t('generator.error.generic');
+  };
+
+  const pendingRows = rows.filter(row => row.status === 'pending');
+  const busy = rows.some(row => row.status === 'queued' || row.status === 'running');
+
+  // --- RESULTS ---
+
+  // Done rows grouped by topic, in the order each topic first appears
+  const groups: { topic: string; rows: BulkRow[] }[] = [];
+  rows.filter(row => row.hooks.length > 0).forEach(row => {
+    const group = groups.find(g => groupKey(g.topic) === groupKey(row.input.topic));
+    if (group) group.rows.push(row);
+    else groups.push({ topic: row.input.topic, rows: [row] });
+  });
+  const exportable = groups.flatMap(group =>
+    group.rows.flatMap(row => row.hooks.map(hook => fromGeneratedHook(hook, { ...formData, ...row.input })))
+  );
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('bulk.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      <p className="text-sm text-gray-500">{t('bulk.intro', { count: BATCH_SIZE, max: BULK_MAX_ROWS })}</p>
+      <p className="text-[10px] text-gray-400 uppercase tracking-widest">
+        {[
+          t(`platform.${formData.platform}`),
+          voice ? voice.name : t('generator.voiceNone'),
+          manualValues ? t('manual.mode.manual') : t('manual.mode.ai'),
+        ].join(' · ')}
+      </p>
+
+      <div className="bg-brand-gray p-4 rounded-xl border border-gray-100 space-y-3">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder={t('bulk.pastePlaceholder')}
+          rows={5}
+          className="w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm font-mono focus:outline-none focus:border-brand-gold placeholder-gray-300"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={() => addRows(pasted)} disabled={!pasted.trim() || rows.length >= BULK_MAX_ROWS} className={buttonClass}>
+            {t('bulk.addPasted')}
+          </button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            {t('bulk.uploadCsv')}
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+          {importMessage && <span className="text-xs font-semibold text-brand-gold">{importMessage}</span>}
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => enqueue(pendingRows)}
+              disabled={pendingRows.length === 0}
+              className="bg-brand-red text-white font-bold py-2 px-6 rounded-sm hover:bg-red-600 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+            >
+              {t('bulk.run', { count: pendingRows.length })}
+            </button>
+            {busy && (
+              <button onClick={cancelAll} className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline">
+                {t('common.cancel')}
+              </button>
+            )}
+            <button onClick={clearRows} className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline">
+              {t('bulk.clear')}
+            </button>
+          </div>
+
+          <div className="bg-white border border-gray-100 rounded-lg divide-y divide-gray-100">
+            {rows.map((row) => (
+              <div key={row.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4 px-4 py-3 text-sm">
+                <div className="flex-grow">
+                  <span className="font-medium text-brand-black">{row.input.niche} · {row.input.topic}</span>
+                  {row.input.audience && <span className="text-gray-400"> · {row.input.audience}</span>}
+                  {row.status === 'failed' && <p className="text-xs text-brand-red">{errorMessage(row)}</p>}
+                </div>
+                <span className={`text-[10px] font-bold uppercase tracking-widest shrink-0 ${STATUS_CLASSES[row.status]}`}>
+                  {t(`bulk.status.${row.status}`)}
+                  {(row.status === 'running' || row.status === 'done') && ` · ${row.hooks.length}/${row.expected}`}
+                </span>
+                <div className="flex gap-3 shrink-0">
+                  {(row.status === 'failed' || row.status === 'cancelled') && (
+                    <button
+                      onClick={() => enqueue([row])}
+                      className="text-xs text-brand-gold hover:text-brand-black uppercase tracking-widest underline"
+                    >
+                      {t('bulk.retry')}
+                    </button>
+                  )}
+                  {row.status !== 'queued' && row.status !== 'running' && (
+                    <button
+                      onClick={() => removeRow(row.id)}
+                      className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {groups.length > 0 && (
+        <div className="space-y-8">
+          <ExportPanel hooks={exportable} fileName={toExportFileName('lote', new Date().toISOString().slice(0, 10))} />
+          {groups.map((group) => (
+            <div key={groupKey(group.topic)}>
+              <h3 className="text-lg font-serif text-brand-black mb-3">{group.topic}</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-200">
+                    <th className="py-2 pr-4">{t('bulk.column.hook')}</th>
+                    <th className="py-2 pr-4">{t('bulk.column.niche')}</th>
+                    <th className="py-2 pr-4">{t('bulk.column.audience')}</th>
+                    <th className="py-2">{t('bulk.column.formula')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.rows.flatMap(row => row.hooks.map(hook => (
+                    <tr key={`${row.id}-${hook.id}`} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4 text-brand-black">{hook.text}</td>
+                      <td className="py-2 pr-4 text-gray-500">{row.input.niche}</td>
+                      <td className="py-2 pr-4 text-gray-500">{row.input.audience}</td>
+                      <td className="py-2 text-gray-400">#{hook.originalTemplateId}</td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkView;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { CalendarOptions, ExportableHook, ExportFormat } from '../types';
+import { downloadExport, exportHooks, schedulePostingDates, toPlainText } from '../utils/hookExport';
+import { useI18n } from '../i18n';
+
+interface ExportPanelProps {
+  hooks: ExportableHook[];
+  fileName: string;
+}
+
+const FILE_FORMATS: { format: Exclude<ExportFormat, 'ics'>; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Monday first; values follow Date#getDay
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const buttonClass =
+  'px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ hooks, fileName }) => {
+  const [copied, setCopied] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [calendar, setCalendar] = useState<CalendarOptions>(() => ({
+    startDate: tomorrow(),
+    weekdays: [1, 3, 5],
+    time: '09:00',
+  }));
+  const { t } = useI18n();
+  const weekdayLabels = t('export.weekdays').split(',');
+
+  const empty = hooks.length === 0;
+  const postingDates = schedulePostingDates(hooks.length, calendar);
+
+  const handleCopyAll = () => {
+    navigator.clipboard.writeText(toPlainText(hooks));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    downloadExport(fileName, format, exportHooks(hooks, format, calendar, t));
+  };
+
+  const toggleWeekday = (day: number) =>
+    setCalendar(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day) ? prev.weekdays.filter(d => d !== day) : [...prev.weekdays, day],
+    }));
+
+  return (
+    <div className="bg-brand-gray p-4 rounded-xl border border-gray-100 mb-8">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mr-2">
+          {t('export.title', { count: hooks.length })}
+        </span>
+        <button onClick={handleCopyAll} disabled={empty} className={buttonClass}>
+          {copied ? t('common.copied') : t('export.copyAll')}
+        </button>
+        {FILE_FORMATS.map(({ format, label }) => (
+          <button key={format} onClick={() => handleExport(format)} disabled={empty} className={buttonClass}>
+            {label}
+          </button>
+        ))}
+        <button onClick={() => setShowCalendar(!showCalendar)} disabled={empty} className={buttonClass}>
+          {t('export.calendar')}
+        </button>
+      </div>
+
+      {showCalendar && !empty && (
+        <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col md:flex-row md:items-end gap-4">
+          <label className="flex flex-col gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+            {t('export.from')}
+            <input
+              type="date"
+              value={calendar.startDate}
+              onChange={(e) => setCalendar({ ...calendar, startDate: e.target.value })}
+              className="bg-white border border-gray-300 px-2 py-1 rounded text-sm text-brand-black focus:outline-none focus:border-brand-gold"
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{t('export.days')}</span>
+            <div className="flex gap-1">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day}
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-8 h-8 rounded-full text-xs font-bold border transition-colors ${
+                    calendar.weekdays.includes(day)
+                      ? 'bg-brand-black text-white border-brand-black'
+                      : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold'
+                  }`}
+                >
+                  {weekdayLabels[day]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex flex-col gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+            {t('export.time')}
+            <input
+              type="time"
+              value={calendar.time}
+              onChange={(e) => setCalendar({ ...calendar, time: e.target.value })}
+              className="bg-white border border-gray-300 px-2 py-1 rounded text-sm text-brand-black focus:outline-none focus:border-brand-gold"
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <button
+              onClick={() => handleExport('ics')}
+              disabled={postingDates.length === 0}
+              className="bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+            >
+              {t('export.download')}
+            </button>
+            {postingDates.length > 0 && (
+              <span className="text-[10px] text-gray-400">
+                {t('export.range', { first: postingDates[0], last: postingDates[postingDates.length - 1] })}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
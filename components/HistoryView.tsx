@@ -0,0 +1,93 @@
+import React from 'react';
+import { GenerationSession } from '../types';
+import { useI18n } from '../i18n';
+import { getLocaleOption } from '../i18n/locales';
+
+interface HistoryViewProps {
+  history: GenerationSession[];
+  activeSessionId: string | null;
+  onOpen: (session: GenerationSession) => void;
+  onDuplicate: (session: GenerationSession) => void;
+  onDelete: (id: string) => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ history, activeSessionId, onOpen, onDuplicate, onDelete }) => {
+  const { intlTag, t } = useI18n();
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('history.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-12">
+          {t('history.empty')}
+        </p>
+      ) : (
+        <div className="grid gap-4">
+          {history.map((session) => {
+            const loaded = session.batches.reduce((total, batch) => total + batch.templateIds.length, 0);
+            return (
+              <div
+                key={session.id}
+                className={`bg-white border-l-4 shadow-sm p-6 rounded-r-lg ${
+                  session.id === activeSessionId ? 'border-brand-red' : 'border-brand-gold'
+                }`}
+              >
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div>
+                    <p className="text-lg font-medium text-brand-black">
+                      {session.formData.niche} · {session.formData.topic}
+                    </p>
+                    {session.formData.audience && (
+                      <p className="text-sm text-gray-500">{t('history.audience', { audience: session.formData.audience })}</p>
+                    )}
+                    <p className="mt-2 text-[10px] text-gray-400 uppercase tracking-widest">
+                      {new Date(session.createdAt).toLocaleString(intlTag)}
+                      {` · ${t('history.hooks', { count: session.hooks.length })}`}
+                      {` · ${t('history.progress', { loaded, total: session.templatePoolIds.length })}`}
+                      {` · ${getLocaleOption(session.locale).label}`}
+                      {` · ${t(`platform.${session.formData.platform}`)}`}
+                      {session.manualValues ? ` · ${t('history.manual')}` : session.provider && ` · ${session.provider} / ${session.model}`}
+                    </p>
+                    {session.filters.categories.length > 0 && (
+                      <p className="mt-1 text-[10px] text-gray-400 uppercase tracking-widest">
+                        {session.filters.categories.map(c => t(`category.${c}`)).join(', ')}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 shrink-0">
+                    <button
+                      onClick={() => onOpen(session)}
+                      className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider bg-brand-black text-white hover:bg-gray-800"
+                    >
+                      {t('history.open')}
+                    </button>
+                    <button
+                      onClick={() => onDuplicate(session)}
+                      className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider border border-gray-300 text-gray-500 hover:border-brand-gold hover:text-brand-gold"
+                    >
+                      {t('history.duplicate')}
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider border border-gray-300 text-gray-500 hover:border-brand-red hover:text-brand-red"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
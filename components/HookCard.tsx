@@ -1,12 +1,54 @@
 import React, { useState } from 'react';
-import { GeneratedHook } from '../types';
+import { DuplicateMatch, GeneratedHook, HookScore, HookTemplate, Platform, RewriteMode, ScriptDuration } from '../types';
+import { PLATFORM_RULES, REWRITE_MODES, SCRIPT_DURATIONS } from '../constants';
+import { useI18n } from '../i18n';
+import { SCORE_CRITERIA } from '../utils/hookScoring';
+import { getHookMetrics } from '../utils/platforms';
+import { getLocalizedTemplate } from '../utils/templateCatalog';
+import { findForbiddenWords } from '../utils/voiceCheck';
+import ScriptPanel from './ScriptPanel';
 
 interface HookCardProps {
   hook: GeneratedHook;
+  template?: HookTemplate;
+  platform: Platform;
+  score?: HookScore;
+  duplicateOf?: DuplicateMatch; // Set when the hook nearly repeats an earlier card or a saved hook
+  forbiddenWords: string[]; // The brand voice's forbidden list, checked against the hook and its variants
+  isSaved: boolean;
+  isRewriting: boolean;
+  isScripting: boolean;
+  onToggleSave?: () => void; // Left out where the library is read-only
+  onRewrite: (mode: RewriteMode) => void;
+  onPickVariant: (variantId: string) => void;
+  onDiscardVariant: (variantId: string) => void;
+  onExpandScript: (duration: ScriptDuration) => void;
 }
 
-const HookCard: React.FC<HookCardProps> = ({ hook }) => {
+const scoreColor = (value: number) =>
+  value >= 70 ? 'text-green-700 border-green-200 bg-green-50' : value >= 50 ? 'text-brand-gold border-brand-gold' : 'text-brand-red border-red-200';
+
+const HookCard: React.FC<HookCardProps> = ({
+  hook,
+  template,
+  platform,
+  score,
+  duplicateOf,
+  forbiddenWords,
+  isSaved,
+  isRewriting,
+  isScripting,
+  onToggleSave,
+  onRewrite,
+  onPickVariant,
+  onDiscardVariant,
+  onExpandScript,
+}) => {
   const [copied, setCopied] = useState(false);
+  const { language, intlTag, t } = useI18n();
+  const metrics = getHookMetrics(hook.text, platform);
+  const usedForbiddenWords = findForbiddenWords(hook.text, forbiddenWords);
+  const variants = hook.variants || [];
 
   const handleCopy = () => {
     navigator.clipboard.writeText(hook.text);
@@ -20,9 +62,97 @@ const HookCard: React.FC<HookCardProps> = ({ hook }) => {
         <p className="text-xl font-medium text-brand-black leading-snug font-sans">
           {hook.text}
         </p>
+        <div className="flex items-center gap-3 shrink-0">
+          {score && (
+            <span
+              title={t('hook.score')}
+              className={`px-2 py-0.5 rounded-full border text-sm font-bold ${scoreColor(score.total)}`}
+            >
+              {score.total}
+            </span>
+          )}
+          {onToggleSave ? (
+            <button
+              onClick={onToggleSave}
+              title={isSaved ? t('hook.unsave') : t('hook.save')}
+              className={`text-2xl leading-none transition-colors ${isSaved ? 'text-brand-gold' : 'text-gray-300 hover:text-brand-gold'}`}
+            >
+              {isSaved ? '★' : '☆'}
+            </button>
+          ) : (
+            isSaved && <span className="text-2xl leading-none text-brand-gold">★</span>
+          )}
+        </div>
       </div>
 
-      <div className="mt-6 flex flex-wrap gap-3">
+      <p className={`mt-3 text-[11px] font-semibold ${metrics.overLimit ? 'text-brand-red' : 'text-gray-400'}`}>
+        {[
+          t('hook.characters', { count: metrics.characters }),
+          t('hook.words', { count: metrics.words }),
+          t('hook.readingTime', { seconds: metrics.readingSeconds.toLocaleString(intlTag) }),
+        ].join(' · ')}
+        {metrics.overLimit &&
+          ` · ${t('hook.overLimit', { max: PLATFORM_RULES[platform].maxChars, platform: t(`platform.${platform}`) })}`}
+      </p>
+
+      {score && (
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+          {SCORE_CRITERIA.map((criterion) => (
+            <div key={criterion}>
+              <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                <span>{t(`score.${criterion}`)}</span>
+                <span>{score.breakdown[criterion]}</span>
+              </div>
+              <div className="mt-1 h-1 rounded-full bg-gray-100">
+                <div className="h-1 rounded-full bg-brand-gold" style={{ width: `${score.breakdown[criterion]}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hook.critique?.comment && (
+        <p className="mt-3 text-xs text-gray-500 italic">{t('hook.critique', { comment: hook.critique.comment })}</p>
+      )}
+
+      {duplicateOf && (
+        <p className="mt-2 text-xs font-bold text-brand-gold">
+          {t(duplicateOf.source === 'results' ? 'hook.duplicate.results' : 'hook.duplicate.library', {
+            percent: Math.round(duplicateOf.similarity * 100),
+            text: duplicateOf.text,
+          })}
+        </p>
+      )}
+
+      {usedForbiddenWords.length > 0 && (
+        <p className="mt-2 text-xs font-bold text-brand-red">
+          {t('hook.forbiddenWords', { words: usedForbiddenWords.join(', ') })}
+        </p>
+      )}
+
+      {template && (
+        <div className="mt-4 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <span className="px-2 py-0.5 rounded bg-brand-gray border border-gray-200 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+              {t('hook.formula', { id: template.id })}
+            </span>
+            {template.custom && (
+              <span className="px-2 py-0.5 rounded bg-brand-gray border border-gray-200 text-[10px] font-bold uppercase tracking-widest text-brand-black">
+                {t('templates.customBadge')}
+              </span>
+            )}
+            <span className="px-2 py-0.5 rounded bg-brand-gray border border-gray-200 text-[10px] font-bold uppercase tracking-widest text-brand-gold">
+              {t(`category.${template.category}`)}
+            </span>
+            <span className="px-2 py-0.5 rounded bg-brand-gray border border-gray-200 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+              {t(`trigger.${template.trigger}`)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-400 italic">{getLocalizedTemplate(template, language).template}</p>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
         <button
           onClick={handleCopy}
           className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors duration-200 border ${
@@ -31,11 +161,81 @@ const HookCard: React.FC<HookCardProps> = ({ hook }) => {
               : 'bg-transparent text-brand-black border-gray-300 hover:border-brand-gold hover:text-brand-gold'
           }`}
         >
-          {copied ? '¡Copiado!' : 'Copiar Hook'}
+          {copied ? t('common.copied') : t('hook.copy')}
         </button>
+        {template && REWRITE_MODES.map((mode) => (
+          <button
+            key={mode}
+            onClick={() => onRewrite(mode)}
+            disabled={isRewriting}
+            className="px-3 py-1.5 rounded-full text-xs font-semibold border border-gray-200 text-gray-500 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50"
+          >
+            {t(`rewrite.${mode}`)}
+          </button>
+        ))}
+        {isRewriting && <span className="text-xs text-gray-400">{t('hook.rewriting')}</span>}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          {hook.script ? t('script.rewrite') : t('script.expand')}
+        </span>
+        {SCRIPT_DURATIONS.map((duration) => (
+          <button
+            key={duration}
+            onClick={() => onExpandScript(duration)}
+            disabled={isScripting}
+            className="px-3 py-1 rounded-full text-xs font-semibold border border-gray-200 text-gray-500 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50"
+          >
+            {t('script.duration', { seconds: duration })}
+          </button>
+        ))}
+        {isScripting && <span className="text-xs text-gray-400">{t('script.writing')}</span>}
       </div>
+
+      {hook.script && <ScriptPanel script={hook.script} />}
+
+      {variants.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-gray-100 space-y-3">
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+            {t('hook.variants', { count: variants.length })}
+          </p>
+          {variants.map((variant) => {
+            const variantForbiddenWords = findForbiddenWords(variant.text, forbiddenWords);
+            return (
+              <div key={variant.id} className="flex items-start gap-3 bg-brand-gray rounded p-3">
+                <div className="flex-grow">
+                  <p className="text-sm text-brand-black leading-snug">{variant.text}</p>
+                  <p className="mt-1 text-[10px] text-gray-400 uppercase tracking-widest">
+                    {t(`rewrite.${variant.mode}`)}
+                    {` · ${t('hook.characters', { count: variant.text.length })}`}
+                    {variantForbiddenWords.length > 0 && (
+                      <span className="text-brand-red">
+                        {` · ${t('hook.forbiddenWords', { words: variantForbiddenWords.join(', ') })}`}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onPickVariant(variant.id)}
+                  className="text-xs font-bold text-brand-gold hover:text-brand-black uppercase tracking-widest underline shrink-0"
+                >
+                  {t('hook.pickVariant')}
+                </button>
+                <button
+                  onClick={() => onDiscardVariant(variant.id)}
+                  title={t('hook.discardVariant')}
+                  className="text-gray-400 hover:text-brand-red shrink-0"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
 
-export default HookCard;
\ No newline at end of file
+export default HookCard;
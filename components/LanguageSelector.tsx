@@ -0,0 +1,30 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import { isLocale, LOCALES } from '../i18n/locales';
+
+interface LanguageSelectorProps {
+  className?: string;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={`flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest ${className}`}>
+      {t('common.language')}
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="bg-white border border-gray-300 px-2 py-1 rounded text-xs normal-case tracking-normal text-brand-black focus:outline-none focus:border-brand-gold"
+      >
+        {LOCALES.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSelector;
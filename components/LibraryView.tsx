@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { SavedHook } from '../types';
+import { getLibraryTags, normalizeTag, searchLibrary } from '../services/library';
+import { getTemplateById } from '../utils/templateCatalog';
+import { fromSavedHook, toExportFileName } from '../utils/hookExport';
+import ExportPanel from './ExportPanel';
+import ScriptPanel from './ScriptPanel';
+import { useI18n } from '../i18n';
+
+// Without onUpdate/onDelete the library is read-only (workspace viewers)
+interface LibraryViewProps {
+  library: SavedHook[];
+  onUpdate?: (saved: SavedHook) => void;
+  onDelete?: (id: string) => void;
+}
+
+interface SavedHookItemProps {
+  saved: SavedHook;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+  onUpdate?: (saved: SavedHook) => void;
+  onDelete?: (id: string) => void;
+}
+
+const SavedHookItem: React.FC<SavedHookItemProps> = ({ saved, isSelected, onToggleSelect, onUpdate, onDelete }) => {
+  const [newTag, setNewTag] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { intlTag, t } = useI18n();
+  const template = getTemplateById(saved.templateId);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(saved.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !saved.tags.includes(tag)) onUpdate?.({ ...saved, tags: [...saved.tags, tag] });
+    setNewTag('');
+  };
+
+  return (
+    <div className="bg-white border-l-4 border-brand-gold shadow-sm p-6 rounded-r-lg">
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={onToggleSelect}
+          className="mt-1.5 accent-brand-gold"
+          aria-label={t('library.select')}
+        />
+        <p className="text-lg font-medium text-brand-black leading-snug">{saved.text}</p>
+      </div>
+
+      <p className="mt-3 text-[10px] text-gray-400 uppercase tracking-widest">
+        {saved.niche} · {saved.topic}
+        {saved.audience && ` · ${saved.audience}`}
+        {template && ` · ${t('hook.formula', { id: template.id })}`}
+        {` · ${new Date(saved.savedAt).toLocaleDateString(intlTag)}`}
+        {saved.savedBy && ` · ${saved.savedBy}`}
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {saved.tags.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-brand-gray border border-gray-200 text-xs text-gray-600">
+            #{tag}
+            {onUpdate && (
+              <button
+                onClick={() => onUpdate({ ...saved, tags: saved.tags.filter(t => t !== tag) })}
+                className="text-gray-400 hover:text-brand-red"
+                aria-label={t('library.removeTag', { tag })}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {onUpdate && (
+          <input
+            type="text"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTag()}
+            onBlur={addTag}
+            placeholder={t('library.tagPlaceholder')}
+            className="w-28 border-b border-gray-200 px-1 py-0.5 text-xs focus:outline-none focus:border-brand-gold"
+          />
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button
+          onClick={handleCopy}
+          className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors duration-200 border ${
+            copied
+              ? 'bg-green-100 text-green-700 border-green-200'
+              : 'bg-transparent text-brand-black border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+          }`}
+        >
+          {copied ? t('common.copied') : t('hook.copy')}
+        </button>
+        {onDelete && (
+          <button
+            onClick={() => onDelete(saved.id)}
+            className="px-4 py-2 rounded-full text-sm font-semibold border border-gray-300 text-gray-500 hover:border-brand-red hover:text-brand-red transition-colors"
+          >
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+
+      {saved.script && (
+        <ScriptPanel script={saved.script} onDelete={onUpdate && (() => onUpdate({ ...saved, script: undefined }))} />
+      )}
+    </div>
+  );
+};
+
+const LibraryView: React.FC<LibraryViewProps> = ({ library, onUpdate, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { t } = useI18n();
+
+  const tags = getLibraryTags(library);
+  const results = searchLibrary(library, query, activeTag);
+  // Export the ticked hooks, or everything the current search shows when nothing is ticked
+  const selected = library.filter(saved => selectedIds.includes(saved.id));
+  const toExport = selected.length > 0 ? selected : results;
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('library.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      {library.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-12">
+          {t('library.empty')}
+        </p>
+      ) : (
+        <>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('library.searchPlaceholder')}
+            className="w-full bg-white border-b-2 border-gray-300 px-4 py-3 text-lg focus:outline-none focus:border-brand-gold transition-colors placeholder-gray-300 mb-6"
+          />
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-8">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`px-3 py-1 rounded-full text-xs font-bold tracking-wider border transition-colors ${
+                    activeTag === tag
+                      ? 'bg-brand-black text-white border-brand-black'
+                      : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <ExportPanel hooks={toExport.map(fromSavedHook)} fileName={toExportFileName(t('library.title'))} />
+
+          <div className="flex items-center gap-4 text-xs text-gray-400 mb-4">
+            <span>{t('library.count', { shown: results.length, total: library.length })}</span>
+            {selected.length > 0 && (
+              <>
+                <span className="text-brand-gold font-semibold">{t('library.selected', { count: selected.length })}</span>
+                <button onClick={() => setSelectedIds([])} className="underline hover:text-brand-red">
+                  {t('library.clearSelection')}
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="grid gap-6">
+            {results.map((saved) => (
+              <SavedHookItem
+                key={saved.id}
+                saved={saved}
+                isSelected={selectedIds.includes(saved.id)}
+                onToggleSelect={() => toggleSelected(saved.id)}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
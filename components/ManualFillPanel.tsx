@@ -0,0 +1,70 @@
+import React from 'react';
+import { GenerationMode, PlaceholderKey, PlaceholderValues } from '../types';
+import { PLACEHOLDER_TOKENS } from '../utils/templateCatalog';
+import { useI18n } from '../i18n';
+
+interface ManualFillPanelProps {
+  mode: GenerationMode;
+  usedPlaceholders: { key: PlaceholderKey; count: number }[];
+  values: PlaceholderValues;
+  defaults: PlaceholderValues; // Shown as hints; blank fields are filled with them
+  onModeChange: (mode: GenerationMode) => void;
+  onChange: (values: PlaceholderValues) => void;
+}
+
+const GENERATION_MODES: GenerationMode[] = ['ai', 'manual'];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+    active
+      ? 'bg-brand-black text-white border-brand-black'
+      : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+  }`;
+
+const ManualFillPanel: React.FC<ManualFillPanelProps> = ({ mode, usedPlaceholders, values, defaults, onModeChange, onChange }) => {
+  const { language, t } = useI18n();
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-200 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('manual.title')}</h3>
+        <div className="flex flex-wrap gap-2">
+          {GENERATION_MODES.map((value) => (
+            <button key={value} onClick={() => onModeChange(value)} className={chipClass(mode === value)}>
+              {t(`manual.mode.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'manual' && (
+        <>
+          <p className="text-xs text-gray-500">
+            {t('manual.intro')}
+            {language !== 'es' && ` ${t('manual.agreementSpanishOnly')}`}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {usedPlaceholders.map(({ key, count }) => (
+              <label key={key} className="block">
+                <span className="flex justify-between text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">
+                  <span>{PLACEHOLDER_TOKENS[language][key]}</span>
+                  <span>{t('manual.usage', { count })}</span>
+                </span>
+                <input
+                  type="text"
+                  value={values[key] ?? ''}
+                  onChange={(e) => onChange({ ...values, [key]: e.target.value })}
+                  placeholder={defaults[key]}
+                  className="w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold placeholder-gray-300"
+                />
+              </label>
+            ))}
+          </div>
+          {usedPlaceholders.length === 0 && <p className="text-xs text-gray-400">{t('manual.noPlaceholders')}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ManualFillPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { FormData, NicheContextKey, NicheInsights } from '../types';
+import { NICHE_CONTEXT_KEYS } from '../constants';
+import { PLACEHOLDER_TOKENS } from '../utils/templateCatalog';
+import { useI18n } from '../i18n';
+
+interface NicheAssistPanelProps {
+  formData: FormData;
+  // Last suggestions and the niche they were asked for, which the input may no longer show
+  insights: { niche: string; insights: NicheInsights } | null;
+  loading: boolean;
+  onSuggest: () => void;
+  onChange: (changes: Partial<FormData>) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border transition-colors text-left ${
+    active
+      ? 'bg-brand-black text-white border-brand-black'
+      : 'bg-white text-gray-600 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+  }`;
+
+const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2';
+
+const NicheAssistPanel: React.FC<NicheAssistPanelProps> = ({ formData, insights, loading, onSuggest, onChange }) => {
+  const { language, t } = useI18n();
+  const context = formData.context ?? {};
+  const acceptedKeys = NICHE_CONTEXT_KEYS.filter(key => context[key]);
+
+  // Picking the accepted value again un-accepts it
+  const toggleContext = (key: NicheContextKey, value: string) => {
+    const { [key]: current, ...rest } = context;
+    onChange({ context: current === value ? rest : { ...rest, [key]: value } });
+  };
+
+  const removeContext = (key: NicheContextKey) => {
+    const { [key]: _removed, ...rest } = context;
+    onChange({ context: rest });
+  };
+
+  const renderGroup = (label: string, values: string[], isActive: (value: string) => boolean, onPick: (value: string) => void) =>
+    values.length > 0 && (
+      <div>
+        <p className={labelClass}>{label}</p>
+        <div className="flex flex-wrap gap-2">
+          {values.map((value) => (
+            <button key={value} onClick={() => onPick(value)} className={chipClass(isActive(value))}>
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-200 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('insights.title')}</h3>
+        <button
+          onClick={onSuggest}
+          disabled={loading || !formData.niche.trim()}
+          className="px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50"
+        >
+          {loading ? t('insights.loading') : insights ? t('insights.suggestAgain') : t('insights.suggest')}
+        </button>
+      </div>
+
+      {insights ? (
+        <>
+          <p className="text-xs text-gray-500">
+            <span className="font-semibold">{t('insights.for', { niche: insights.niche })}</span> {t('insights.hint')}
+          </p>
+          {renderGroup(t('insights.topics'), insights.insights.topics, value => formData.topic === value, topic => onChange({ topic }))}
+          {renderGroup(t('insights.audiences'), insights.insights.audiences, value => formData.audience === value, audience => onChange({ audience }))}
+          {NICHE_CONTEXT_KEYS.map((key) => (
+            <React.Fragment key={key}>
+              {renderGroup(
+                PLACEHOLDER_TOKENS[language][key],
+                insights.insights.context[key],
+                value => context[key] === value,
+                value => toggleContext(key, value)
+              )}
+            </React.Fragment>
+          ))}
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">{t('insights.intro')}</p>
+      )}
+
+      {acceptedKeys.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded p-4">
+          <p className={labelClass}>{t('insights.accepted')}</p>
+          <ul className="space-y-1">
+            {acceptedKeys.map((key) => (
+              <li key={key} className="flex justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-mono text-[11px] text-gray-400">{PLACEHOLDER_TOKENS[language][key]}</span> {context[key]}
+                </span>
+                <button onClick={() => removeContext(key)} className="text-xs underline text-gray-400 hover:text-brand-red">
+                  {t('insights.remove')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NicheAssistPanel;
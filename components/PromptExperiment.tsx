@@ -0,0 +1,229 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ExperimentArm, ExperimentRow, FormData, PromptLibrary, TemplateFilters, VoiceBrief } from '../types';
+import { BATCH_SIZE } from '../constants';
+import { ApiRequestError, streamAdaptedHooks } from '../services/api';
+import { scoreHooks } from '../utils/hookScoring';
+import { getLocalizedTemplate, getTemplateById, getTemplateCatalog } from '../utils/templateCatalog';
+import { selectTemplates } from '../utils/templateSelection';
+import { getQuotaMessage } from '../utils/usageFormat';
+import { getLanguage } from '../i18n/locales';
+import { useI18n } from '../i18n';
+
+interface PromptExperimentProps {
+  library: PromptLibrary;
+  // The generator's settings; both versions adapt the same templates with them
+  formData: FormData;
+  filters: TemplateFilters;
+  voice?: VoiceBrief;
+  onPromote: (version: number) => void;
+  onSessionExpired: () => void;
+}
+
+const ARMS: ExperimentArm[] = ['a', 'b'];
+
+const buttonClass =
+  'px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50';
+
+const pickClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full text-[11px] font-bold uppercase border transition-colors ${
+    active ? 'bg-brand-black text-white border-brand-black' : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+  }`;
+
+const PromptExperiment: React.FC<PromptExperimentProps> = ({ library, formData, filters, voice, onPromote, onSessionExpired }) => {
+  const versions = library.versions.map(prompt => prompt.version);
+  const [selected, setSelected] = useState<Record<ExperimentArm, number>>(() => ({
+    a: library.activeVersion,
+    b: versions.find(version => version !== library.activeVersion) ?? library.activeVersion,
+  }));
+  // Versions of the run on screen, which may differ from the selects once they change
+  const [ranWith, setRanWith] = useState<Record<ExperimentArm, number> | null>(null);
+  const [rows, setRows] = useState<ExperimentRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { locale, intlTag, t } = useI18n();
+
+  const run = async () => {
+    if (!formData.niche || !formData.topic) {
+      setError(t('generator.error.missingFields'));
+      return;
+    }
+    const language = getLanguage(locale);
+    const templates = selectTemplates(getTemplateCatalog(), filters)
+      .slice(0, BATCH_SIZE)
+      .map(template => ({ id: template.id, template: getLocalizedTemplate(template, language).template }));
+    if (templates.length === 0) {
+      setError(t('generator.error.noTemplates'));
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const arms = { ...selected };
+    setRanWith(arms);
+    setRows(templates.map(template => ({ templateId: template.id, template: template.template, hooks: {}, winner: null })));
+    setError(null);
+    setRunning(true);
+
+    const runArm = (arm: ExperimentArm) =>
+      streamAdaptedHooks(
+        { formData, templates, locale, voice, promptVersion: arms[arm] },
+        (hook) => setRows(prev => prev.map(row =>
+          row.templateId === hook.templateId ? { ...row, hooks: { ...row.hooks, [arm]: hook.text } } : row
+        )),
+        controller.signal,
+      );
+
+    // One arm failing still leaves the other one's hooks on screen
+    const results = await Promise.allSettled(ARMS.map(runArm));
+    setRunning(false);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')?.reason;
+    if (!failure || failure?.name === 'AbortError') return;
+    if (failure instanceof ApiRequestError && failure.status === 401) {
+      onSessionExpired();
+      return;
+    }
+    setError(
+      (failure instanceof ApiRequestError && getQuotaMessage(failure.code, failure.retryAfterSeconds, t, intlTag)) ||
+      t('generator.error.generic')
+    );
+  };
+
+  const pickWinner = (templateId: number, winner: ExperimentRow['winner']) =>
+    setRows(prev => prev.map(row => (row.templateId === templateId ? { ...row, winner: row.winner === winner ? null : winner } : row)));
+
+  // --- SUMMARY ---
+
+  const averageScores = useMemo(() => {
+    const average = (arm: ExperimentArm) => {
+      const hooks = rows.flatMap((row, index) =>
+        row.hooks[arm] ? [{ id: index, originalTemplateId: row.templateId, text: row.hooks[arm]! }] : []
+      );
+      if (hooks.length === 0) return null;
+      const scores = scoreHooks(hooks, { formData, language: getLanguage(locale), getTemplate: getTemplateById });
+      return Math.round(hooks.reduce((sum, hook) => sum + (scores.get(hook.id)?.total ?? 0), 0) / hooks.length);
+    };
+    return { a: average('a'), b: average('b') };
+  }, [rows, formData, locale]);
+
+  const wins = {
+    a: rows.filter(row => row.winner === 'a').length,
+    b: rows.filter(row => row.winner === 'b').length,
+    ties: rows.filter(row => row.winner === 'tie').length,
+  };
+  // Reviewer picks decide; the local score only breaks a draw
+  const leader: ExperimentArm | null =
+    wins.a !== wins.b ? (wins.a > wins.b ? 'a' : 'b')
+    : (averageScores.a ?? 0) !== (averageScores.b ?? 0) ? ((averageScores.a ?? 0) > (averageScores.b ?? 0) ? 'a' : 'b')
+    : null;
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">{t('prompts.ab.title')}</h3>
+        <p className="text-xs text-gray-500">{t('prompts.ab.intro', { count: BATCH_SIZE })}</p>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        {ARMS.map((arm) => (
+          <label key={arm} className="block">
+            <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">
+              {t(arm === 'a' ? 'prompts.ab.versionA' : 'prompts.ab.versionB')}
+            </span>
+            <select
+              value={selected[arm]}
+              onChange={(e) => setSelected({ ...selected, [arm]: Number(e.target.value) })}
+              className="bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold"
+            >
+              {versions.map((version) => (
+                <option key={version} value={version}>
+                  {t('prompts.version', { version })}
+                  {version === library.activeVersion ? ` · ${t('prompts.active')}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {running ? (
+          <button onClick={() => controllerRef.current?.abort()} className={buttonClass}>
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button onClick={run} disabled={selected.a === selected.b} className={buttonClass}>
+            {t('prompts.ab.run')}
+          </button>
+        )}
+      </div>
+      {selected.a === selected.b && <p className="text-xs text-gray-400">{t('prompts.ab.sameVersion')}</p>}
+      {error && <p className="text-xs text-brand-red font-semibold">{error}</p>}
+
+      {ranWith && rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left align-top">
+              <thead>
+                <tr className="text-gray-400 uppercase tracking-wider border-b border-gray-200">
+                  <th className="py-2 pr-4 w-1/4">{t('prompts.ab.template')}</th>
+                  <th className="py-2 pr-4">A · {t('prompts.version', { version: ranWith.a })}</th>
+                  <th className="py-2 pr-4">B · {t('prompts.version', { version: ranWith.b })}</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.templateId} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4 text-gray-400">{row.template}</td>
+                    {ARMS.map((arm) => (
+                      <td
+                        key={arm}
+                        className={`py-3 pr-4 ${row.winner === arm ? 'font-semibold text-brand-black' : 'text-gray-700'}`}
+                      >
+                        {row.hooks[arm] ?? (running ? '…' : '—')}
+                      </td>
+                    ))}
+                    <td className="py-3 whitespace-nowrap space-x-1">
+                      <button onClick={() => pickWinner(row.templateId, 'a')} disabled={!row.hooks.a} className={pickClass(row.winner === 'a')}>A</button>
+                      <button onClick={() => pickWinner(row.templateId, 'tie')} className={pickClass(row.winner === 'tie')}>=</button>
+                      <button onClick={() => pickWinner(row.templateId, 'b')} disabled={!row.hooks.b} className={pickClass(row.winner === 'b')}>B</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-brand-gray p-6 rounded-xl border border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="text-xs text-gray-500 space-y-1">
+              <p>{t('prompts.ab.wins', { a: wins.a, b: wins.b, ties: wins.ties })}</p>
+              <p>{t('prompts.ab.score', { a: averageScores.a ?? '—', b: averageScores.b ?? '—' })}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {ARMS.map((arm) =>
+                ranWith[arm] === library.activeVersion ? (
+                  <span key={arm} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-green-700">
+                    {t('prompts.version', { version: ranWith[arm] })} · {t('prompts.active')}
+                  </span>
+                ) : (
+                  <button
+                    key={arm}
+                    onClick={() => onPromote(ranWith[arm])}
+                    disabled={running}
+                    className={
+                      leader === arm
+                        ? 'px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider bg-brand-black text-white hover:bg-gray-800 disabled:opacity-50'
+                        : buttonClass
+                    }
+                  >
+                    {t('prompts.ab.promote', { version: ranWith[arm] })}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PromptExperiment;
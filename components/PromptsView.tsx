@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FormData, PromptLibrary, PromptProblem, PromptVersion, TemplateFilters, VoiceBrief } from '../types';
+import { activatePromptVersion, fetchPromptLibrary, savePromptVersion } from '../services/api';
+import { MAX_PROMPT_LENGTH, PROMPT_VARIABLES, getPromptProblems, hasVariable } from '../utils/promptTemplate';
+import { MessageKey, useI18n } from '../i18n';
+import PromptExperiment from './PromptExperiment';
+
+interface PromptsViewProps {
+  formData: FormData;
+  filters: TemplateFilters;
+  voice?: VoiceBrief;
+  onSessionExpired: () => void;
+}
+
+interface ExtraVariableDraft {
+  name: string;
+  value: string;
+}
+
+const inputClass =
+  'w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold placeholder-gray-300';
+
+const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1';
+
+const chipClass =
+  'px-2 py-0.5 rounded-full text-[11px] font-mono border border-gray-300 bg-white text-gray-500 hover:border-brand-gold hover:text-brand-gold transition-colors';
+
+const PROBLEM_KEYS: Record<PromptProblem['code'], MessageKey> = {
+  EMPTY: 'prompts.problem.empty',
+  TOO_LONG: 'prompts.problem.tooLong',
+  MISSING_TEMPLATES: 'prompts.problem.missingTemplates',
+  UNKNOWN_VARIABLE: 'prompts.problem.unknownVariable',
+  INVALID_VARIABLE_NAME: 'prompts.problem.invalidVariableName',
+};
+
+const toDrafts = (extraVariables: Record<string, string>): ExtraVariableDraft[] =>
+  Object.entries(extraVariables).map(([name, value]) => ({ name, value }));
+
+// Rows left without a name are dropped rather than reported
+const fromDrafts = (drafts: ExtraVariableDraft[]) =>
+  Object.fromEntries(drafts.filter(draft => draft.name.trim()).map(draft => [draft.name.trim(), draft.value]));
+
+const PromptsView: React.FC<PromptsViewProps> = ({ formData, filters, voice, onSessionExpired }) => {
+  const [library, setLibrary] = useState<PromptLibrary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  // The editor always holds a copy of one version; saving adds a new one
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [body, setBody] = useState('');
+  const [extras, setExtras] = useState<ExtraVariableDraft[]>([]);
+  const [note, setNote] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { intlTag, t } = useI18n();
+
+  const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString(intlTag) : '—');
+
+  const editCopy = (prompt: PromptVersion) => {
+    setBaseVersion(prompt.version);
+    setBody(prompt.body);
+    setExtras(toDrafts(prompt.extraVariables));
+    setNote('');
+  };
+
+  useEffect(() => {
+    fetchPromptLibrary()
+      .then((loaded) => {
+        setLibrary(loaded);
+        editCopy(loaded.versions.find(prompt => prompt.version === loaded.activeVersion) ?? loaded.versions[0]);
+      })
+      .catch((err) => {
+        console.error("Prompts Error:", err);
+        setError(t('prompts.error.load'));
+      });
+  }, []);
+
+  const extraVariables = fromDrafts(extras);
+  const problems = getPromptProblems(body, extraVariables);
+  const nextVersion = library ? Math.max(...library.versions.map(prompt => prompt.version)) + 1 : 0;
+
+  // Inserts at the cursor (or over the selection) and leaves the cursor right after the variable
+  const insertVariable = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const updateExtra = (index: number, changes: Partial<ExtraVariableDraft>) =>
+    setExtras(prev => prev.map((extra, i) => (i === index ? { ...extra, ...changes } : extra)));
+
+  const handleSave = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const saved = await savePromptVersion({ body, extraVariables, note: note.trim() });
+      setLibrary(await fetchPromptLibrary());
+      setBaseVersion(saved.version);
+      setNote('');
+      setMessage(t('prompts.saved', { version: saved.version }));
+      setError(null);
+    } catch (err) {
+      console.error("Prompts Error:", err);
+      setError(t('prompts.error.save'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = async (version: number) => {
+    setBusy(true);
+    try {
+      setLibrary(await activatePromptVersion(version));
+      setMessage(t('prompts.activated', { version }));
+      setError(null);
+    } catch (err) {
+      console.error("Prompts Error:", err);
+      setError(t('prompts.error.activate'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!library) {
+    return <p className="text-center text-sm text-gray-400 py-20">{error || t('prompts.loading')}</p>;
+  }
+
+  return (
+    <div className="space-y-12">
+      <div>
+        <h2 className="text-2xl font-serif text-brand-black mb-2">{t('prompts.title')}</h2>
+        <p className="text-sm text-gray-500">{t('prompts.intro')}</p>
+      </div>
+
+      {error && <p className="text-sm text-brand-red font-semibold">{error}</p>}
+      {message && <p className="text-sm text-green-700 font-semibold">{message}</p>}
+
+      {/* --- VERSIONS --- */}
+      <section>
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">
+          {t('prompts.versions.title', { count: library.versions.length })}
+        </h3>
+        <ul className="divide-y divide-gray-100 border-y border-gray-100">
+          {library.versions.map((prompt) => (
+            <li key={prompt.version} className="py-3 space-y-2">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div className="text-sm">
+                  <span className="font-bold">{t('prompts.version', { version: prompt.version })}</span>
+                  {prompt.version === library.activeVersion && (
+                    <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-green-700">{t('prompts.active')}</span>
+                  )}
+                  <span className="ml-2 text-gray-500">{prompt.createdBy ? prompt.note : t('prompts.builtin')}</span>
+                  {prompt.createdBy && (
+                    <span className="block text-[11px] text-gray-400">{prompt.createdBy} · {formatDate(prompt.createdAt)}</span>
+                  )}
+                </div>
+                <div className="flex gap-3 text-xs whitespace-nowrap">
+                  <button onClick={() => editCopy(prompt)} className="underline text-gray-400 hover:text-brand-gold">
+                    {t('prompts.fork')}
+                  </button>
+                  {prompt.version !== library.activeVersion && (
+                    <button
+                      onClick={() => handleActivate(prompt.version)}
+                      disabled={busy}
+                      className="underline text-gray-400 hover:text-brand-gold disabled:opacity-50"
+                    >
+                      {t('prompts.activate')}
+                    </button>
+                  )}
+                </div>
+              </div>
+              <details>
+                <summary className="text-[11px] text-gray-400 cursor-pointer">{t('prompts.showBody')}</summary>
+                <pre className="mt-2 bg-brand-gray rounded p-3 text-[11px] whitespace-pre-wrap text-gray-600">{prompt.body}</pre>
+              </details>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {/* --- EDITOR --- */}
+      <section className="bg-brand-gray p-6 rounded-xl border border-gray-100 space-y-4">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+          {t('prompts.editor.title', { version: baseVersion ?? '—' })}
+        </h3>
+
+        <div>
+          <p className={labelClass}>{t('prompts.editor.insert')}</p>
+          <div className="flex flex-wrap gap-1">
+            {[...PROMPT_VARIABLES, ...Object.keys(extraVariables)].map((name) => (
+              <button
+                key={name}
+                onClick={() => insertVariable(name)}
+                title={hasVariable(extraVariables, name) ? extraVariables[name] : t(`prompts.variable.${name}` as MessageKey)}
+                className={chipClass}
+              >
+                {`{{${name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>{t('prompts.editor.body')}</label>
+          <textarea
+            ref={textareaRef}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={16}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          <p className={`mt-1 text-[10px] ${body.length > MAX_PROMPT_LENGTH ? 'text-brand-red font-bold' : 'text-gray-400'}`}>
+            {t('prompts.editor.length', { count: body.length, max: MAX_PROMPT_LENGTH })}
+          </p>
+        </div>
+
+        <div>
+          <p className={labelClass}>{t('prompts.editor.extras')}</p>
+          <p className="text-xs text-gray-500 mb-2">{t('prompts.editor.extrasHint')}</p>
+          <div className="space-y-2">
+            {extras.map((extra, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={extra.name}
+                  onChange={(e) => updateExtra(index, { name: e.target.value })}
+                  placeholder={t('prompts.editor.extraName')}
+                  className={`${inputClass} font-mono md:w-1/3`}
+                />
+                <input
+                  type="text"
+                  value={extra.value}
+                  onChange={(e) => updateExtra(index, { value: e.target.value })}
+                  placeholder={t('prompts.editor.extraValue')}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setExtras(prev => prev.filter((_, i) => i !== index))}
+                  className="text-xs text-gray-400 hover:text-brand-red underline"
+                >
+                  {t('common.delete')}
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setExtras([...extras, { name: '', value: '' }])}
+            className="mt-2 text-xs text-gray-400 hover:text-brand-gold underline"
+          >
+            {t('prompts.editor.addExtra')}
+          </button>
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="space-y-1">
+            {problems.map((problem, index) => (
+              <li key={index} className="text-xs font-semibold text-brand-red">
+                {t(PROBLEM_KEYS[problem.code], {
+                  ...('name' in problem && { name: problem.name }),
+                  ...('max' in problem && { max: problem.max }),
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div>
+          <label className={labelClass}>{t('prompts.editor.note')}</label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('prompts.editor.notePlaceholder')}
+            maxLength={200}
+            className={inputClass}
+          />
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={busy || problems.length > 0}
+          className="bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+        >
+          {t('prompts.editor.save', { version: nextVersion })}
+        </button>
+      </section>
+
+      {/* --- A/B --- */}
+      {library.versions.length > 1 && (
+        <PromptExperiment
+          library={library}
+          formData={formData}
+          filters={filters}
+          voice={voice}
+          onPromote={handleActivate}
+          onSessionExpired={onSessionExpired}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PromptsView;
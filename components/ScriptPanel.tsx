@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { HookScript } from '../types';
+import { getBeatLabel, getScriptTimeline, scriptToText } from '../utils/scriptFormat';
+import { useI18n } from '../i18n';
+
+interface ScriptPanelProps {
+  script: HookScript;
+  onDelete?: () => void;
+}
+
+const ScriptPanel: React.FC<ScriptPanelProps> = ({ script, onDelete }) => {
+  const [copied, setCopied] = useState(false);
+  const { t } = useI18n();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(scriptToText(script, t));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          {t('script.title', { seconds: script.duration })}
+        </p>
+        <div className="flex gap-3 text-xs">
+          <button onClick={handleCopy} className="underline text-gray-400 hover:text-brand-gold">
+            {copied ? t('common.copied') : t('script.copy')}
+          </button>
+          {onDelete && (
+            <button onClick={onDelete} className="underline text-gray-400 hover:text-brand-red">
+              {t('common.delete')}
+            </button>
+          )}
+        </div>
+      </div>
+      <ol className="space-y-2">
+        {getScriptTimeline(script).map((timed, index) => (
+          <li key={index} className="bg-brand-gray rounded p-3 flex gap-3">
+            <span className="text-[10px] font-bold text-brand-gold uppercase tracking-widest w-20 shrink-0">
+              {timed.start}-{timed.end}s
+              <span className="block text-gray-400">{getBeatLabel(timed, index, t)}</span>
+            </span>
+            <div className="space-y-1">
+              <p className="text-sm text-brand-black leading-snug">{timed.beat.say}</p>
+              {timed.beat.onScreenText && (
+                <p className="text-[11px] text-gray-500">
+                  <span className="font-bold uppercase tracking-widest text-gray-400">{t('script.onScreen')}:</span> {timed.beat.onScreenText}
+                </p>
+              )}
+              {timed.beat.bRoll && (
+                <p className="text-[11px] text-gray-500">
+                  <span className="font-bold uppercase tracking-widest text-gray-400">{t('script.bRoll')}:</span> {timed.beat.bRoll}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ScriptPanel;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { HOOK_CATEGORIES, HOOK_LENGTHS, HOOK_TRIGGERS } from '../constants';
+import { TemplateFilters, TemplateSource } from '../types';
+import { useI18n } from '../i18n';
+
+interface TemplateFilterPanelProps {
+  filters: TemplateFilters;
+  matchingCount: number;
+  hasCustomTemplates: boolean;
+  onChange: (filters: TemplateFilters) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${
+    active
+      ? 'bg-brand-black text-white border-brand-black'
+      : 'bg-white text-gray-500 border-gray-300 hover:border-brand-gold hover:text-brand-gold'
+  }`;
+
+const TEMPLATE_SOURCES: TemplateSource[] = ['all', 'builtin', 'custom'];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const TemplateFilterPanel: React.FC<TemplateFilterPanelProps> = ({ filters, matchingCount, hasCustomTemplates, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-200 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+          {t('filters.title')}
+        </h3>
+        <span className={`text-xs font-semibold ${matchingCount === 0 ? 'text-brand-red' : 'text-brand-gold'}`}>
+          {t('filters.available', { count: matchingCount })}
+        </span>
+      </div>
+
+      {/* Only worth showing once the user has written templates of their own */}
+      {(hasCustomTemplates || (filters.source ?? 'all') !== 'all') && (
+        <div>
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">{t('filters.source')}</p>
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATE_SOURCES.map((source) => (
+              <button
+                key={source}
+                onClick={() => onChange({ ...filters, source })}
+                className={chipClass((filters.source ?? 'all') === source)}
+              >
+                {t(`filters.source.${source}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">{t('filters.categories')}</p>
+        <div className="flex flex-wrap gap-2">
+          {HOOK_CATEGORIES.map((category) => (
+            <button
+              key={category}
+              onClick={() => onChange({ ...filters, categories: toggle(filters.categories, category) })}
+              className={chipClass(filters.categories.includes(category))}
+            >
+              {t(`category.${category}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">{t('filters.triggers')}</p>
+        <div className="flex flex-wrap gap-2">
+          {HOOK_TRIGGERS.map((trigger) => (
+            <button
+              key={trigger}
+              onClick={() => onChange({ ...filters, triggers: toggle(filters.triggers, trigger) })}
+              className={chipClass(filters.triggers.includes(trigger))}
+            >
+              {t(`trigger.${trigger}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-6">
+        <div>
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">{t('filters.length')}</p>
+          <div className="flex flex-wrap gap-2">
+            {HOOK_LENGTHS.map((length) => (
+              <button
+                key={length}
+                onClick={() => onChange({ ...filters, length })}
+                className={chipClass(filters.length === length)}
+              >
+                {t(`length.${length}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.shuffle}
+            onChange={(e) => onChange({ ...filters, shuffle: e.target.checked })}
+            className="accent-brand-gold"
+          />
+          {t('filters.shuffle')}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateFilterPanel;
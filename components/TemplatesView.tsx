@@ -0,0 +1,333 @@
+import React, { useRef, useState } from 'react';
+import { CustomTemplate, HookCategory, HookTrigger, PlaceholderKey } from '../types';
+import { HOOK_CATEGORIES, HOOK_TRIGGERS, MAX_CUSTOM_TEMPLATE_LENGTH } from '../constants';
+import {
+  canSaveTemplate,
+  createCustomTemplate,
+  parseTemplateImport,
+  toShareFile,
+} from '../services/customTemplates';
+import { PLACEHOLDER_TOKENS, getPlaceholderKey, getTemplateById, getTemplateProblems } from '../utils/templateCatalog';
+import { downloadExport } from '../utils/hookExport';
+import { useI18n } from '../i18n';
+
+interface TemplatesViewProps {
+  templates: CustomTemplate[];
+  onSave: (template: CustomTemplate) => void;
+  onDelete: (id: number) => void;
+  onImport: (templates: CustomTemplate[]) => void;
+}
+
+const inputClass =
+  'w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold placeholder-gray-300';
+
+const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1';
+
+const buttonClass =
+  'px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors disabled:opacity-50';
+
+// Slots the catalog recognises in gold, unknown ones in red, everything else as plain text.
+const HighlightedTemplate: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(\[[^\]]*\])/g).map((part, index) =>
+      part.startsWith('[') && part.endsWith(']') ? (
+        <span
+          key={index}
+          className={`px-1 rounded font-semibold ${
+            getPlaceholderKey(part.slice(1, -1)) ? 'bg-yellow-50 text-brand-gold' : 'bg-red-50 text-brand-red'
+          }`}
+        >
+          {part}
+        </span>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+interface TemplateEditorProps {
+  template: CustomTemplate;
+  onSave: (template: CustomTemplate) => void;
+  onCancel: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onCancel }) => {
+  const [text, setText] = useState(template.template);
+  const [category, setCategory] = useState<HookCategory | null>(template.category);
+  const [trigger, setTrigger] = useState<HookTrigger | null>(template.trigger);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { language, t } = useI18n();
+
+  const problems = text.trim() ? getTemplateProblems(text) : [];
+  const tooLong = text.length > MAX_CUSTOM_TEMPLATE_LENGTH;
+
+  // Inserts at the cursor (or over the selection) and leaves the cursor right after the slot
+  const insertPlaceholder = (key: PlaceholderKey) => {
+    const token = PLACEHOLDER_TOKENS[language][key];
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? text.length;
+    const end = textarea?.selectionEnd ?? text.length;
+    setText(text.slice(0, start) + token + text.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = () => {
+    onSave({ ...template, template: text.trim(), category, trigger, updatedAt: new Date().toISOString() });
+  };
+
+  return (
+    <div className="bg-brand-gray p-6 rounded-xl border border-gray-100 space-y-4">
+      <div>
+        <label className={labelClass}>{t('templates.text')}</label>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('templates.textPlaceholder')}
+          rows={3}
+          className={inputClass}
+        />
+        <p className={`mt-1 text-[10px] ${tooLong ? 'text-brand-red font-bold' : 'text-gray-400'}`}>
+          {t('templates.length', { count: text.length, max: MAX_CUSTOM_TEMPLATE_LENGTH })}
+        </p>
+      </div>
+
+      <div>
+        <p className={labelClass}>{t('templates.insert')}</p>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(PLACEHOLDER_TOKENS[language]) as PlaceholderKey[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => insertPlaceholder(key)}
+              className="px-2 py-0.5 rounded-full text-[11px] border border-gray-300 bg-white text-gray-500 hover:border-brand-gold hover:text-brand-gold transition-colors"
+            >
+              {PLACEHOLDER_TOKENS[language][key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {text.trim() && (
+        <div>
+          <p className={labelClass}>{t('templates.preview')}</p>
+          <p className="bg-white border border-gray-200 rounded p-3 text-sm text-brand-black leading-relaxed">
+            <HighlightedTemplate text={text} />
+          </p>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="space-y-1">
+          {problems.map((problem) => (
+            <li
+              key={problem.code === 'UNKNOWN_PLACEHOLDER' ? problem.token : problem.code}
+              className={`text-xs font-semibold ${problem.code === 'UNKNOWN_PLACEHOLDER' ? 'text-brand-gold' : 'text-brand-red'}`}
+            >
+              {problem.code === 'UNKNOWN_PLACEHOLDER'
+                ? t('templates.problem.unknownPlaceholder', { token: problem.token })
+                : t(problem.code === 'UNBALANCED_BRACKETS' ? 'templates.problem.unbalanced' : 'templates.problem.emptyPlaceholder')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>{t('templates.category')}</label>
+          <select
+            value={category ?? ''}
+            onChange={(e) => setCategory((e.target.value as HookCategory) || null)}
+            className={inputClass}
+          >
+            <option value="">{t('templates.automatic')}</option>
+            {HOOK_CATEGORIES.map((value) => (
+              <option key={value} value={value}>{t(`category.${value}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('templates.trigger')}</label>
+          <select
+            value={trigger ?? ''}
+            onChange={(e) => setTrigger((e.target.value as HookTrigger) || null)}
+            className={inputClass}
+          >
+            <option value="">{t('templates.automatic')}</option>
+            {HOOK_TRIGGERS.map((value) => (
+              <option key={value} value={value}>{t(`trigger.${value}`)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!text.trim() || !canSaveTemplate(text.trim())}
+          className="bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+        >
+          {t('templates.save')}
+        </button>
+        <button onClick={onCancel} className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TemplatesView: React.FC<TemplatesViewProps> = ({ templates, onSave, onDelete, onImport }) => {
+  const [editing, setEditing] = useState<CustomTemplate | null>(null);
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const { intlTag, t } = useI18n();
+
+  const handleSave = (template: CustomTemplate) => {
+    onSave(template);
+    setEditing(null);
+  };
+
+  const runImport = (text: string) => {
+    try {
+      const result = parseTemplateImport(text, templates);
+      onImport(result.templates);
+      setImportMessage(t('templates.imported', { count: result.templates.length, skipped: result.skipped }));
+      if (result.templates.length > 0) {
+        setImportText('');
+        setShowImport(false);
+      }
+    } catch {
+      setImportMessage(t('templates.importInvalid'));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) runImport(await file.text());
+  };
+
+  const handleShare = (template: CustomTemplate) => {
+    navigator.clipboard.writeText(JSON.stringify(toShareFile([template]), null, 2));
+    setCopiedId(template.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('templates.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">{t('templates.intro')}</p>
+        <div className="flex flex-wrap gap-2 shrink-0">
+          {!editing && (
+            <button onClick={() => setEditing(createCustomTemplate(templates))} className={buttonClass}>
+              {t('templates.new')}
+            </button>
+          )}
+          <button onClick={() => setShowImport(!showImport)} className={buttonClass}>
+            {t('templates.import')}
+          </button>
+          <button
+            onClick={() => downloadExport('hook-templates', 'json', JSON.stringify(toShareFile(templates), null, 2))}
+            disabled={templates.length === 0}
+            className={buttonClass}
+          >
+            {t('templates.exportAll')}
+          </button>
+        </div>
+      </div>
+
+      {showImport && (
+        <div className="bg-brand-gray p-4 rounded-xl border border-gray-100 space-y-3">
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder={t('templates.importPlaceholder')}
+            rows={4}
+            className={`${inputClass} font-mono`}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={() => runImport(importText)} disabled={!importText.trim()} className={buttonClass}>
+              {t('templates.importPasted')}
+            </button>
+            <label className={`${buttonClass} cursor-pointer`}>
+              {t('templates.importFile')}
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {importMessage && <p className="text-xs font-semibold text-brand-gold">{importMessage}</p>}
+
+      {editing && !templates.some(template => template.id === editing.id) && (
+        <TemplateEditor template={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      )}
+
+      {templates.length === 0 && !editing && (
+        <p className="text-center text-sm text-gray-400 py-12">{t('templates.empty')}</p>
+      )}
+
+      <div className="grid gap-4">
+        {templates.map((template) => {
+          // The registered version carries the automatic category and trigger
+          const resolved = getTemplateById(template.id);
+          return editing?.id === template.id ? (
+            <TemplateEditor key={template.id} template={template} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <div key={template.id} className="bg-white border-l-4 border-brand-gold shadow-sm p-6 rounded-r-lg">
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div>
+                  <p className="text-lg font-medium text-brand-black leading-snug">
+                    <HighlightedTemplate text={template.template} />
+                  </p>
+                  <p className="mt-2 text-[10px] text-gray-400 uppercase tracking-widest">
+                    {[
+                      t('hook.formula', { id: template.id }),
+                      resolved && t(`category.${resolved.category}`),
+                      resolved && t(`trigger.${resolved.trigger}`),
+                      new Date(template.updatedAt).toLocaleDateString(intlTag),
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex gap-3 shrink-0">
+                  <button
+                    onClick={() => setEditing(template)}
+                    className="text-xs text-brand-gold hover:text-brand-black uppercase tracking-widest underline"
+                  >
+                    {t('templates.edit')}
+                  </button>
+                  <button
+                    onClick={() => handleShare(template)}
+                    className="text-xs text-brand-gold hover:text-brand-black uppercase tracking-widest underline"
+                  >
+                    {copiedId === template.id ? t('common.copied') : t('templates.share')}
+                  </button>
+                  <button
+                    onClick={() => onDelete(template.id)}
+                    className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesView;
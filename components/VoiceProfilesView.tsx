@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { VoiceProfile } from '../types';
+import { createVoiceProfile, parseVoiceList } from '../services/voiceProfiles';
+import { MessageKey, useI18n } from '../i18n';
+
+// Without onSave/onDelete the profiles can only be read (workspace viewers)
+interface VoiceProfilesViewProps {
+  profiles: VoiceProfile[];
+  onSave?: (profile: VoiceProfile) => void;
+  onDelete?: (id: string) => void;
+}
+
+type VoiceListField = 'dos' | 'donts' | 'forbiddenWords' | 'exampleHooks';
+
+const LIST_FIELDS: { field: VoiceListField; labelKey: MessageKey; placeholderKey: MessageKey }[] = [
+  { field: 'dos', labelKey: 'voices.dos', placeholderKey: 'voices.dosPlaceholder' },
+  { field: 'donts', labelKey: 'voices.donts', placeholderKey: 'voices.dontsPlaceholder' },
+  { field: 'forbiddenWords', labelKey: 'voices.forbiddenWords', placeholderKey: 'voices.forbiddenWordsPlaceholder' },
+  { field: 'exampleHooks', labelKey: 'voices.exampleHooks', placeholderKey: 'voices.exampleHooksPlaceholder' },
+];
+
+const inputClass =
+  'w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold placeholder-gray-300';
+
+const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1';
+
+interface VoiceProfileEditorProps {
+  profile: VoiceProfile;
+  onSave: (profile: VoiceProfile) => void;
+  onCancel: () => void;
+}
+
+// Lists are edited as plain text, one entry per line, and only parsed on save.
+const VoiceProfileEditor: React.FC<VoiceProfileEditorProps> = ({ profile, onSave, onCancel }) => {
+  const [name, setName] = useState(profile.name);
+  const [description, setDescription] = useState(profile.description);
+  const [lists, setLists] = useState<Record<VoiceListField, string>>({
+    dos: profile.dos.join('\n'),
+    donts: profile.donts.join('\n'),
+    forbiddenWords: profile.forbiddenWords.join('\n'),
+    exampleHooks: profile.exampleHooks.join('\n'),
+  });
+  const { t } = useI18n();
+
+  const handleSave = () => {
+    onSave({
+      ...profile,
+      name: name.trim(),
+      description: description.trim(),
+      dos: parseVoiceList(lists.dos),
+      donts: parseVoiceList(lists.donts),
+      forbiddenWords: parseVoiceList(lists.forbiddenWords),
+      exampleHooks: parseVoiceList(lists.exampleHooks),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="bg-brand-gray p-6 rounded-xl border border-gray-100 space-y-4">
+      <div>
+        <label className={labelClass}>{t('voices.name')}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('voices.namePlaceholder')}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>{t('voices.description')}</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder={t('voices.descriptionPlaceholder')}
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {LIST_FIELDS.map(({ field, labelKey, placeholderKey }) => (
+          <div key={field}>
+            <label className={labelClass}>{t(labelKey)}</label>
+            <textarea
+              value={lists[field]}
+              onChange={(e) => setLists({ ...lists, [field]: e.target.value })}
+              placeholder={t(placeholderKey)}
+              rows={4}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-400">{t('voices.listHint')}</p>
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50"
+        >
+          {t('voices.save')}
+        </button>
+        <button onClick={onCancel} className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const VoiceProfilesView: React.FC<VoiceProfilesViewProps> = ({ profiles, onSave, onDelete }) => {
+  const [editing, setEditing] = useState<VoiceProfile | null>(null);
+  const { intlTag, t } = useI18n();
+
+  const handleSave = (profile: VoiceProfile) => {
+    onSave?.(profile);
+    setEditing(null);
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="h-px bg-gray-200 flex-grow"></div>
+        <h2 className="text-2xl font-serif text-brand-black px-4">{t('voices.title')}</h2>
+        <div className="h-px bg-gray-200 flex-grow"></div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">{t('voices.intro')}</p>
+        {onSave && !editing && (
+          <button
+            onClick={() => setEditing(createVoiceProfile())}
+            className="px-4 py-2 rounded-full text-xs font-semibold border border-gray-300 hover:border-brand-gold hover:text-brand-gold transition-colors shrink-0"
+          >
+            {t('voices.new')}
+          </button>
+        )}
+      </div>
+
+      {editing && !profiles.some(profile => profile.id === editing.id) && (
+        <VoiceProfileEditor profile={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      )}
+
+      {profiles.length === 0 && !editing && (
+        <p className="text-center text-sm text-gray-400 py-12">{t('voices.empty')}</p>
+      )}
+
+      <div className="grid gap-4">
+        {profiles.map((profile) =>
+          editing?.id === profile.id ? (
+            <VoiceProfileEditor key={profile.id} profile={profile} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <div key={profile.id} className="bg-white border-l-4 border-brand-gold shadow-sm p-6 rounded-r-lg">
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div>
+                  <p className="text-lg font-medium text-brand-black">{profile.name}</p>
+                  {profile.description && <p className="text-sm text-gray-500">{profile.description}</p>}
+                  <p className="mt-2 text-[10px] text-gray-400 uppercase tracking-widest">
+                    {t('voices.summary', {
+                      rules: profile.dos.length + profile.donts.length,
+                      forbidden: profile.forbiddenWords.length,
+                      examples: profile.exampleHooks.length,
+                    })}
+                    {` · ${new Date(profile.updatedAt).toLocaleDateString(intlTag)}`}
+                    {profile.updatedBy && ` · ${profile.updatedBy}`}
+                  </p>
+                </div>
+                {onSave && onDelete && (
+                  <div className="flex gap-3 shrink-0">
+                    <button
+                      onClick={() => setEditing(profile)}
+                      className="text-xs text-brand-gold hover:text-brand-black uppercase tracking-widest underline"
+                    >
+                      {t('voices.edit')}
+                    </button>
+                    <button
+                      onClick={() => onDelete(profile.id)}
+                      className="text-xs text-gray-400 hover:text-brand-red uppercase tracking-widest underline"
+                    >
+                      {t('common.delete')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceProfilesView;
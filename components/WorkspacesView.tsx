@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityKind, SavedHook, VoiceProfile, WorkspaceDetail, WorkspaceRole, WorkspaceSummary } from '../types';
+import { WORKSPACE_ROLES } from '../constants';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  fetchWorkspaces,
+  importToWorkspace,
+  leaveWorkspace,
+  removeWorkspaceMember,
+  saveWorkspaceMember,
+} from '../services/api';
+import { canEditWorkspace } from '../services/workspaces';
+import { MessageKey, useI18n } from '../i18n';
+
+interface WorkspacesViewProps {
+  email: string;
+  workspace: WorkspaceDetail | null; // The one open right now; null while working on the personal library
+  library: SavedHook[]; // Personal hooks and voices, offered for import
+  voiceProfiles: VoiceProfile[];
+  onOpen: (id: string | null) => void;
+  // Runs a change that answers with the updated workspace; resolves false when it failed
+  onAction: (action: () => Promise<WorkspaceDetail>) => Promise<boolean>;
+  onError: (err: unknown) => void;
+}
+
+const ACTIVITY_KEYS: Record<ActivityKind, MessageKey> = {
+  generated: 'activity.generated',
+  savedHook: 'activity.savedHook',
+  editedHook: 'activity.editedHook',
+  deletedHook: 'activity.deletedHook',
+  savedVoice: 'activity.savedVoice',
+  deletedVoice: 'activity.deletedVoice',
+  imported: 'activity.imported',
+  addedMember: 'activity.addedMember',
+  changedRole: 'activity.changedRole',
+  removedMember: 'activity.removedMember',
+};
+
+const inputClass =
+  'w-full bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold placeholder-gray-300';
+
+const buttonClass =
+  'bg-brand-black text-white font-bold py-2 px-6 rounded hover:bg-gray-800 transition-all uppercase tracking-widest text-xs disabled:opacity-50 shrink-0';
+
+const sectionTitleClass = 'text-xs font-bold text-gray-500 uppercase tracking-wider mb-4';
+
+const WorkspacesView: React.FC<WorkspacesViewProps> = ({ email, workspace, library, voiceProfiles, onOpen, onAction, onError }) => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { intlTag, t } = useI18n();
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString(intlTag);
+  const roleLabel = (role: WorkspaceRole) => t(`workspaces.role.${role}` as MessageKey);
+
+  const refresh = async () => {
+    try {
+      setWorkspaces(await fetchWorkspaces());
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  // Others may have changed the workspace since it was opened, so it is reloaded along with the list
+  useEffect(() => {
+    refresh();
+    if (workspace) onOpen(workspace.workspace.id);
+  }, []);
+
+  useEffect(() => setConfirmingDelete(false), [workspace?.workspace.id]);
+
+  const run = async (action: () => Promise<WorkspaceDetail>) => {
+    setBusy(true);
+    const ok = await onAction(action);
+    if (ok) await refresh();
+    setBusy(false);
+    return ok;
+  };
+
+  const handleCreate = async () => {
+    if (await run(() => createWorkspace(newName.trim()))) setNewName('');
+  };
+
+  const handleInvite = async () => {
+    if (!workspace) return;
+    const ok = await run(() => saveWorkspaceMember({ workspaceId: workspace.workspace.id, email: inviteEmail.trim(), role: inviteRole }));
+    if (ok) setInviteEmail('');
+  };
+
+  // Deleting and leaving answer without a workspace, so they go back to the personal library
+  const closeWith = async (action: (workspaceId: string) => Promise<unknown>) => {
+    if (!workspace) return;
+    setBusy(true);
+    try {
+      await action(workspace.workspace.id);
+      onOpen(null);
+      await refresh();
+    } catch (err) {
+      onError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isOwner = workspace?.role === 'owner';
+
+  return (
+    <div className="animate-fade-in space-y-12">
+      <div>
+        <h2 className="text-2xl font-serif text-brand-black mb-2">{t('workspaces.title')}</h2>
+        <p className="text-sm text-gray-500">{t('workspaces.intro')}</p>
+      </div>
+
+      {/* --- WORKSPACE LIST --- */}
+      <section>
+        <h3 className={sectionTitleClass}>{t('workspaces.list.title')}</h3>
+        <ul className="divide-y divide-gray-100 border-y border-gray-100">
+          <li className="py-3 flex items-center justify-between gap-4 text-sm">
+            <span>
+              <span className="font-bold">{t('workspaces.personal')}</span>
+              <span className="ml-2 text-gray-500">{t('workspaces.personalHint')}</span>
+            </span>
+            {workspace ? (
+              <button onClick={() => onOpen(null)} className="text-xs underline text-gray-400 hover:text-brand-gold">
+                {t('workspaces.open')}
+              </button>
+            ) : (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-green-700">{t('workspaces.active')}</span>
+            )}
+          </li>
+          {(workspaces ?? []).map((summary) => (
+            <li key={summary.id} className="py-3 flex items-center justify-between gap-4 text-sm">
+              <span>
+                <span className="font-bold">{summary.name}</span>
+                <span className="ml-2 text-gray-500">
+                  {roleLabel(summary.role)} · {t('workspaces.memberCount', { count: summary.memberCount })}
+                </span>
+              </span>
+              {workspace?.workspace.id === summary.id ? (
+                <span className="text-[10px] font-bold uppercase tracking-widest text-green-700">{t('workspaces.active')}</span>
+              ) : (
+                <button onClick={() => onOpen(summary.id)} className="text-xs underline text-gray-400 hover:text-brand-gold">
+                  {t('workspaces.open')}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {workspaces === null && <p className="mt-3 text-xs text-gray-400">{t('common.loading')}</p>}
+
+        <div className="mt-4 flex flex-col md:flex-row gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+            placeholder={t('workspaces.create.placeholder')}
+            maxLength={80}
+            className={inputClass}
+          />
+          <button onClick={handleCreate} disabled={busy || !newName.trim()} className={buttonClass}>
+            {t('workspaces.create.submit')}
+          </button>
+        </div>
+      </section>
+
+      {workspace && (
+        <>
+          {/* --- MEMBERS --- */}
+          <section>
+            <h3 className={sectionTitleClass}>
+              {t('workspaces.members.title', { name: workspace.workspace.name, role: roleLabel(workspace.role) })}
+            </h3>
+            <ul className="divide-y divide-gray-100 border-y border-gray-100">
+              {workspace.workspace.members.map((member) => (
+                <li key={member.email} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-bold">{member.email}</span>
+                    {member.email === email && <span className="ml-2 text-gray-400">{t('workspaces.members.you')}</span>}
+                    <span className="block text-[11px] text-gray-400">
+                      {member.addedBy
+                        ? t('workspaces.members.addedBy', { email: member.addedBy, date: formatDate(member.addedAt) })
+                        : t('workspaces.members.created', { date: formatDate(member.addedAt) })}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-3 text-xs">
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        disabled={busy}
+                        onChange={(e) => run(() => saveWorkspaceMember({
+                          workspaceId: workspace.workspace.id,
+                          email: member.email,
+                          role: e.target.value as WorkspaceRole,
+                        }))}
+                        className="bg-white border border-gray-300 px-2 py-1 rounded text-xs focus:outline-none focus:border-brand-gold"
+                      >
+                        {WORKSPACE_ROLES.map((role) => (
+                          <option key={role} value={role}>{roleLabel(role)}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="uppercase tracking-widest text-gray-500">{roleLabel(member.role)}</span>
+                    )}
+                    {isOwner && member.email !== email && (
+                      <button
+                        onClick={() => run(() => removeWorkspaceMember(workspace.workspace.id, member.email))}
+                        disabled={busy}
+                        className="underline text-gray-400 hover:text-brand-red disabled:opacity-50"
+                      >
+                        {t('workspaces.members.remove')}
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {isOwner && (
+              <div className="mt-4 space-y-2">
+                <p className="text-xs text-gray-500">{t('workspaces.invite.hint')}</p>
+                <div className="flex flex-col md:flex-row gap-2">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder={t('workspaces.invite.placeholder')}
+                    className={inputClass}
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                    className="bg-white border border-gray-300 px-3 py-2 rounded text-sm focus:outline-none focus:border-brand-gold"
+                  >
+                    {WORKSPACE_ROLES.map((role) => (
+                      <option key={role} value={role}>{roleLabel(role)}</option>
+                    ))}
+                  </select>
+                  <button onClick={handleInvite} disabled={busy || !inviteEmail.trim()} className={buttonClass}>
+                    {t('workspaces.invite.submit')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-4 text-xs">
+              <button
+                onClick={() => closeWith(leaveWorkspace)}
+                disabled={busy}
+                className="underline text-gray-400 hover:text-brand-red disabled:opacity-50"
+              >
+                {t('workspaces.leave')}
+              </button>
+              {isOwner && (
+                <button
+                  onClick={() => (confirmingDelete ? closeWith(deleteWorkspace) : setConfirmingDelete(true))}
+                  disabled={busy}
+                  className="underline text-gray-400 hover:text-brand-red disabled:opacity-50"
+                >
+                  {confirmingDelete ? t('workspaces.delete.confirm') : t('workspaces.delete')}
+                </button>
+              )}
+            </div>
+          </section>
+
+          {/* --- IMPORT --- */}
+          {canEditWorkspace(workspace.role) && (library.length > 0 || voiceProfiles.length > 0) && (
+            <section className="bg-brand-gray p-6 rounded-xl border border-gray-100 space-y-3">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('workspaces.import.title')}</h3>
+              <p className="text-sm text-gray-500">{t('workspaces.import.hint')}</p>
+              <button
+                onClick={() => run(() => importToWorkspace({ workspaceId: workspace.workspace.id, library, voiceProfiles }))}
+                disabled={busy}
+                className={buttonClass}
+              >
+                {t('workspaces.import.submit', { hooks: library.length, voices: voiceProfiles.length })}
+              </button>
+            </section>
+          )}
+
+          {/* --- ACTIVITY --- */}
+          <section>
+            <h3 className={sectionTitleClass}>{t('activity.title')}</h3>
+            {workspace.activity.length === 0 ? (
+              <p className="text-sm text-gray-400">{t('activity.empty')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border-y border-gray-100">
+                {workspace.activity.map((entry) => (
+                  <li key={entry.id} className="py-2 text-sm">
+                    <span className="font-bold">{entry.email}</span>{' '}
+                    {t(ACTIVITY_KEYS[entry.kind], { detail: entry.detail, count: entry.count ?? 0 })}
+                    <span className="block text-[11px] text-gray-400">{formatDate(entry.at)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacesView;
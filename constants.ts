@@ -1,3 +1,5 @@
+import { FormData, HookCategory, HookLength, HookTrigger, NicheContextKey, Platform, PlatformRules, RewriteMode, ScriptDuration, TemplateFilters, WorkspaceRole } from './types';
+
 // The raw list of hooks provided by the user
 export const RAW_HOOKS = [
   "1. [número] trucos sobre [tema] que ojalá hubiera sabido antes.",
@@ -198,3 +200,78 @@ export const RAW_HOOKS = [
   "196. La mayor mentira sobre [tema] que casi nadie cuestiona.",
   "197. Mis recursos favoritos para lograr [resultado] con [tema] más rápido."
 ];
+
+// Display order of the filter chips; labels live in the i18n catalogue ("category.*", "trigger.*", "length.*").
+export const HOOK_CATEGORIES: HookCategory[] = ['errores', 'contrarian', 'listas', 'historia', 'secretos', 'tutorial'];
+
+export const HOOK_TRIGGERS: HookTrigger[] = ['curiosity', 'fear', 'gain'];
+
+export const HOOK_LENGTHS: HookLength[] = ['all', 'short', 'medium', 'long'];
+
+// Upper bound (in characters of the raw template) for each length bucket.
+export const HOOK_LENGTH_LIMITS: Record<Exclude<HookLength, 'all' | 'long'>, number> = {
+  short: 66,
+  medium: 76,
+};
+
+export const DEFAULT_TEMPLATE_FILTERS: TemplateFilters = {
+  source: 'all',
+  categories: [],
+  triggers: [],
+  length: 'all',
+  shuffle: false,
+};
+
+export const PLATFORMS: Platform[] = ['generic', 'tiktok', 'reels', 'shorts', 'linkedin', 'email'];
+
+// Short-form video is read from on-screen captions (~3 words/s); feeds and inboxes are skimmed faster.
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  generic: { maxChars: 280, style: 'written', emoji: 'free', subjectLine: false, readingWpm: 230 },
+  tiktok: { maxChars: 150, style: 'spoken', emoji: 'one', subjectLine: false, readingWpm: 180 },
+  reels: { maxChars: 150, style: 'spoken', emoji: 'one', subjectLine: false, readingWpm: 180 },
+  shorts: { maxChars: 150, style: 'spoken', emoji: 'none', subjectLine: false, readingWpm: 180 },
+  linkedin: { maxChars: 210, style: 'written', emoji: 'none', subjectLine: false, readingWpm: 230 }, // Before "...see more"
+  email: { maxChars: 70, style: 'written', emoji: 'none', subjectLine: true, readingWpm: 250 },
+};
+
+// Card actions in display order
+export const REWRITE_MODES: RewriteMode[] = ['regenerate', 'variants', 'shorter', 'polemic', 'softer'];
+
+// Alternatives requested by the "variants" action
+export const VARIANT_COUNT = 3;
+
+// Longest formula a user can write; also the ceiling for any template sent to /api/generate
+export const MAX_CUSTOM_TEMPLATE_LENGTH = 300;
+
+// Highest role first, as the member editor lists them
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+// Shingle similarity from which two hooks count as saying the same thing
+export const NEAR_DUPLICATE_SIMILARITY = 0.5;
+
+export const SCRIPT_DURATIONS: ScriptDuration[] = [15, 30, 60];
+
+// Talking points between the hook and the CTA; longer videos get more
+export const SCRIPT_POINT_COUNTS: Record<ScriptDuration, number> = { 15: 3, 30: 4, 60: 5 };
+
+// In the order the niche assistant shows them
+export const NICHE_CONTEXT_KEYS: NicheContextKey[] = ['resultado', 'situacionNegativa', 'odio'];
+
+// Suggestions the niche assistant keeps per group
+export const NICHE_INSIGHTS_PER_GROUP = 6;
+
+// Templates adapted per generation request ("load more" pages and bulk rows alike)
+export const BATCH_SIZE = 10;
+
+// Bulk rows generated at the same time; the rest wait in the queue
+export const BULK_CONCURRENCY = 2;
+
+export const BULK_MAX_ROWS = 50;
+
+export const DEFAULT_FORM_DATA: FormData = {
+  niche: '',
+  topic: '',
+  audience: '',
+  platform: 'generic',
+  voiceProfileId: null,
+};
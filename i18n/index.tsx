@@ -0,0 +1,75 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Language, Locale } from '../types';
+import { es, MessageKey, Messages } from './messages/es';
+import { en } from './messages/en';
+import { pt } from './messages/pt';
+import { esES, esMX } from './messages/esRegional';
+import { detectLocale, getLocaleOption, isLocale } from './locales';
+
+export type { MessageKey } from './messages/es';
+
+const CATALOGUES: Record<Locale, Partial<Messages>> = {
+  es,
+  'es-MX': esMX,
+  'es-ES': esES,
+  en,
+  pt,
+};
+
+const LOCALE_STORAGE_KEY = 'hook_system_locale';
+
+export type MessageValues = Record<string, string | number>;
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// Missing keys fall back to neutral Spanish, which is complete by definition.
+export const translate = (locale: Locale, key: MessageKey, values?: MessageValues): string => {
+  const message = CATALOGUES[locale][key] ?? es[key];
+  if (!values) return message;
+  return message.replace(/\{(\w+)\}/g, (slot, name: string) => (name in values ? String(values[name]) : slot));
+};
+
+const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable: fall through to the browser language
+  }
+  return detectLocale(navigator.language);
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  language: Language;
+  intlTag: string;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const option = getLocaleOption(locale);
+
+  useEffect(() => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = option.intlTag;
+  }, [locale, option.intlTag]);
+
+  const value: I18nContextValue = {
+    locale,
+    language: option.language,
+    intlTag: option.intlTag,
+    setLocale,
+    t: (key, values) => translate(locale, key, values),
+  };
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+};
@@ -0,0 +1,32 @@
+import { Language, Locale } from '../types';
+
+export interface LocaleOption {
+  id: Locale;
+  label: string; // Always in its own language, so users can find theirs
+  language: Language;
+  intlTag: string; // For dates and numbers
+}
+
+export const LOCALES: LocaleOption[] = [
+  { id: 'es', label: 'Español (neutro)', language: 'es', intlTag: 'es' },
+  { id: 'es-MX', label: 'Español (México)', language: 'es', intlTag: 'es-MX' },
+  { id: 'es-ES', label: 'Español (España)', language: 'es', intlTag: 'es-ES' },
+  { id: 'en', label: 'English', language: 'en', intlTag: 'en' },
+  { id: 'pt', label: 'Português (Brasil)', language: 'pt', intlTag: 'pt-BR' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(option => option.id === value);
+
+export const getLocaleOption = (locale: Locale) => LOCALES.find(option => option.id === locale) || LOCALES[0];
+
+export const getLanguage = (locale: Locale): Language => getLocaleOption(locale).language;
+
+// Maps a browser language ("es-AR", "pt-PT", "en-GB"...) to the closest supported locale.
+export const detectLocale = (browserLanguage: string | undefined): Locale => {
+  if (!browserLanguage) return DEFAULT_LOCALE;
+  if (isLocale(browserLanguage)) return browserLanguage;
+  const language = browserLanguage.split('-')[0].toLowerCase();
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+};
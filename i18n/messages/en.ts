@@ -0,0 +1,474 @@
+import { Messages } from './es';
+
+export const en: Messages = {
+  // --- COMMON ---
+  'common.copied': 'Copied!',
+  'common.delete': 'Delete',
+  'common.cancel': 'Cancel',
+  'common.loading': 'Loading...',
+  'common.language': 'Language',
+
+  // --- LOGIN ---
+  'login.title': 'Exclusive Access',
+  'login.heading': '1. Sign in with your Code',
+  'login.email': 'Your Email (Registered):',
+  'login.emailPlaceholder': 'you@example.com',
+  'login.code': 'Your Access Code:',
+  'login.codePlaceholder': 'VIP Code',
+  'login.submit': 'Enter the System',
+  'login.or': 'Or',
+  'login.error.email': 'Please enter a valid email address to sign in.',
+  'login.error.code': 'Please enter your access code.',
+  'login.error.invalid': 'Wrong access code for this email. Check it or request a new one below.',
+  'login.error.expired': 'Your access code has expired. Request a new one below.',
+  'login.error.revoked': 'Your access code was deactivated. Please contact the team.',
+  'login.error.throttled': 'Too many attempts with a wrong code. Wait {minutes} minutes and try again.',
+  'login.error.generic': 'We could not verify your code. Try again in a few seconds.',
+  'login.error.sessionExpired': 'Your session has expired. Sign in again with your code.',
+
+  // --- ACCESS REQUEST ---
+  'request.title': "Don't have a code yet?",
+  'request.subtitle': 'Request one for free by sending your email to our team.',
+  'request.sent': "Request sent! We'll email you your code as soon as we review it.",
+  'request.placeholder': 'Type your email here...',
+  'request.sending': 'Sending...',
+  'request.submit': 'Send Request',
+  'request.error': 'We could not send your request. Check the email and try again.',
+
+  // --- NAVIGATION ---
+  'nav.generator': 'Generator',
+  'nav.bulk': 'CSV Batch',
+  'nav.library': 'My Hooks ({count})',
+  'nav.history': 'History',
+  'nav.admin': 'Admin',
+  'nav.voices': 'Brand Voices',
+  'nav.team': 'Team',
+  'nav.teamActive': 'Team: {name}',
+  'nav.templates': 'My Formulas ({count})',
+  'nav.prompts': 'Prompts',
+  'nav.logout': 'Sign Out',
+
+  // --- GENERATOR ---
+  'generator.title': 'Set up your Generator',
+  'generator.niche': '1. Your Niche',
+  'generator.nichePlaceholder': 'E.g. Fitness, Real Estate...',
+  'generator.topic': '2. Idea / Topic',
+  'generator.topicPlaceholder': 'E.g. Keto diet, Selling without selling...',
+  'generator.audience': '3. Audience (Optional)',
+  'generator.audiencePlaceholder': 'E.g. Beginners, Experts...',
+  'generator.voice': '4. Brand Voice (Optional)',
+  'generator.voiceNone': 'No brand voice',
+  'generator.voiceEmpty': 'You have no saved voices yet. Create them in "Brand Voices".',
+  'generator.platform': '5. Platform',
+  'generator.submit': 'Generate Viral Hooks',
+  'generator.analyzing': 'Analyzing...',
+  'generator.error.missingFields': 'Please fill in the niche and the main idea.',
+  'generator.error.noTemplates': 'No formula matches the selected filters.',
+  'generator.error.failedTemplates': '{count} formulas could not be adapted and were skipped.',
+  'generator.error.generic': 'Something went wrong generating the hooks. Please try again.',
+  'generator.error.apiKey': 'Configuration Error: the API KEY is missing on the server.',
+  'generator.error.rateLimited': '⏳ Free limit reached. Wait {seconds} seconds and try again.',
+  'generator.error.quotaDaily': '🚦 You have reached your daily usage limit. It renews in {hours} h.',
+  'generator.error.quotaMonthly': '🚦 You have reached your monthly usage limit. It renews on {date}.',
+  'usage.today': 'Today: {usage}',
+  'usage.month': 'This month: {usage}',
+  'usage.requests': '{count} requests',
+  'usage.tokens': '{count} tokens',
+
+  // --- NICHE INSIGHTS ---
+  'insights.title': 'Niche Assistant',
+  'insights.intro': 'Not sure what to talk about? From your niche we suggest topics, audiences and what your audience wants, struggles with and hates doing.',
+  'insights.suggest': 'Suggest ideas',
+  'insights.suggestAgain': 'More ideas',
+  'insights.loading': 'Looking for ideas...',
+  'insights.for': 'Ideas for "{niche}"',
+  'insights.hint': 'A topic and an audience fill in the form; one value per slot is used as context in every hook.',
+  'insights.topics': 'Topics',
+  'insights.audiences': 'Audiences',
+  'insights.accepted': 'Accepted context',
+  'insights.remove': 'Remove',
+
+  // --- RESULTS ---
+  'results.title': 'Adapted Results',
+  'results.all': 'All',
+  'results.sort': 'Sort by',
+  'results.sort.template': 'Formula',
+  'results.sort.score': 'Score',
+  'results.minScore': 'Minimum score',
+  'results.critique': 'Review with AI',
+  'results.critiquing': 'Reviewing...',
+  'results.critiqueUnavailable': "The current provider can't review hooks. The score only uses the local rules.",
+  'results.loadMore': 'Load more formulas',
+  'results.duplicates': '{count} near-duplicates',
+  'results.duplicates.flag': 'Flag',
+  'results.duplicates.collapse': 'Hide',
+  'results.duplicates.reroll': 'Regenerate duplicates',
+  'results.duplicates.rerolling': 'Regenerating...',
+
+  // --- PLATFORMS ---
+  'platform.generic': 'General',
+  'platform.tiktok': 'TikTok',
+  'platform.reels': 'Reels',
+  'platform.shorts': 'YouTube Shorts',
+  'platform.linkedin': 'LinkedIn',
+  'platform.email': 'Email subject',
+  'platform.maxChars': 'Max. {count} characters',
+  'platform.style.spoken': 'to say on camera',
+  'platform.style.written': 'to be read',
+  'platform.emoji.none': 'no emojis',
+  'platform.emoji.one': 'max. 1 emoji',
+  'platform.emoji.free': 'emojis allowed',
+
+  // --- TEMPLATE FILTERS ---
+  'filters.title': '6. Formula Selection',
+  'filters.available': '{count} formulas available',
+  'filters.categories': 'Categories',
+  'filters.triggers': 'Psychological Trigger',
+  'filters.length': 'Hook Length',
+  'filters.shuffle': 'Random order',
+  'filters.source': 'Source',
+  'filters.source.all': 'All',
+  'filters.source.builtin': 'Built-in',
+  'filters.source.custom': 'My formulas',
+
+  // --- MANUAL FILL ---
+  'manual.title': '7. Fill Mode',
+  'manual.mode.ai': 'With AI',
+  'manual.mode.manual': 'Manual (no AI)',
+  'manual.intro': 'Type the value for each slot and it is substituted as is in every formula, instantly and offline. Empty fields use the example value.',
+  'manual.agreementSpanishOnly': 'Gender and number agreement is only adjusted in Spanish.',
+  'manual.usage': 'in {count} formulas',
+  'manual.noPlaceholders': 'The selected formulas have no slots.',
+
+  'category.errores': 'Mistakes',
+  'category.contrarian': 'Contrarian',
+  'category.listas': 'Lists',
+  'category.historia': 'Personal story',
+  'category.secretos': 'Secrets & hacks',
+  'category.tutorial': 'How-to',
+
+  'trigger.curiosity': 'Curiosity',
+  'trigger.fear': 'Fear',
+  'trigger.gain': 'Gain',
+
+  'length.all': 'Any',
+  'length.short': 'Short',
+  'length.medium': 'Medium',
+  'length.long': 'Long',
+
+  // --- HOOK CARD ---
+  'hook.formula': 'Formula #{id}',
+  'hook.copy': 'Copy Hook',
+  'hook.save': 'Save to My Hooks',
+  'hook.unsave': 'Remove from My Hooks',
+  'hook.characters': '{count} characters',
+  'hook.words': '{count} words',
+  'hook.readingTime': '~{seconds} s to read',
+  'hook.overLimit': 'Over the {max} limit for {platform}',
+  'hook.forbiddenWords': 'Uses words the voice forbids: {words}',
+  'hook.duplicate.results': 'Nearly the same ({percent}%) as another hook in these results: "{text}"',
+  'hook.duplicate.library': 'Nearly the same ({percent}%) as a hook in My Hooks: "{text}"',
+  'hook.rewriting': 'Rewriting...',
+  'hook.variants': 'Variants ({count})',
+  'hook.pickVariant': 'Pick',
+  'hook.discardVariant': 'Discard variant',
+  'hook.error.rewrite': "The hook couldn't be rewritten. Please try again.",
+  'hook.score': 'Score',
+  'hook.critique': 'AI critique: {comment}',
+
+  // --- SCORE ---
+  'score.clarity': 'Clarity',
+  'score.specificity': 'Specificity',
+  'score.curiosity': 'Curiosity',
+  'score.lengthFit': 'Length',
+  'score.originality': 'Originality',
+
+  // --- CARD ACTIONS ---
+  'rewrite.regenerate': 'Regenerate',
+  'rewrite.variants': 'Variants',
+  'rewrite.shorter': 'Shorter',
+  'rewrite.polemic': 'More polemic',
+  'rewrite.softer': 'Softer',
+  'rewrite.previous': 'Previous',
+
+  // --- SCRIPTS ---
+  'script.expand': 'Script:',
+  'script.rewrite': 'New script:',
+  'script.duration': '{seconds}s',
+  'script.writing': 'Writing script...',
+  'script.title': '{seconds}s script',
+  'script.copy': 'Copy script',
+  'script.hook': 'Hook',
+  'script.point': 'Point {number}',
+  'script.cta': 'CTA',
+  'script.onScreen': 'On screen',
+  'script.bRoll': 'B-roll',
+
+  // --- LIBRARY ---
+  'library.title': 'My Hooks',
+  'library.empty': "You haven't saved any hooks yet. Star the ones you like in the results with ★.",
+  'library.searchPlaceholder': 'Search by text, niche, topic or tag...',
+  'library.count': '{shown} of {total} hooks',
+  'library.selected': '{count} selected',
+  'library.clearSelection': 'Clear selection',
+  'library.select': 'Select for export',
+  'library.tagPlaceholder': '+ tag',
+  'library.removeTag': 'Remove tag {tag}',
+  'library.error.storage': 'The browser is out of space to save My Hooks: the last change will be lost when you close it. Export or delete hooks (or history) to free some space.',
+
+  // --- HISTORY ---
+  'history.title': 'History',
+  'history.empty': "You haven't generated any hooks yet. Every generation will show up here so you can pick it up again.",
+  'history.audience': 'Audience: {audience}',
+  'history.hooks': '{count} hooks',
+  'history.progress': '{loaded} of {total} formulas',
+  'history.open': 'Open',
+  'history.duplicate': 'Duplicate',
+  'history.manual': 'Manual fill',
+
+  // --- VOICE PROFILES ---
+  'voices.title': 'Brand Voices',
+  'voices.intro': "Save each client's tone and pick it when generating: it applies to every hook.",
+  'voices.new': '+ New voice',
+  'voices.empty': "You haven't created any brand voice yet.",
+  'voices.name': 'Name',
+  'voices.namePlaceholder': 'E.g. Smile Dental Clinic',
+  'voices.description': 'Tone description',
+  'voices.descriptionPlaceholder': 'E.g. Warm but professional, no jargon...',
+  'voices.dos': 'Do',
+  'voices.dosPlaceholder': 'Short sentences\nTalk about concrete results',
+  'voices.donts': "Don't",
+  'voices.dontsPlaceholder': 'Promise guaranteed results\nSound aggressive',
+  'voices.forbiddenWords': 'Forbidden words',
+  'voices.forbiddenWordsPlaceholder': 'cheap\nfree\nhack',
+  'voices.exampleHooks': 'Example hooks',
+  'voices.exampleHooksPlaceholder': 'One hook per line written in this voice',
+  'voices.listHint': 'One item per line.',
+  'voices.save': 'Save voice',
+  'voices.edit': 'Edit',
+  'voices.summary': '{rules} rules · {forbidden} forbidden words · {examples} examples',
+  'voices.error.storage': 'The browser is out of space to save your Brand Voices: the last change will be lost when you close it. Delete hooks (or history) to free some space.',
+
+  // --- WORKSPACES ---
+  'workspaces.title': 'Team workspaces',
+  'workspaces.intro': 'Share a hooks library and brand voices with your team. While a workspace is open, My Hooks and Brand Voices show the team ones.',
+  'workspaces.list.title': 'Your workspaces',
+  'workspaces.personal': 'Personal',
+  'workspaces.personalHint': 'Kept in this browser only',
+  'workspaces.open': 'Open',
+  'workspaces.active': 'Open',
+  'workspaces.memberCount': '{count} members',
+  'workspaces.create.placeholder': 'New workspace name',
+  'workspaces.create.submit': 'Create workspace',
+  'workspaces.role.owner': 'Owner',
+  'workspaces.role.editor': 'Editor',
+  'workspaces.role.viewer': 'Viewer',
+  'workspaces.members.title': 'Members of {name} · you are {role}',
+  'workspaces.members.you': '(you)',
+  'workspaces.members.addedBy': 'Added by {email} · {date}',
+  'workspaces.members.created': 'Created the workspace · {date}',
+  'workspaces.members.remove': 'Remove',
+  'workspaces.invite.hint': 'Invite by email. To sign in, they still need an access code of their own.',
+  'workspaces.invite.placeholder': 'email@example.com',
+  'workspaces.invite.submit': 'Invite',
+  'workspaces.leave': 'Leave workspace',
+  'workspaces.delete': 'Delete workspace',
+  'workspaces.delete.confirm': 'Click again to delete it with its hooks, voices and activity',
+  'workspaces.import.title': 'Bring your personal work',
+  'workspaces.import.hint': 'Copies the hooks and voices in this browser into the workspace. Anything already shared is not duplicated.',
+  'workspaces.import.submit': 'Copy {hooks} hooks and {voices} voices',
+  'workspaces.error.generic': 'The workspace action could not be completed. Please try again.',
+  'workspaces.error.forbidden': 'Your role in this workspace does not allow that.',
+  'workspaces.error.notFound': 'That workspace no longer exists or you are no longer a member.',
+  'workspaces.error.lastOwner': 'The workspace needs at least one owner.',
+  'workspaces.error.email': 'Enter a valid email.',
+  'workspaces.error.name': 'Give it a name of up to 80 characters.',
+  'workspaces.error.full': 'The workspace has reached its hooks or voices limit.',
+  'activity.title': 'Activity',
+  'activity.empty': 'No activity yet.',
+  'activity.generated': 'generated {count} hooks for {detail}',
+  'activity.savedHook': 'saved "{detail}"',
+  'activity.editedHook': 'edited "{detail}"',
+  'activity.deletedHook': 'deleted "{detail}"',
+  'activity.savedVoice': 'saved the voice {detail}',
+  'activity.deletedVoice': 'deleted the voice {detail}',
+  'activity.imported': 'copied {count} items from their personal library',
+  'activity.addedMember': 'added {detail}',
+  'activity.changedRole': 'changed a role: {detail}',
+  'activity.removedMember': 'removed {detail}',
+
+  // --- CUSTOM TEMPLATES ---
+  'templates.title': 'My Formulas',
+  'templates.intro': 'Write your own formulas with slots in square brackets: they join selection, filters and batches just like the built-in ones.',
+  'templates.new': 'New formula',
+  'templates.empty': "You haven't created any formulas yet.",
+  'templates.text': 'Formula',
+  'templates.textPlaceholder': 'E.g. Stop [action] if you want [result] in [time]',
+  'templates.length': '{count}/{max} characters',
+  'templates.insert': 'Insert slot',
+  'templates.preview': 'Preview',
+  'templates.problem.unbalanced': 'Brackets are unbalanced: every [ needs its ] and they cannot be nested.',
+  'templates.problem.emptyPlaceholder': 'There is an empty slot [].',
+  'templates.problem.unknownPlaceholder': '{token} is not a known slot: the AI will fill it as it sees fit.',
+  'templates.category': 'Category',
+  'templates.trigger': 'Trigger',
+  'templates.automatic': 'Automatic',
+  'templates.save': 'Save formula',
+  'templates.edit': 'Edit',
+  'templates.share': 'Share',
+  'templates.import': 'Import',
+  'templates.importPlaceholder': 'Paste the shared JSON here',
+  'templates.importPasted': 'Import text',
+  'templates.importFile': 'From file',
+  'templates.imported': '{count} formulas imported, {skipped} skipped.',
+  'templates.importInvalid': 'The text is not a valid formulas file.',
+  'templates.exportAll': 'Export all',
+  'templates.customBadge': 'Custom',
+  'templates.error.storage': 'The browser is out of space to save My Formulas: the last change will be lost when you close it. Export or delete formulas (or history) to free some space.',
+
+  // --- BULK GENERATION ---
+  'bulk.title': 'Batch Generation',
+  'bulk.intro': 'Upload a CSV or paste rows with niche, topic and audience (up to {max}). Each row generates {count} hooks with the platform, voice, formulas and mode chosen in the generator.',
+  'bulk.pastePlaceholder': 'niche,topic,audience\nFitness,Keto diet,Women over 40\nMarketing,Email marketing,Founders',
+  'bulk.addPasted': 'Add rows',
+  'bulk.uploadCsv': 'Upload CSV',
+  'bulk.loaded': '{count} rows added, {skipped} skipped.',
+  'bulk.run': 'Generate {count} rows',
+  'bulk.clear': 'Clear list',
+  'bulk.retry': 'Retry',
+  'bulk.status.pending': 'Pending',
+  'bulk.status.queued': 'Queued',
+  'bulk.status.running': 'Generating',
+  'bulk.status.done': 'Done',
+  'bulk.status.failed': 'Error',
+  'bulk.status.cancelled': 'Cancelled',
+  'bulk.column.hook': 'Hook',
+  'bulk.column.niche': 'Niche',
+  'bulk.column.audience': 'Audience',
+  'bulk.column.formula': 'Formula',
+
+  // --- EXPORT ---
+  'export.title': 'Export {count} hooks',
+  'export.copyAll': 'Copy all',
+  'export.calendar': 'Calendar (.ics)',
+  'export.from': 'From',
+  'export.days': 'Posting days',
+  'export.time': 'Time',
+  'export.download': 'Download calendar',
+  'export.range': 'From {first} to {last}',
+  'export.weekdays': 'S,M,T,W,T,F,S',
+  'export.csvHeaders': 'text,formula,template,niche,topic,audience,tags,script',
+  'export.eventSummary': 'Post: {text}',
+
+  // --- ADMIN ---
+  'admin.title': 'Admin Panel',
+  'admin.loading': 'Loading panel...',
+  'admin.error.load': 'The admin panel could not be loaded.',
+  'admin.error.action': 'The action could not be completed. Reload and try again.',
+  'admin.issue.title': 'Issue Code',
+  'admin.issue.emailPlaceholder': 'email@client.com',
+  'admin.issue.expires': 'Expires on',
+  'admin.issue.submit': 'Issue',
+  'admin.issue.hint': 'The expiry date also applies to codes issued when approving requests. Empty = never expires.',
+  'admin.issued.code': 'Code',
+  'admin.issued.for': 'issued for',
+  'admin.copyEmail': 'Copy email',
+  'admin.openEmail': 'Open in my email',
+  'admin.pending.title': 'Pending Requests ({count})',
+  'admin.pending.empty': 'There are no pending requests.',
+  'admin.approve': 'Approve',
+  'admin.reject': 'Reject',
+  'admin.codes.title': 'Issued Codes ({count})',
+  'admin.codes.email': 'Email',
+  'admin.codes.code': 'Code',
+  'admin.codes.uses': 'Uses',
+  'admin.codes.lastUsed': 'Last used',
+  'admin.codes.expires': 'Expires',
+  'admin.codes.status': 'Status',
+  'admin.codes.invitation': 'Email',
+  'admin.codes.revoke': 'Revoke',
+  'admin.status.revoked': 'Revoked',
+  'admin.status.expired': 'Expired',
+  'admin.status.active': 'Active',
+  'admin.usage.title': 'Access Log',
+  'admin.usage.empty': 'Nobody has signed in with a code yet.',
+  'admin.consumption.title': 'Consumption by Code',
+  'admin.consumption.empty': 'No generations recorded yet.',
+  'admin.consumption.quotas': 'Quotas per user: {daily} per day · {monthly} per month',
+  'admin.consumption.noQuotas': 'No quotas configured: consumption is only recorded.',
+  'admin.consumption.today': 'Today',
+  'admin.consumption.month': 'Month',
+  'admin.consumption.total': 'Total',
+  'admin.consumption.unlimited': 'unlimited',
+  'admin.decided.title': 'Resolved Requests',
+  'admin.decided.approved': 'Approved ({code})',
+  'admin.decided.rejected': 'Rejected',
+
+  // --- INVITATION EMAIL ---
+  'invitation.subject': 'Your access to Hook Generator System',
+  'invitation.greeting': 'Hi!',
+  'invitation.approved': 'Your request to access Hook Generator System has been approved.',
+  'invitation.email': 'Email: {email}',
+  'invitation.code': 'Access code: {code}',
+  'invitation.expires': 'Your code is valid until {date}.',
+  'invitation.noExpiry': 'Your code does not expire.',
+  'invitation.link': 'Sign in here: {url}',
+  'invitation.warning': 'The code only works with this email, so please do not share it.',
+
+  // --- PROMPT VERSIONS ---
+  'prompts.title': 'Adaptation Prompts',
+  'prompts.intro': 'The prompt the model receives when adapting formulas. Every change is saved as a new version and all generations use the active one.',
+  'prompts.loading': 'Loading prompts...',
+  'prompts.error.load': 'Prompts could not be loaded.',
+  'prompts.error.save': 'The prompt could not be saved. Check the problems and try again.',
+  'prompts.error.activate': 'The version could not be activated. Reload and try again.',
+  'prompts.saved': 'Saved as v{version}. Compare it in an A/B test or activate it whenever you like.',
+  'prompts.activated': 'v{version} is now the active version.',
+  'prompts.versions.title': 'Versions ({count})',
+  'prompts.version': 'v{version}',
+  'prompts.builtin': 'Built-in prompt',
+  'prompts.active': 'Active',
+  'prompts.activate': 'Activate',
+  'prompts.fork': 'Edit a copy',
+  'prompts.showBody': 'Show prompt',
+  'prompts.editor.title': 'New Version (based on v{version})',
+  'prompts.editor.insert': 'Insert variable',
+  'prompts.editor.body': 'Prompt',
+  'prompts.editor.length': '{count}/{max} characters',
+  'prompts.editor.extras': 'Own variables',
+  'prompts.editor.extrasHint': 'Fixed values of this version, such as a brand or a call to action. They are inserted like the other variables.',
+  'prompts.editor.extraName': 'name',
+  'prompts.editor.extraValue': 'Value',
+  'prompts.editor.addExtra': '+ Add variable',
+  'prompts.editor.note': 'Version note',
+  'prompts.editor.notePlaceholder': 'What changes and why',
+  'prompts.editor.save': 'Save as v{version}',
+  'prompts.problem.empty': 'The prompt is empty.',
+  'prompts.problem.tooLong': 'The prompt is longer than {max} characters.',
+  'prompts.problem.missingTemplates': 'The templates variable is missing: without it the model never gets the formulas.',
+  'prompts.problem.invalidVariableName': 'The name "{name}" cannot be used: use letters, numbers and underscores, and do not repeat a system variable.',
+  'prompts.problem.unknownVariable': 'The variable "{name}" does not exist. Add it as an own variable or fix it.',
+  'prompts.variable.niche': 'Niche from the form',
+  'prompts.variable.topic': 'Main idea from the form',
+  'prompts.variable.audience': 'Audience from the form (or a generic one)',
+  'prompts.variable.platform': 'Description of the chosen platform',
+  'prompts.variable.context': 'Context accepted in the niche assistant (empty without context)',
+  'prompts.variable.language': 'Output language and regional variant',
+  'prompts.variable.platformRules': "The platform's length, style and emoji rules",
+  'prompts.variable.voice': 'Brand voice section (empty without a voice)',
+  'prompts.variable.rewrite': 'Card action section (empty when generating)',
+  'prompts.variable.templates': 'The formulas to adapt, as JSON (required)',
+  'prompts.ab.title': 'A/B Test',
+  'prompts.ab.intro': "Adapts the same {count} formulas with two versions, using the generator's niche, idea, audience, platform, voice and filters. Pick the better hook in each row and promote the winner.",
+  'prompts.ab.versionA': 'Version A',
+  'prompts.ab.versionB': 'Version B',
+  'prompts.ab.run': 'Run test',
+  'prompts.ab.sameVersion': 'Pick two different versions.',
+  'prompts.ab.template': 'Formula',
+  'prompts.ab.wins': 'A wins: {a} · B wins: {b} · Ties: {ties}',
+  'prompts.ab.score': 'Average score: A {a} · B {b}',
+  'prompts.ab.promote': 'Promote v{version}',
+
+  // --- FOOTER ---
+  'footer.presentedBy': 'Presented by',
+};
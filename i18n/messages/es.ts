@@ -0,0 +1,477 @@
+// Base catalogue (neutral Spanish). Every other locale is checked against these keys.
+// Values may contain {name} slots, filled by `t(key, { name })`.
+export const es = {
+  // --- COMMON ---
+  'common.copied': '¡Copiado!',
+  'common.delete': 'Eliminar',
+  'common.cancel': 'Cancelar',
+  'common.loading': 'Cargando...',
+  'common.language': 'Idioma',
+
+  // --- LOGIN ---
+  'login.title': 'Acceso Exclusivo',
+  'login.heading': '1. Ingresar con Código',
+  'login.email': 'Tu Correo (Registrado):',
+  'login.emailPlaceholder': 'ejemplo@correo.com',
+  'login.code': 'Tu Código de Acceso:',
+  'login.codePlaceholder': 'Código VIP',
+  'login.submit': 'Ingresar al Sistema',
+  'login.or': 'O',
+  'login.error.email': 'Por favor ingresa un correo electrónico válido para entrar.',
+  'login.error.code': 'Por favor ingresa tu código de acceso.',
+  'login.error.invalid': 'Código de acceso incorrecto para este correo. Verifica o solicita uno nuevo abajo.',
+  'login.error.expired': 'Tu código de acceso ha caducado. Solicita uno nuevo abajo.',
+  'login.error.revoked': 'Tu código de acceso fue desactivado. Contacta con el equipo.',
+  'login.error.throttled': 'Demasiados intentos con un código incorrecto. Espera {minutes} minutos e intenta de nuevo.',
+  'login.error.generic': 'No pudimos verificar tu código. Intenta de nuevo en unos segundos.',
+  'login.error.sessionExpired': 'Tu sesión ha caducado. Ingresa de nuevo con tu código.',
+
+  // --- ACCESS REQUEST ---
+  'request.title': '¿Aún no tienes código?',
+  'request.subtitle': 'Solicítalo gratis enviando tu correo a nuestro equipo.',
+  'request.sent': '¡Solicitud enviada! Te escribiremos con tu código en cuanto la revisemos.',
+  'request.placeholder': 'Escribe tu correo aquí...',
+  'request.sending': 'Enviando...',
+  'request.submit': 'Enviar Solicitud',
+  'request.error': 'No pudimos enviar tu solicitud. Revisa el correo e intenta de nuevo.',
+
+  // --- NAVIGATION ---
+  'nav.generator': 'Generador',
+  'nav.bulk': 'Lote CSV',
+  'nav.library': 'Mis Hooks ({count})',
+  'nav.history': 'Historial',
+  'nav.admin': 'Administración',
+  'nav.voices': 'Voces de Marca',
+  'nav.team': 'Equipo',
+  'nav.teamActive': 'Equipo: {name}',
+  'nav.templates': 'Mis Fórmulas ({count})',
+  'nav.prompts': 'Prompts',
+  'nav.logout': 'Cerrar Sesión',
+
+  // --- GENERATOR ---
+  'generator.title': 'Configura tu Generador',
+  'generator.niche': '1. Tu Nicho',
+  'generator.nichePlaceholder': 'Ej. Fitness, Bienes Raíces...',
+  'generator.topic': '2. Idea / Tema',
+  'generator.topicPlaceholder': 'Ej. Dieta Keto, Vender sin vender...',
+  'generator.audience': '3. Audiencia (Opcional)',
+  'generator.audiencePlaceholder': 'Ej. Principiantes, Expertos...',
+  'generator.voice': '4. Voz de Marca (Opcional)',
+  'generator.voiceNone': 'Sin voz de marca',
+  'generator.voiceEmpty': 'Aún no tienes voces guardadas. Créalas en "Voces de Marca".',
+  'generator.platform': '5. Plataforma',
+  'generator.submit': 'Generar Hooks Virales',
+  'generator.analyzing': 'Analizando...',
+  'generator.error.missingFields': 'Por favor completa el nicho y la idea principal.',
+  'generator.error.noTemplates': 'Ninguna fórmula coincide con los filtros seleccionados.',
+  'generator.error.failedTemplates': '{count} fórmulas no se pudieron adaptar y se omitieron.',
+  'generator.error.generic': 'Hubo un error generando los hooks. Por favor intenta de nuevo.',
+  'generator.error.apiKey': 'Error de Configuración: Falta la API KEY en el servidor.',
+  'generator.error.rateLimited': '⏳ Límite gratuito alcanzado. Espera {seconds} segundos e intenta de nuevo.',
+  'generator.error.quotaDaily': '🚦 Has alcanzado tu límite diario de uso. Se renueva en {hours} h.',
+  'generator.error.quotaMonthly': '🚦 Has alcanzado tu límite mensual de uso. Se renueva el {date}.',
+  'usage.today': 'Hoy: {usage}',
+  'usage.month': 'Este mes: {usage}',
+  'usage.requests': '{count} solicitudes',
+  'usage.tokens': '{count} tokens',
+
+  // --- NICHE INSIGHTS ---
+  'insights.title': 'Asistente de Nicho',
+  'insights.intro': '¿No sabes de qué hablar? A partir de tu nicho te sugerimos temas, audiencias y lo que tu audiencia quiere, sufre y odia hacer.',
+  'insights.suggest': 'Sugerir ideas',
+  'insights.suggestAgain': 'Otras ideas',
+  'insights.loading': 'Buscando ideas...',
+  'insights.for': 'Ideas para "{niche}"',
+  'insights.hint': 'Un tema y una audiencia rellenan el formulario; un valor de cada hueco se usa como contexto en todos los hooks.',
+  'insights.topics': 'Temas',
+  'insights.audiences': 'Audiencias',
+  'insights.accepted': 'Contexto aceptado',
+  'insights.remove': 'Quitar',
+
+  // --- RESULTS ---
+  'results.title': 'Resultados Adaptados',
+  'results.all': 'Todas',
+  'results.sort': 'Ordenar',
+  'results.sort.template': 'Fórmula',
+  'results.sort.score': 'Puntuación',
+  'results.minScore': 'Puntuación mínima',
+  'results.critique': 'Evaluar con IA',
+  'results.critiquing': 'Evaluando...',
+  'results.critiqueUnavailable': 'El proveedor actual no puede evaluar los hooks. La puntuación solo usa las reglas locales.',
+  'results.loadMore': 'Cargar más fórmulas',
+  'results.duplicates': '{count} casi repetidos',
+  'results.duplicates.flag': 'Marcar',
+  'results.duplicates.collapse': 'Ocultar',
+  'results.duplicates.reroll': 'Regenerar repetidos',
+  'results.duplicates.rerolling': 'Regenerando...',
+
+  // --- PLATFORMS ---
+  'platform.generic': 'General',
+  'platform.tiktok': 'TikTok',
+  'platform.reels': 'Reels',
+  'platform.shorts': 'YouTube Shorts',
+  'platform.linkedin': 'LinkedIn',
+  'platform.email': 'Asunto de email',
+  'platform.maxChars': 'Máx. {count} caracteres',
+  'platform.style.spoken': 'para decir en cámara',
+  'platform.style.written': 'para leer',
+  'platform.emoji.none': 'sin emojis',
+  'platform.emoji.one': 'máx. 1 emoji',
+  'platform.emoji.free': 'emojis permitidos',
+
+  // --- TEMPLATE FILTERS ---
+  'filters.title': '6. Selección de Fórmulas',
+  'filters.available': '{count} fórmulas disponibles',
+  'filters.categories': 'Categorías',
+  'filters.triggers': 'Disparador Psicológico',
+  'filters.length': 'Longitud del Hook',
+  'filters.shuffle': 'Orden aleatorio',
+  'filters.source': 'Origen',
+  'filters.source.all': 'Todas',
+  'filters.source.builtin': 'Del sistema',
+  'filters.source.custom': 'Mis fórmulas',
+
+  // --- MANUAL FILL ---
+  'manual.title': '7. Modo de Relleno',
+  'manual.mode.ai': 'Con IA',
+  'manual.mode.manual': 'Manual (sin IA)',
+  'manual.intro': 'Escribe el valor de cada hueco y se sustituirá tal cual en todas las fórmulas, al instante y sin conexión. Los campos vacíos usan el valor de ejemplo.',
+  'manual.agreementSpanishOnly': 'La concordancia de género y número solo se ajusta en español.',
+  'manual.usage': 'en {count} fórmulas',
+  'manual.noPlaceholders': 'Las fórmulas seleccionadas no tienen huecos.',
+
+  'category.errores': 'Errores',
+  'category.contrarian': 'Contrarian',
+  'category.listas': 'Listas',
+  'category.historia': 'Historia personal',
+  'category.secretos': 'Secretos y hacks',
+  'category.tutorial': 'Cómo hacer',
+
+  'trigger.curiosity': 'Curiosidad',
+  'trigger.fear': 'Miedo',
+  'trigger.gain': 'Ganancia',
+
+  'length.all': 'Cualquiera',
+  'length.short': 'Corto',
+  'length.medium': 'Medio',
+  'length.long': 'Largo',
+
+  // --- HOOK CARD ---
+  'hook.formula': 'Fórmula #{id}',
+  'hook.copy': 'Copiar Hook',
+  'hook.save': 'Guardar en Mis Hooks',
+  'hook.unsave': 'Quitar de Mis Hooks',
+  'hook.characters': '{count} caracteres',
+  'hook.words': '{count} palabras',
+  'hook.readingTime': '~{seconds} s de lectura',
+  'hook.overLimit': 'Supera el máximo de {max} para {platform}',
+  'hook.forbiddenWords': 'Usa palabras prohibidas por la voz: {words}',
+  'hook.duplicate.results': 'Casi igual ({percent} %) a otro hook de estos resultados: "{text}"',
+  'hook.duplicate.library': 'Casi igual ({percent} %) a un hook de Mis Hooks: "{text}"',
+  'hook.rewriting': 'Reescribiendo...',
+  'hook.variants': 'Variantes ({count})',
+  'hook.pickVariant': 'Elegir',
+  'hook.discardVariant': 'Descartar variante',
+  'hook.error.rewrite': 'No se pudo reescribir el hook. Inténtalo de nuevo.',
+  'hook.score': 'Puntuación',
+  'hook.critique': 'Crítica de la IA: {comment}',
+
+  // --- SCORE ---
+  'score.clarity': 'Claridad',
+  'score.specificity': 'Concreción',
+  'score.curiosity': 'Curiosidad',
+  'score.lengthFit': 'Longitud',
+  'score.originality': 'Originalidad',
+
+  // --- CARD ACTIONS ---
+  'rewrite.regenerate': 'Regenerar',
+  'rewrite.variants': 'Variantes',
+  'rewrite.shorter': 'Más corto',
+  'rewrite.polemic': 'Más polémico',
+  'rewrite.softer': 'Más suave',
+  'rewrite.previous': 'Anterior',
+
+  // --- SCRIPTS ---
+  'script.expand': 'Guion:',
+  'script.rewrite': 'Nuevo guion:',
+  'script.duration': '{seconds} s',
+  'script.writing': 'Escribiendo guion...',
+  'script.title': 'Guion de {seconds} s',
+  'script.copy': 'Copiar guion',
+  'script.hook': 'Hook',
+  'script.point': 'Punto {number}',
+  'script.cta': 'CTA',
+  'script.onScreen': 'En pantalla',
+  'script.bRoll': 'B-roll',
+
+  // --- LIBRARY ---
+  'library.title': 'Mis Hooks',
+  'library.empty': 'Aún no has guardado ningún hook. Marca con ★ los que te gusten en los resultados.',
+  'library.searchPlaceholder': 'Buscar por texto, nicho, tema o etiqueta...',
+  'library.count': '{shown} de {total} hooks',
+  'library.selected': '{count} seleccionados',
+  'library.clearSelection': 'Quitar selección',
+  'library.select': 'Seleccionar para exportar',
+  'library.tagPlaceholder': '+ etiqueta',
+  'library.removeTag': 'Quitar etiqueta {tag}',
+  'library.error.storage': 'El navegador no tiene espacio para guardar Mis Hooks: el último cambio se perderá al cerrar. Exporta o borra hooks (o historial) para liberar espacio.',
+
+  // --- HISTORY ---
+  'history.title': 'Historial',
+  'history.empty': 'Todavía no has generado hooks. Cada generación aparecerá aquí para retomarla cuando quieras.',
+  'history.audience': 'Audiencia: {audience}',
+  'history.hooks': '{count} hooks',
+  'history.progress': '{loaded} de {total} fórmulas',
+  'history.open': 'Abrir',
+  'history.duplicate': 'Duplicar',
+  'history.manual': 'Relleno manual',
+
+  // --- VOICE PROFILES ---
+  'voices.title': 'Voces de Marca',
+  'voices.intro': 'Guarda el tono de cada cliente y elígelo al generar: se aplica a todos los hooks.',
+  'voices.new': '+ Nueva voz',
+  'voices.empty': 'Aún no has creado ninguna voz de marca.',
+  'voices.name': 'Nombre',
+  'voices.namePlaceholder': 'Ej. Clínica Dental Sonrisa',
+  'voices.description': 'Descripción del tono',
+  'voices.descriptionPlaceholder': 'Ej. Cercano pero profesional, trata de usted, sin jerga...',
+  'voices.dos': 'Sí hacer',
+  'voices.dosPlaceholder': 'Frases cortas\nHablar de resultados concretos',
+  'voices.donts': 'No hacer',
+  'voices.dontsPlaceholder': 'Prometer resultados garantizados\nSonar agresivo',
+  'voices.forbiddenWords': 'Palabras prohibidas',
+  'voices.forbiddenWordsPlaceholder': 'barato\ngratis\ntruco',
+  'voices.exampleHooks': 'Hooks de ejemplo',
+  'voices.exampleHooksPlaceholder': 'Un hook por línea escrito con esta voz',
+  'voices.listHint': 'Un elemento por línea.',
+  'voices.save': 'Guardar voz',
+  'voices.edit': 'Editar',
+  'voices.summary': '{rules} reglas · {forbidden} palabras prohibidas · {examples} ejemplos',
+  'voices.error.storage': 'El navegador no tiene espacio para guardar tus Voces de Marca: el último cambio se perderá al cerrar. Borra hooks (o historial) para liberar espacio.',
+
+  // --- WORKSPACES ---
+  'workspaces.title': 'Espacios de equipo',
+  'workspaces.intro': 'Comparte una biblioteca de hooks y voces de marca con tu equipo. Mientras un espacio está abierto, Mis Hooks y Voces de Marca muestran los del equipo.',
+  'workspaces.list.title': 'Tus espacios',
+  'workspaces.personal': 'Personal',
+  'workspaces.personalHint': 'Guardado solo en este navegador',
+  'workspaces.open': 'Abrir',
+  'workspaces.active': 'Abierto',
+  'workspaces.memberCount': '{count} miembros',
+  'workspaces.create.placeholder': 'Nombre del nuevo espacio',
+  'workspaces.create.submit': 'Crear espacio',
+  'workspaces.role.owner': 'Propietario',
+  'workspaces.role.editor': 'Editor',
+  'workspaces.role.viewer': 'Lector',
+  'workspaces.members.title': 'Miembros de {name} · eres {role}',
+  'workspaces.members.you': '(tú)',
+  'workspaces.members.addedBy': 'Añadido por {email} · {date}',
+  'workspaces.members.created': 'Creó el espacio · {date}',
+  'workspaces.members.remove': 'Quitar',
+  'workspaces.invite.hint': 'Invita por email. Para entrar, la persona necesita además su propio código de acceso.',
+  'workspaces.invite.placeholder': 'email@ejemplo.com',
+  'workspaces.invite.submit': 'Invitar',
+  'workspaces.leave': 'Salir del espacio',
+  'workspaces.delete': 'Eliminar espacio',
+  'workspaces.delete.confirm': 'Pulsa otra vez para eliminarlo con sus hooks, voces y actividad',
+  'workspaces.import.title': 'Traer lo personal',
+  'workspaces.import.hint': 'Copia tus hooks y voces de este navegador al espacio. Lo que ya esté compartido no se duplica.',
+  'workspaces.import.submit': 'Copiar {hooks} hooks y {voices} voces',
+  'workspaces.error.generic': 'No se pudo completar la acción en el espacio. Inténtalo de nuevo.',
+  'workspaces.error.forbidden': 'Tu rol en este espacio no permite hacer eso.',
+  'workspaces.error.notFound': 'Ese espacio ya no existe o ya no eres miembro.',
+  'workspaces.error.lastOwner': 'El espacio necesita al menos un propietario.',
+  'workspaces.error.email': 'Introduce un email válido.',
+  'workspaces.error.name': 'Ponle un nombre de hasta 80 caracteres.',
+  'workspaces.error.full': 'El espacio ha llegado a su límite de hooks o voces.',
+  'activity.title': 'Actividad',
+  'activity.empty': 'Todavía no hay actividad.',
+  'activity.generated': 'generó {count} hooks para {detail}',
+  'activity.savedHook': 'guardó "{detail}"',
+  'activity.editedHook': 'editó "{detail}"',
+  'activity.deletedHook': 'borró "{detail}"',
+  'activity.savedVoice': 'guardó la voz {detail}',
+  'activity.deletedVoice': 'borró la voz {detail}',
+  'activity.imported': 'copió {count} elementos de su biblioteca personal',
+  'activity.addedMember': 'añadió a {detail}',
+  'activity.changedRole': 'cambió el rol: {detail}',
+  'activity.removedMember': 'quitó a {detail}',
+
+  // --- CUSTOM TEMPLATES ---
+  'templates.title': 'Mis Fórmulas',
+  'templates.intro': 'Escribe tus propias fórmulas con huecos entre corchetes: entran en la selección, los filtros y los lotes como las del sistema.',
+  'templates.new': 'Nueva fórmula',
+  'templates.empty': 'Todavía no has creado ninguna fórmula.',
+  'templates.text': 'Fórmula',
+  'templates.textPlaceholder': 'Ej: Deja de [acción] si quieres [resultado] en [tiempo]',
+  'templates.length': '{count}/{max} caracteres',
+  'templates.insert': 'Insertar hueco',
+  'templates.preview': 'Vista previa',
+  'templates.problem.unbalanced': 'Los corchetes no están equilibrados: cada [ necesita su ] y no pueden anidarse.',
+  'templates.problem.emptyPlaceholder': 'Hay un hueco vacío [].',
+  'templates.problem.unknownPlaceholder': '{token} no es un hueco conocido: la IA lo rellenará a su criterio.',
+  'templates.category': 'Categoría',
+  'templates.trigger': 'Disparador',
+  'templates.automatic': 'Automático',
+  'templates.save': 'Guardar fórmula',
+  'templates.edit': 'Editar',
+  'templates.share': 'Compartir',
+  'templates.import': 'Importar',
+  'templates.importPlaceholder': 'Pega aquí el JSON compartido',
+  'templates.importPasted': 'Importar texto',
+  'templates.importFile': 'Desde archivo',
+  'templates.imported': '{count} fórmulas importadas, {skipped} omitidas.',
+  'templates.importInvalid': 'El texto no es un archivo de fórmulas válido.',
+  'templates.exportAll': 'Exportar todas',
+  'templates.customBadge': 'Personalizada',
+  'templates.error.storage': 'El navegador no tiene espacio para guardar Mis Fórmulas: el último cambio se perderá al cerrar. Exporta o borra fórmulas (o historial) para liberar espacio.',
+
+  // --- BULK GENERATION ---
+  'bulk.title': 'Generación por Lotes',
+  'bulk.intro': 'Sube un CSV o pega filas con nicho, tema y audiencia (hasta {max}). Cada fila genera {count} hooks con la plataforma, la voz, las fórmulas y el modo elegidos en el generador.',
+  'bulk.pastePlaceholder': 'nicho;tema;audiencia\nFitness;Dieta keto;Mujeres de 40+\nMarketing;Email marketing;Emprendedores',
+  'bulk.addPasted': 'Añadir filas',
+  'bulk.uploadCsv': 'Subir CSV',
+  'bulk.loaded': '{count} filas añadidas, {skipped} omitidas.',
+  'bulk.run': 'Generar {count} filas',
+  'bulk.clear': 'Vaciar lista',
+  'bulk.retry': 'Reintentar',
+  'bulk.status.pending': 'Pendiente',
+  'bulk.status.queued': 'En cola',
+  'bulk.status.running': 'Generando',
+  'bulk.status.done': 'Listo',
+  'bulk.status.failed': 'Error',
+  'bulk.status.cancelled': 'Cancelado',
+  'bulk.column.hook': 'Hook',
+  'bulk.column.niche': 'Nicho',
+  'bulk.column.audience': 'Audiencia',
+  'bulk.column.formula': 'Fórmula',
+
+  // --- EXPORT ---
+  'export.title': 'Exportar {count} hooks',
+  'export.copyAll': 'Copiar todo',
+  'export.calendar': 'Calendario (.ics)',
+  'export.from': 'Desde',
+  'export.days': 'Días de publicación',
+  'export.time': 'Hora',
+  'export.download': 'Descargar calendario',
+  'export.range': 'Del {first} al {last}',
+  'export.weekdays': 'D,L,M,X,J,V,S', // Sunday first, as in Date#getDay
+  'export.csvHeaders': 'texto,formula,plantilla,nicho,tema,audiencia,etiquetas,guion',
+  'export.eventSummary': 'Publicar: {text}',
+
+  // --- ADMIN ---
+  'admin.title': 'Panel de Administración',
+  'admin.loading': 'Cargando panel...',
+  'admin.error.load': 'No se pudo cargar el panel de administración.',
+  'admin.error.action': 'La acción no se pudo completar. Recarga e intenta de nuevo.',
+  'admin.issue.title': 'Emitir Código',
+  'admin.issue.emailPlaceholder': 'correo@cliente.com',
+  'admin.issue.expires': 'Caduca el',
+  'admin.issue.submit': 'Emitir',
+  'admin.issue.hint': 'La fecha de caducidad también se aplica a los códigos emitidos al aprobar solicitudes. Vacía = sin caducidad.',
+  'admin.issued.code': 'Código',
+  'admin.issued.for': 'emitido para',
+  'admin.copyEmail': 'Copiar correo',
+  'admin.openEmail': 'Abrir en mi correo',
+  'admin.pending.title': 'Solicitudes Pendientes ({count})',
+  'admin.pending.empty': 'No hay solicitudes pendientes.',
+  'admin.approve': 'Aprobar',
+  'admin.reject': 'Rechazar',
+  'admin.codes.title': 'Códigos Emitidos ({count})',
+  'admin.codes.email': 'Correo',
+  'admin.codes.code': 'Código',
+  'admin.codes.uses': 'Usos',
+  'admin.codes.lastUsed': 'Último uso',
+  'admin.codes.expires': 'Caduca',
+  'admin.codes.status': 'Estado',
+  'admin.codes.invitation': 'Correo',
+  'admin.codes.revoke': 'Revocar',
+  'admin.status.revoked': 'Revocado',
+  'admin.status.expired': 'Caducado',
+  'admin.status.active': 'Activo',
+  'admin.usage.title': 'Registro de Accesos',
+  'admin.usage.empty': 'Todavía nadie ha ingresado con un código.',
+  'admin.consumption.title': 'Consumo por Código',
+  'admin.consumption.empty': 'Todavía no hay generaciones registradas.',
+  'admin.consumption.quotas': 'Cuotas por usuario: {daily} al día · {monthly} al mes',
+  'admin.consumption.noQuotas': 'Sin cuotas configuradas: el consumo solo se registra.',
+  'admin.consumption.today': 'Hoy',
+  'admin.consumption.month': 'Mes',
+  'admin.consumption.total': 'Total',
+  'admin.consumption.unlimited': 'sin límite',
+  'admin.decided.title': 'Solicitudes Resueltas',
+  'admin.decided.approved': 'Aprobada ({code})',
+  'admin.decided.rejected': 'Rechazada',
+
+  // --- INVITATION EMAIL ---
+  'invitation.subject': 'Tu acceso a Hook Generator System',
+  'invitation.greeting': '¡Hola!',
+  'invitation.approved': 'Tu solicitud de acceso a Hook Generator System ha sido aprobada.',
+  'invitation.email': 'Correo: {email}',
+  'invitation.code': 'Código de acceso: {code}',
+  'invitation.expires': 'Tu código es válido hasta el {date}.',
+  'invitation.noExpiry': 'Tu código no tiene fecha de caducidad.',
+  'invitation.link': 'Entra aquí: {url}',
+  'invitation.warning': 'El código solo funciona con este correo, no lo compartas.',
+
+  // --- PROMPT VERSIONS ---
+  'prompts.title': 'Prompts de Adaptación',
+  'prompts.intro': 'El prompt que recibe el modelo al adaptar las fórmulas. Cada cambio se guarda como una versión nueva y todas las generaciones usan la versión activa.',
+  'prompts.loading': 'Cargando prompts...',
+  'prompts.error.load': 'No se pudieron cargar los prompts.',
+  'prompts.error.save': 'No se pudo guardar el prompt. Revisa los problemas e intenta de nuevo.',
+  'prompts.error.activate': 'No se pudo activar la versión. Recarga e intenta de nuevo.',
+  'prompts.saved': 'Guardado como v{version}. Compáralo con una prueba A/B o actívalo cuando quieras.',
+  'prompts.activated': 'v{version} es ahora la versión activa.',
+  'prompts.versions.title': 'Versiones ({count})',
+  'prompts.version': 'v{version}',
+  'prompts.builtin': 'Prompt integrado',
+  'prompts.active': 'Activa',
+  'prompts.activate': 'Activar',
+  'prompts.fork': 'Editar copia',
+  'prompts.showBody': 'Ver prompt',
+  'prompts.editor.title': 'Nueva Versión (a partir de v{version})',
+  'prompts.editor.insert': 'Insertar variable',
+  'prompts.editor.body': 'Prompt',
+  'prompts.editor.length': '{count}/{max} caracteres',
+  'prompts.editor.extras': 'Variables propias',
+  'prompts.editor.extrasHint': 'Valores fijos de esta versión, como una marca o una llamada a la acción. Se insertan como las demás variables.',
+  'prompts.editor.extraName': 'nombre',
+  'prompts.editor.extraValue': 'Valor',
+  'prompts.editor.addExtra': '+ Añadir variable',
+  'prompts.editor.note': 'Nota de la versión',
+  'prompts.editor.notePlaceholder': 'Qué cambia y por qué',
+  'prompts.editor.save': 'Guardar como v{version}',
+  'prompts.problem.empty': 'El prompt está vacío.',
+  'prompts.problem.tooLong': 'El prompt supera los {max} caracteres.',
+  'prompts.problem.missingTemplates': 'Falta la variable templates: sin ella el modelo no recibe las fórmulas.',
+  'prompts.problem.unknownVariable': 'La variable "{name}" no existe. Añádela como variable propia o corrígela.',
+  'prompts.problem.invalidVariableName': 'El nombre "{name}" no sirve: usa letras, números y guiones bajos, sin repetir una variable del sistema.',
+  'prompts.variable.niche': 'Nicho del formulario',
+  'prompts.variable.topic': 'Idea principal del formulario',
+  'prompts.variable.audience': 'Audiencia del formulario (o una genérica)',
+  'prompts.variable.platform': 'Descripción de la plataforma elegida',
+  'prompts.variable.context': 'Contexto aceptado en el asistente de nicho (vacío sin contexto)',
+  'prompts.variable.language': 'Idioma y variante regional de salida',
+  'prompts.variable.platformRules': 'Reglas de longitud, estilo y emojis de la plataforma',
+  'prompts.variable.voice': 'Sección de la voz de marca (vacía sin voz)',
+  'prompts.variable.rewrite': 'Sección de las acciones de tarjeta (vacía al generar)',
+  'prompts.variable.templates': 'Las fórmulas a adaptar en JSON (obligatoria)',
+  'prompts.ab.title': 'Prueba A/B',
+  'prompts.ab.intro': 'Adapta las mismas {count} fórmulas con dos versiones, usando el nicho, la idea, la audiencia, la plataforma, la voz y los filtros del generador. Elige la mejor de cada fila y promueve la ganadora.',
+  'prompts.ab.versionA': 'Versión A',
+  'prompts.ab.versionB': 'Versión B',
+  'prompts.ab.run': 'Ejecutar prueba',
+  'prompts.ab.sameVersion': 'Elige dos versiones distintas.',
+  'prompts.ab.template': 'Fórmula',
+  'prompts.ab.wins': 'Gana A: {a} · Gana B: {b} · Empates: {ties}',
+  'prompts.ab.score': 'Puntuación media: A {a} · B {b}',
+  'prompts.ab.promote': 'Promover v{version}',
+
+  // --- FOOTER ---
+  'footer.presentedBy': 'Presentado por',
+};
+
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
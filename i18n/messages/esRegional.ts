@@ -0,0 +1,21 @@
+import { Messages } from './es';
+
+// Regional Spanish only overrides what reads differently there; everything else falls back to neutral Spanish.
+
+export const esMX: Partial<Messages> = {
+  'generator.nichePlaceholder': 'Ej. Fitness, Bienes Raíces, Negocio de comida...',
+  'generator.error.rateLimited': '⏳ Se alcanzó el límite gratuito. Espérate {seconds} segundos y vuelve a intentar.',
+  'request.sent': '¡Listo, solicitud enviada! Te mandamos tu código en cuanto la revisemos.',
+};
+
+export const esES: Partial<Messages> = {
+  'login.heading': '1. Acceder con Código',
+  'login.submit': 'Acceder al Sistema',
+  'login.error.email': 'Por favor, introduce un correo electrónico válido para entrar.',
+  'login.error.code': 'Por favor, introduce tu código de acceso.',
+  'login.error.sessionExpired': 'Tu sesión ha caducado. Vuelve a acceder con tu código.',
+  'generator.nichePlaceholder': 'Ej. Fitness, Inmobiliaria...',
+  'generator.error.missingFields': 'Por favor, rellena el nicho y la idea principal.',
+  'platform.email': 'Asunto del correo',
+  'admin.usage.empty': 'Todavía nadie ha accedido con un código.',
+};
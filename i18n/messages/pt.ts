@@ -0,0 +1,474 @@
+import { Messages } from './es';
+
+export const pt: Messages = {
+  // --- COMMON ---
+  'common.copied': 'Copiado!',
+  'common.delete': 'Excluir',
+  'common.cancel': 'Cancelar',
+  'common.loading': 'Carregando...',
+  'common.language': 'Idioma',
+
+  // --- LOGIN ---
+  'login.title': 'Acesso Exclusivo',
+  'login.heading': '1. Entrar com Código',
+  'login.email': 'Seu E-mail (Cadastrado):',
+  'login.emailPlaceholder': 'exemplo@email.com',
+  'login.code': 'Seu Código de Acesso:',
+  'login.codePlaceholder': 'Código VIP',
+  'login.submit': 'Entrar no Sistema',
+  'login.or': 'Ou',
+  'login.error.email': 'Por favor, informe um e-mail válido para entrar.',
+  'login.error.code': 'Por favor, informe seu código de acesso.',
+  'login.error.invalid': 'Código de acesso incorreto para este e-mail. Verifique ou solicite um novo abaixo.',
+  'login.error.expired': 'Seu código de acesso expirou. Solicite um novo abaixo.',
+  'login.error.revoked': 'Seu código de acesso foi desativado. Fale com a equipe.',
+  'login.error.throttled': 'Muitas tentativas com um código incorreto. Aguarde {minutes} minutos e tente de novo.',
+  'login.error.generic': 'Não conseguimos verificar seu código. Tente de novo em alguns segundos.',
+  'login.error.sessionExpired': 'Sua sessão expirou. Entre de novo com seu código.',
+
+  // --- ACCESS REQUEST ---
+  'request.title': 'Ainda não tem código?',
+  'request.subtitle': 'Solicite grátis enviando seu e-mail para a nossa equipe.',
+  'request.sent': 'Solicitação enviada! Vamos te escrever com seu código assim que a revisarmos.',
+  'request.placeholder': 'Escreva seu e-mail aqui...',
+  'request.sending': 'Enviando...',
+  'request.submit': 'Enviar Solicitação',
+  'request.error': 'Não conseguimos enviar sua solicitação. Confira o e-mail e tente de novo.',
+
+  // --- NAVIGATION ---
+  'nav.generator': 'Gerador',
+  'nav.bulk': 'Lote CSV',
+  'nav.library': 'Meus Hooks ({count})',
+  'nav.history': 'Histórico',
+  'nav.admin': 'Administração',
+  'nav.voices': 'Vozes de Marca',
+  'nav.team': 'Equipe',
+  'nav.teamActive': 'Equipe: {name}',
+  'nav.templates': 'Minhas Fórmulas ({count})',
+  'nav.prompts': 'Prompts',
+  'nav.logout': 'Sair',
+
+  // --- GENERATOR ---
+  'generator.title': 'Configure seu Gerador',
+  'generator.niche': '1. Seu Nicho',
+  'generator.nichePlaceholder': 'Ex. Fitness, Imóveis...',
+  'generator.topic': '2. Ideia / Tema',
+  'generator.topicPlaceholder': 'Ex. Dieta Keto, Vender sem vender...',
+  'generator.audience': '3. Público (Opcional)',
+  'generator.audiencePlaceholder': 'Ex. Iniciantes, Especialistas...',
+  'generator.voice': '4. Voz de Marca (Opcional)',
+  'generator.voiceNone': 'Sem voz de marca',
+  'generator.voiceEmpty': 'Você ainda não tem vozes salvas. Crie-as em "Vozes de Marca".',
+  'generator.platform': '5. Plataforma',
+  'generator.submit': 'Gerar Hooks Virais',
+  'generator.analyzing': 'Analisando...',
+  'generator.error.missingFields': 'Por favor, preencha o nicho e a ideia principal.',
+  'generator.error.noTemplates': 'Nenhuma fórmula corresponde aos filtros selecionados.',
+  'generator.error.failedTemplates': '{count} fórmulas não puderam ser adaptadas e foram puladas.',
+  'generator.error.generic': 'Houve um erro ao gerar os hooks. Por favor, tente de novo.',
+  'generator.error.apiKey': 'Erro de Configuração: falta a API KEY no servidor.',
+  'generator.error.rateLimited': '⏳ Limite gratuito atingido. Aguarde {seconds} segundos e tente de novo.',
+  'generator.error.quotaDaily': '🚦 Você atingiu seu limite diário de uso. Ele se renova em {hours} h.',
+  'generator.error.quotaMonthly': '🚦 Você atingiu seu limite mensal de uso. Ele se renova em {date}.',
+  'usage.today': 'Hoje: {usage}',
+  'usage.month': 'Este mês: {usage}',
+  'usage.requests': '{count} solicitações',
+  'usage.tokens': '{count} tokens',
+
+  // --- NICHE INSIGHTS ---
+  'insights.title': 'Assistente de Nicho',
+  'insights.intro': 'Não sabe sobre o que falar? A partir do seu nicho sugerimos temas, públicos e o que o seu público quer, sofre e odeia fazer.',
+  'insights.suggest': 'Sugerir ideias',
+  'insights.suggestAgain': 'Outras ideias',
+  'insights.loading': 'Buscando ideias...',
+  'insights.for': 'Ideias para "{niche}"',
+  'insights.hint': 'Um tema e um público preenchem o formulário; um valor de cada lacuna é usado como contexto em todos os hooks.',
+  'insights.topics': 'Temas',
+  'insights.audiences': 'Públicos',
+  'insights.accepted': 'Contexto aceito',
+  'insights.remove': 'Remover',
+
+  // --- RESULTS ---
+  'results.title': 'Resultados Adaptados',
+  'results.all': 'Todas',
+  'results.sort': 'Ordenar',
+  'results.sort.template': 'Fórmula',
+  'results.sort.score': 'Pontuação',
+  'results.minScore': 'Pontuação mínima',
+  'results.critique': 'Avaliar com IA',
+  'results.critiquing': 'Avaliando...',
+  'results.critiqueUnavailable': 'O provedor atual não consegue avaliar os hooks. A pontuação usa só as regras locais.',
+  'results.loadMore': 'Carregar mais fórmulas',
+  'results.duplicates': '{count} quase repetidos',
+  'results.duplicates.flag': 'Marcar',
+  'results.duplicates.collapse': 'Ocultar',
+  'results.duplicates.reroll': 'Regenerar repetidos',
+  'results.duplicates.rerolling': 'Regenerando...',
+
+  // --- PLATFORMS ---
+  'platform.generic': 'Geral',
+  'platform.tiktok': 'TikTok',
+  'platform.reels': 'Reels',
+  'platform.shorts': 'YouTube Shorts',
+  'platform.linkedin': 'LinkedIn',
+  'platform.email': 'Assunto de e-mail',
+  'platform.maxChars': 'Máx. {count} caracteres',
+  'platform.style.spoken': 'para falar na câmera',
+  'platform.style.written': 'para ler',
+  'platform.emoji.none': 'sem emojis',
+  'platform.emoji.one': 'máx. 1 emoji',
+  'platform.emoji.free': 'emojis permitidos',
+
+  // --- TEMPLATE FILTERS ---
+  'filters.title': '6. Seleção de Fórmulas',
+  'filters.available': '{count} fórmulas disponíveis',
+  'filters.categories': 'Categorias',
+  'filters.triggers': 'Gatilho Psicológico',
+  'filters.length': 'Tamanho do Hook',
+  'filters.shuffle': 'Ordem aleatória',
+  'filters.source': 'Origem',
+  'filters.source.all': 'Todas',
+  'filters.source.builtin': 'Do sistema',
+  'filters.source.custom': 'Minhas fórmulas',
+
+  // --- MANUAL FILL ---
+  'manual.title': '7. Modo de Preenchimento',
+  'manual.mode.ai': 'Com IA',
+  'manual.mode.manual': 'Manual (sem IA)',
+  'manual.intro': 'Digite o valor de cada lacuna e ele será substituído como está em todas as fórmulas, na hora e sem conexão. Campos vazios usam o valor de exemplo.',
+  'manual.agreementSpanishOnly': 'A concordância de gênero e número só é ajustada em espanhol.',
+  'manual.usage': 'em {count} fórmulas',
+  'manual.noPlaceholders': 'As fórmulas selecionadas não têm lacunas.',
+
+  'category.errores': 'Erros',
+  'category.contrarian': 'Contrarian',
+  'category.listas': 'Listas',
+  'category.historia': 'História pessoal',
+  'category.secretos': 'Segredos e hacks',
+  'category.tutorial': 'Como fazer',
+
+  'trigger.curiosity': 'Curiosidade',
+  'trigger.fear': 'Medo',
+  'trigger.gain': 'Ganho',
+
+  'length.all': 'Qualquer',
+  'length.short': 'Curto',
+  'length.medium': 'Médio',
+  'length.long': 'Longo',
+
+  // --- HOOK CARD ---
+  'hook.formula': 'Fórmula #{id}',
+  'hook.copy': 'Copiar Hook',
+  'hook.save': 'Salvar em Meus Hooks',
+  'hook.unsave': 'Remover de Meus Hooks',
+  'hook.characters': '{count} caracteres',
+  'hook.words': '{count} palavras',
+  'hook.readingTime': '~{seconds} s de leitura',
+  'hook.overLimit': 'Passa do máximo de {max} para {platform}',
+  'hook.forbiddenWords': 'Usa palavras proibidas pela voz: {words}',
+  'hook.duplicate.results': 'Quase igual ({percent}%) a outro hook destes resultados: "{text}"',
+  'hook.duplicate.library': 'Quase igual ({percent}%) a um hook de Meus Hooks: "{text}"',
+  'hook.rewriting': 'Reescrevendo...',
+  'hook.variants': 'Variantes ({count})',
+  'hook.pickVariant': 'Escolher',
+  'hook.discardVariant': 'Descartar variante',
+  'hook.error.rewrite': 'Não foi possível reescrever o hook. Tente de novo.',
+  'hook.score': 'Pontuação',
+  'hook.critique': 'Crítica da IA: {comment}',
+
+  // --- SCORE ---
+  'score.clarity': 'Clareza',
+  'score.specificity': 'Concretude',
+  'score.curiosity': 'Curiosidade',
+  'score.lengthFit': 'Tamanho',
+  'score.originality': 'Originalidade',
+
+  // --- CARD ACTIONS ---
+  'rewrite.regenerate': 'Regenerar',
+  'rewrite.variants': 'Variantes',
+  'rewrite.shorter': 'Mais curto',
+  'rewrite.polemic': 'Mais polêmico',
+  'rewrite.softer': 'Mais suave',
+  'rewrite.previous': 'Anterior',
+
+  // --- SCRIPTS ---
+  'script.expand': 'Roteiro:',
+  'script.rewrite': 'Novo roteiro:',
+  'script.duration': '{seconds} s',
+  'script.writing': 'Escrevendo roteiro...',
+  'script.title': 'Roteiro de {seconds} s',
+  'script.copy': 'Copiar roteiro',
+  'script.hook': 'Hook',
+  'script.point': 'Ponto {number}',
+  'script.cta': 'CTA',
+  'script.onScreen': 'Na tela',
+  'script.bRoll': 'B-roll',
+
+  // --- LIBRARY ---
+  'library.title': 'Meus Hooks',
+  'library.empty': 'Você ainda não salvou nenhum hook. Marque com ★ os que gostar nos resultados.',
+  'library.searchPlaceholder': 'Buscar por texto, nicho, tema ou etiqueta...',
+  'library.count': '{shown} de {total} hooks',
+  'library.selected': '{count} selecionados',
+  'library.clearSelection': 'Limpar seleção',
+  'library.select': 'Selecionar para exportar',
+  'library.tagPlaceholder': '+ etiqueta',
+  'library.removeTag': 'Remover etiqueta {tag}',
+  'library.error.storage': 'O navegador está sem espaço para salvar Meus Hooks: a última alteração será perdida ao fechar. Exporte ou exclua hooks (ou histórico) para liberar espaço.',
+
+  // --- HISTORY ---
+  'history.title': 'Histórico',
+  'history.empty': 'Você ainda não gerou hooks. Cada geração vai aparecer aqui para você retomá-la quando quiser.',
+  'history.audience': 'Público: {audience}',
+  'history.hooks': '{count} hooks',
+  'history.progress': '{loaded} de {total} fórmulas',
+  'history.open': 'Abrir',
+  'history.duplicate': 'Duplicar',
+  'history.manual': 'Preenchimento manual',
+
+  // --- VOICE PROFILES ---
+  'voices.title': 'Vozes de Marca',
+  'voices.intro': 'Salve o tom de cada cliente e escolha-o ao gerar: ele vale para todos os hooks.',
+  'voices.new': '+ Nova voz',
+  'voices.empty': 'Você ainda não criou nenhuma voz de marca.',
+  'voices.name': 'Nome',
+  'voices.namePlaceholder': 'Ex. Clínica Odontológica Sorriso',
+  'voices.description': 'Descrição do tom',
+  'voices.descriptionPlaceholder': 'Ex. Próximo mas profissional, sem jargão...',
+  'voices.dos': 'Fazer',
+  'voices.dosPlaceholder': 'Frases curtas\nFalar de resultados concretos',
+  'voices.donts': 'Não fazer',
+  'voices.dontsPlaceholder': 'Prometer resultados garantidos\nSoar agressivo',
+  'voices.forbiddenWords': 'Palavras proibidas',
+  'voices.forbiddenWordsPlaceholder': 'barato\ngrátis\ntruque',
+  'voices.exampleHooks': 'Hooks de exemplo',
+  'voices.exampleHooksPlaceholder': 'Um hook por linha escrito com esta voz',
+  'voices.listHint': 'Um item por linha.',
+  'voices.save': 'Salvar voz',
+  'voices.edit': 'Editar',
+  'voices.summary': '{rules} regras · {forbidden} palavras proibidas · {examples} exemplos',
+  'voices.error.storage': 'O navegador está sem espaço para salvar suas Vozes de Marca: a última alteração será perdida ao fechar. Exclua hooks (ou histórico) para liberar espaço.',
+
+  // --- WORKSPACES ---
+  'workspaces.title': 'Espaços de equipe',
+  'workspaces.intro': 'Compartilhe uma biblioteca de hooks e vozes de marca com sua equipe. Enquanto um espaço estiver aberto, Meus Hooks e Vozes de Marca mostram os da equipe.',
+  'workspaces.list.title': 'Seus espaços',
+  'workspaces.personal': 'Pessoal',
+  'workspaces.personalHint': 'Salvo só neste navegador',
+  'workspaces.open': 'Abrir',
+  'workspaces.active': 'Aberto',
+  'workspaces.memberCount': '{count} membros',
+  'workspaces.create.placeholder': 'Nome do novo espaço',
+  'workspaces.create.submit': 'Criar espaço',
+  'workspaces.role.owner': 'Proprietário',
+  'workspaces.role.editor': 'Editor',
+  'workspaces.role.viewer': 'Leitor',
+  'workspaces.members.title': 'Membros de {name} · você é {role}',
+  'workspaces.members.you': '(você)',
+  'workspaces.members.addedBy': 'Adicionado por {email} · {date}',
+  'workspaces.members.created': 'Criou o espaço · {date}',
+  'workspaces.members.remove': 'Remover',
+  'workspaces.invite.hint': 'Convide por email. Para entrar, a pessoa ainda precisa do próprio código de acesso.',
+  'workspaces.invite.placeholder': 'email@exemplo.com',
+  'workspaces.invite.submit': 'Convidar',
+  'workspaces.leave': 'Sair do espaço',
+  'workspaces.delete': 'Excluir espaço',
+  'workspaces.delete.confirm': 'Clique de novo para excluí-lo com seus hooks, vozes e atividade',
+  'workspaces.import.title': 'Trazer o pessoal',
+  'workspaces.import.hint': 'Copia seus hooks e vozes deste navegador para o espaço. O que já estiver compartilhado não é duplicado.',
+  'workspaces.import.submit': 'Copiar {hooks} hooks e {voices} vozes',
+  'workspaces.error.generic': 'Não foi possível concluir a ação no espaço. Tente novamente.',
+  'workspaces.error.forbidden': 'Seu papel neste espaço não permite isso.',
+  'workspaces.error.notFound': 'Esse espaço não existe mais ou você não é mais membro.',
+  'workspaces.error.lastOwner': 'O espaço precisa de pelo menos um proprietário.',
+  'workspaces.error.email': 'Digite um email válido.',
+  'workspaces.error.name': 'Dê a ele um nome de até 80 caracteres.',
+  'workspaces.error.full': 'O espaço chegou ao limite de hooks ou vozes.',
+  'activity.title': 'Atividade',
+  'activity.empty': 'Ainda não há atividade.',
+  'activity.generated': 'gerou {count} hooks para {detail}',
+  'activity.savedHook': 'salvou "{detail}"',
+  'activity.editedHook': 'editou "{detail}"',
+  'activity.deletedHook': 'excluiu "{detail}"',
+  'activity.savedVoice': 'salvou a voz {detail}',
+  'activity.deletedVoice': 'excluiu a voz {detail}',
+  'activity.imported': 'copiou {count} itens da biblioteca pessoal',
+  'activity.addedMember': 'adicionou {detail}',
+  'activity.changedRole': 'mudou um papel: {detail}',
+  'activity.removedMember': 'removeu {detail}',
+
+  // --- CUSTOM TEMPLATES ---
+  'templates.title': 'Minhas Fórmulas',
+  'templates.intro': 'Escreva suas próprias fórmulas com lacunas entre colchetes: elas entram na seleção, nos filtros e nos lotes como as do sistema.',
+  'templates.new': 'Nova fórmula',
+  'templates.empty': 'Você ainda não criou nenhuma fórmula.',
+  'templates.text': 'Fórmula',
+  'templates.textPlaceholder': 'Ex: Pare de [ação] se quer [resultado] em [tempo]',
+  'templates.length': '{count}/{max} caracteres',
+  'templates.insert': 'Inserir lacuna',
+  'templates.preview': 'Pré-visualização',
+  'templates.problem.unbalanced': 'Os colchetes não estão equilibrados: cada [ precisa do seu ] e não podem ser aninhados.',
+  'templates.problem.emptyPlaceholder': 'Há uma lacuna vazia [].',
+  'templates.problem.unknownPlaceholder': '{token} não é uma lacuna conhecida: a IA vai preenchê-la a seu critério.',
+  'templates.category': 'Categoria',
+  'templates.trigger': 'Gatilho',
+  'templates.automatic': 'Automático',
+  'templates.save': 'Salvar fórmula',
+  'templates.edit': 'Editar',
+  'templates.share': 'Compartilhar',
+  'templates.import': 'Importar',
+  'templates.importPlaceholder': 'Cole aqui o JSON compartilhado',
+  'templates.importPasted': 'Importar texto',
+  'templates.importFile': 'De arquivo',
+  'templates.imported': '{count} fórmulas importadas, {skipped} ignoradas.',
+  'templates.importInvalid': 'O texto não é um arquivo de fórmulas válido.',
+  'templates.exportAll': 'Exportar todas',
+  'templates.customBadge': 'Personalizada',
+  'templates.error.storage': 'O navegador está sem espaço para salvar Minhas Fórmulas: a última alteração será perdida ao fechar. Exporte ou exclua fórmulas (ou histórico) para liberar espaço.',
+
+  // --- BULK GENERATION ---
+  'bulk.title': 'Geração em Lote',
+  'bulk.intro': 'Envie um CSV ou cole linhas com nicho, tema e público (até {max}). Cada linha gera {count} hooks com a plataforma, a voz, as fórmulas e o modo escolhidos no gerador.',
+  'bulk.pastePlaceholder': 'nicho;tema;público\nFitness;Dieta keto;Mulheres de 40+\nMarketing;Email marketing;Empreendedores',
+  'bulk.addPasted': 'Adicionar linhas',
+  'bulk.uploadCsv': 'Enviar CSV',
+  'bulk.loaded': '{count} linhas adicionadas, {skipped} ignoradas.',
+  'bulk.run': 'Gerar {count} linhas',
+  'bulk.clear': 'Limpar lista',
+  'bulk.retry': 'Tentar de novo',
+  'bulk.status.pending': 'Pendente',
+  'bulk.status.queued': 'Na fila',
+  'bulk.status.running': 'Gerando',
+  'bulk.status.done': 'Pronto',
+  'bulk.status.failed': 'Erro',
+  'bulk.status.cancelled': 'Cancelado',
+  'bulk.column.hook': 'Hook',
+  'bulk.column.niche': 'Nicho',
+  'bulk.column.audience': 'Público',
+  'bulk.column.formula': 'Fórmula',
+
+  // --- EXPORT ---
+  'export.title': 'Exportar {count} hooks',
+  'export.copyAll': 'Copiar tudo',
+  'export.calendar': 'Calendário (.ics)',
+  'export.from': 'A partir de',
+  'export.days': 'Dias de publicação',
+  'export.time': 'Hora',
+  'export.download': 'Baixar calendário',
+  'export.range': 'De {first} a {last}',
+  'export.weekdays': 'D,S,T,Q,Q,S,S',
+  'export.csvHeaders': 'texto,formula,modelo,nicho,tema,publico,etiquetas,roteiro',
+  'export.eventSummary': 'Publicar: {text}',
+
+  // --- ADMIN ---
+  'admin.title': 'Painel de Administração',
+  'admin.loading': 'Carregando painel...',
+  'admin.error.load': 'Não foi possível carregar o painel de administração.',
+  'admin.error.action': 'A ação não pôde ser concluída. Recarregue e tente de novo.',
+  'admin.issue.title': 'Emitir Código',
+  'admin.issue.emailPlaceholder': 'email@cliente.com',
+  'admin.issue.expires': 'Expira em',
+  'admin.issue.submit': 'Emitir',
+  'admin.issue.hint': 'A data de expiração também vale para os códigos emitidos ao aprovar solicitações. Vazia = sem expiração.',
+  'admin.issued.code': 'Código',
+  'admin.issued.for': 'emitido para',
+  'admin.copyEmail': 'Copiar e-mail',
+  'admin.openEmail': 'Abrir no meu e-mail',
+  'admin.pending.title': 'Solicitações Pendentes ({count})',
+  'admin.pending.empty': 'Não há solicitações pendentes.',
+  'admin.approve': 'Aprovar',
+  'admin.reject': 'Recusar',
+  'admin.codes.title': 'Códigos Emitidos ({count})',
+  'admin.codes.email': 'E-mail',
+  'admin.codes.code': 'Código',
+  'admin.codes.uses': 'Usos',
+  'admin.codes.lastUsed': 'Último uso',
+  'admin.codes.expires': 'Expira',
+  'admin.codes.status': 'Status',
+  'admin.codes.invitation': 'E-mail',
+  'admin.codes.revoke': 'Revogar',
+  'admin.status.revoked': 'Revogado',
+  'admin.status.expired': 'Expirado',
+  'admin.status.active': 'Ativo',
+  'admin.usage.title': 'Registro de Acessos',
+  'admin.usage.empty': 'Ninguém entrou com um código ainda.',
+  'admin.consumption.title': 'Consumo por Código',
+  'admin.consumption.empty': 'Ainda não há gerações registradas.',
+  'admin.consumption.quotas': 'Cotas por usuário: {daily} por dia · {monthly} por mês',
+  'admin.consumption.noQuotas': 'Sem cotas configuradas: o consumo é apenas registrado.',
+  'admin.consumption.today': 'Hoje',
+  'admin.consumption.month': 'Mês',
+  'admin.consumption.total': 'Total',
+  'admin.consumption.unlimited': 'sem limite',
+  'admin.decided.title': 'Solicitações Resolvidas',
+  'admin.decided.approved': 'Aprovada ({code})',
+  'admin.decided.rejected': 'Recusada',
+
+  // --- INVITATION EMAIL ---
+  'invitation.subject': 'Seu acesso ao Hook Generator System',
+  'invitation.greeting': 'Olá!',
+  'invitation.approved': 'Sua solicitação de acesso ao Hook Generator System foi aprovada.',
+  'invitation.email': 'Email: {email}',
+  'invitation.code': 'Código de acesso: {code}',
+  'invitation.expires': 'Seu código é válido até {date}.',
+  'invitation.noExpiry': 'Seu código não tem data de validade.',
+  'invitation.link': 'Entre aqui: {url}',
+  'invitation.warning': 'O código só funciona com este email, não o compartilhe.',
+
+  // --- PROMPT VERSIONS ---
+  'prompts.title': 'Prompts de Adaptação',
+  'prompts.intro': 'O prompt que o modelo recebe ao adaptar as fórmulas. Cada alteração é salva como uma nova versão e todas as gerações usam a versão ativa.',
+  'prompts.loading': 'Carregando prompts...',
+  'prompts.error.load': 'Não foi possível carregar os prompts.',
+  'prompts.error.save': 'Não foi possível salvar o prompt. Revise os problemas e tente de novo.',
+  'prompts.error.activate': 'Não foi possível ativar a versão. Recarregue e tente de novo.',
+  'prompts.saved': 'Salvo como v{version}. Compare-o em um teste A/B ou ative-o quando quiser.',
+  'prompts.activated': 'v{version} agora é a versão ativa.',
+  'prompts.versions.title': 'Versões ({count})',
+  'prompts.version': 'v{version}',
+  'prompts.builtin': 'Prompt integrado',
+  'prompts.active': 'Ativa',
+  'prompts.activate': 'Ativar',
+  'prompts.fork': 'Editar cópia',
+  'prompts.showBody': 'Ver prompt',
+  'prompts.editor.title': 'Nova Versão (a partir da v{version})',
+  'prompts.editor.insert': 'Inserir variável',
+  'prompts.editor.body': 'Prompt',
+  'prompts.editor.length': '{count}/{max} caracteres',
+  'prompts.editor.extras': 'Variáveis próprias',
+  'prompts.editor.extrasHint': 'Valores fixos desta versão, como uma marca ou uma chamada para ação. São inseridas como as demais variáveis.',
+  'prompts.editor.extraName': 'nome',
+  'prompts.editor.extraValue': 'Valor',
+  'prompts.editor.addExtra': '+ Adicionar variável',
+  'prompts.editor.note': 'Nota da versão',
+  'prompts.editor.notePlaceholder': 'O que muda e por quê',
+  'prompts.editor.save': 'Salvar como v{version}',
+  'prompts.problem.empty': 'O prompt está vazio.',
+  'prompts.problem.tooLong': 'O prompt ultrapassa {max} caracteres.',
+  'prompts.problem.missingTemplates': 'Falta a variável templates: sem ela o modelo não recebe as fórmulas.',
+  'prompts.problem.unknownVariable': 'A variável "{name}" não existe. Adicione-a como variável própria ou corrija-a.',
+  'prompts.problem.invalidVariableName': 'O nome "{name}" não serve: use letras, números e sublinhados, sem repetir uma variável do sistema.',
+  'prompts.variable.niche': 'Nicho do formulário',
+  'prompts.variable.topic': 'Ideia principal do formulário',
+  'prompts.variable.audience': 'Público do formulário (ou um genérico)',
+  'prompts.variable.platform': 'Descrição da plataforma escolhida',
+  'prompts.variable.context': 'Contexto aceito no assistente de nicho (vazio sem contexto)',
+  'prompts.variable.language': 'Idioma e variante regional de saída',
+  'prompts.variable.platformRules': 'Regras de tamanho, estilo e emojis da plataforma',
+  'prompts.variable.voice': 'Seção da voz da marca (vazia sem voz)',
+  'prompts.variable.rewrite': 'Seção das ações do cartão (vazia ao gerar)',
+  'prompts.variable.templates': 'As fórmulas a adaptar em JSON (obrigatória)',
+  'prompts.ab.title': 'Teste A/B',
+  'prompts.ab.intro': 'Adapta as mesmas {count} fórmulas com duas versões, usando o nicho, a ideia, o público, a plataforma, a voz e os filtros do gerador. Escolha a melhor de cada linha e promova a vencedora.',
+  'prompts.ab.versionA': 'Versão A',
+  'prompts.ab.versionB': 'Versão B',
+  'prompts.ab.run': 'Executar teste',
+  'prompts.ab.sameVersion': 'Escolha duas versões diferentes.',
+  'prompts.ab.template': 'Fórmula',
+  'prompts.ab.wins': 'A vence: {a} · B vence: {b} · Empates: {ties}',
+  'prompts.ab.score': 'Pontuação média: A {a} · B {b}',
+  'prompts.ab.promote': 'Promover v{version}',
+
+  // --- FOOTER ---
+  'footer.presentedBy': 'Apresentado por',
+};
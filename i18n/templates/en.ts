@@ -0,0 +1,200 @@
+// Native English versions of RAW_HOOKS. Same numbering; each entry must use the same placeholders as the original.
+export const RAW_HOOKS_EN = [
+  "1. [number] [topic] tricks I wish I'd known sooner.",
+  "2. Nobody is talking about this [topic] strategy (and that's why you're not growing).",
+  "3. Why your [topic] strategy isn't working (and how to fix it).",
+  "4. The [topic] hack almost nobody knows that gives you a brutal edge.",
+  "5. How to get [result] without having to [thing your audience hates doing].",
+  "6. How to get [result] in just [time] a day, without burning out.",
+  "7. Steal this strategy I use to get [result] with [topic].",
+  "8. [number] key moves to get [result] with [topic].",
+  "9. How I got [result] in just [time] using this tactic.",
+  "10. [topic] tips that work so well they almost feel illegal.",
+  "11. [number] tips to get [result] much faster with [topic].",
+  "12. [topic] mistakes that are costing you [result] without you noticing.",
+  "13. [number] signs you're ready to get [result] with [topic].",
+  "14. I bet you didn't know these [topic] tips (and that's why you're not scaling).",
+  "15. Stop making this [topic] mistake if you really want to grow.",
+  "16. Never [action to get result] again before doing this first.",
+  "17. Stop [action your audience takes] if you really want [result].",
+  "18. Copy this simple [topic] hack to get [result] without overcomplicating it.",
+  "19. The [topic] strategy you need to know before you post again.",
+  "20. [number] clear steps to get [result] with [topic], starting today.",
+  "21. [topic] strategies nobody is talking about that get real results.",
+  "22. [topic] mistakes nobody tells you about that are holding back your growth.",
+  "23. Don't make these [topic] mistakes unless you want to throw your effort away.",
+  "24. The real reason you still aren't getting [result] with [topic].",
+  "25. How to go from [negative situation] to [positive situation] with [topic].",
+  "26. [number] red flags in your [topic] strategy that explain why you're not growing.",
+  "27. Exactly what to do when [negative result] happens with [topic].",
+  "28. 3 things that will completely transform your [topic] results.",
+  "29. Why I stopped [action I used to take] to get [result] (and what I do now).",
+  "30. Stop [action your audience takes]. Here's why it's holding you back.",
+  "31. The things I do [frequency: every day/week] to make sure I get [result].",
+  "32. The best [topic] strategies I use to skyrocket [result].",
+  "33. [number] signs you're actually doing [topic] right.",
+  "34. Unpopular opinion: [action everyone recommends] could be causing [negative result].",
+  "35. Are you making these [topic] mistakes without realizing it?",
+  "36. Why you don't need [action] to get real [result].",
+  "37. How to fix that [negative result] that keeps happening with [topic].",
+  "38. Fix your [negative result] in [number] simple steps (even if you've tried everything).",
+  "39. Struggling to get [result]? Here's what's going on.",
+  "40. This is why [action you take] isn't getting you results.",
+  "41. How to stop struggling with [problem] once and for all.",
+  "42. 5 easy tips to improve your [topic] today.",
+  "43. How to get [result] almost instantly with this [topic] tweak.",
+  "44. This is your reminder to [action you should take] if you really want [result].",
+  "45. [number] reasons you should start [action] today.",
+  "46. 5 things I learned trying to get [result] (so you don't repeat my mistakes).",
+  "47. Want to get [result]? Start here.",
+  "48. This is how I do [task] as a [identity/profession].",
+  "49. Stop [task everyone does] if you really want to get [result].",
+  "50. This is killing your [topic] results and almost nobody notices.",
+  "51. How to never suffer [negative result] again with [topic].",
+  "52. Everything you need to know about [topic] in just [time].",
+  "53. [option] vs [option] for [topic]… which one should you choose?",
+  "54. My [number] best [topic] strategies to get [result].",
+  "55. Why [action] is the key to getting [result].",
+  "56. [number] things you should do and [number] you should NOT if you want to avoid [negative result] with [topic].",
+  "57. The worst kind of [topic] advice, the kind that ends up leading you to [negative result].",
+  "58. The ultimate guide to mastering [topic] without wasting hours on trial and error.",
+  "59. Why you always end up with [negative result] with [topic] and how to turn it into [positive result].",
+  "60. [number] deadly mistakes to avoid in [topic] if you want serious results.",
+  "61. Exactly what to do when you face [negative result] in [topic] again.",
+  "62. A 30-day plan to get [result] with [topic] starting from scratch.",
+  "63. Do this every day if you want to get [result] with [topic].",
+  "64. How to make [topic] work for you instead of chasing results all the time.",
+  "65. The worst advice I've ever heard about [topic] and why you should ignore it.",
+  "66. How I got [result] thanks to [task] that almost nobody does.",
+  "67. I went from [negative situation] to [desired result] in [time] using this approach.",
+  "68. Never [action] again before doing this first if you want [result].",
+  "69. 5 things you should do when [negative result] happens with [topic].",
+  "70. Could [action everyone recommends] be sabotaging your [desired result]?",
+  "71. The real weekly routine of a [identity/profession] who gets [result].",
+  "72. You don't have to [action] to get [result], and here's the proof.",
+  "73. How to 5x your [desired results] in [time] with [topic].",
+  "74. 3 things I always do before [action] to make sure I get [result].",
+  "75. [topic] tips that 10x your results if you apply them right.",
+  "76. What to fix when you're not getting [desired result] with [topic].",
+  "77. [number] red flags in your [topic] that explain why you're not growing.",
+  "78. [number] things you should know about [topic] before creating more content.",
+  "79. Want to get [result] fast? Watch this before you film your next video.",
+  "80. A simple trick to improve your [desired results] with [topic] starting today.",
+  "81. 3 things I NEVER do if I want to get [result] with [topic].",
+  "82. If I were starting from scratch today, this would be my plan to get [result] with [topic].",
+  "83. Before you give up on [topic], try this first.",
+  "84. The truth: [task everyone thinks matters] isn't that key to getting [result].",
+  "85. How to get [result] this year with [topic] without making your life harder.",
+  "86. If you're struggling to get [result], watch this before you give up.",
+  "87. [number] [topic] rules that guide EVERYTHING I do.",
+  "88. Stuck in [negative situation]? Try this instead.",
+  "89. The one change that made me start getting [result].",
+  "90. If you're not getting [result], check this first.",
+  "91. The truth about getting [result] without having to [thing people hate doing].",
+  "92. Why you need to start [action that matters] if you really want [result].",
+  "93. The best [topic] advice I've ever followed.",
+  "94. [number] lessons I learned as a [identity/profession] in [topic].",
+  "95. This is my daily checklist to make sure I get [result].",
+  "96. Hacks every [identity/profession] should know to get better at [topic].",
+  "97. 3 tips to overcome [problem] with [topic] without losing your mind.",
+  "98. [number] [topic] strategies that NO longer work this year.",
+  "99. 5 actions you should add to your [topic] if you want to get [result].",
+  "100. [number] things that will lead you straight to [negative result] if you keep going like this with [topic].",
+  "101. [number] [topic] tips that took me from [negative situation] to [positive situation].",
+  "102. [strategy name] isn't the only way to get [result], and I'm going to prove it.",
+  "103. That classic “[generic advice]” tip is a bad idea in [topic].",
+  "104. I stopped [task everyone does] and started getting [result].",
+  "105. This mistake is hurting your [desired result] and almost nobody tells you.",
+  "106. This is the fastest strategy I've tried to get [result].",
+  "107. The easiest way to get [result] with [topic] that actually works.",
+  "108. How I get [result] without having to [thing everyone hates doing].",
+  "109. How to make [topic] work in your favor instead of being a waste of time.",
+  "110. [topic] tips you'll wish you'd known much sooner.",
+  "111. Do this when [problem] happens with [topic].",
+  "112. My ultimate guide to building a [topic] strategy that actually works.",
+  "113. How I design a [topic] strategy that turns into [result].",
+  "114. 4 ways to guarantee you DON'T get [result] with [topic].",
+  "115. The best [topic] strategy for this year if you want to grow faster.",
+  "116. How to get [result] even when you're in the middle of [negative situation].",
+  "117. Things I did NOT do and still got [result] with [topic].",
+  "118. A [number]-step plan to never suffer [problem] again.",
+  "119. [number] smart ways to respond when [negative result] happens.",
+  "120. 3 [topic] tips nobody talks about that change the game.",
+  "121. I tried [action to get result] and this is what really happened.",
+  "122. The truth behind getting [result] in [time] (it's not what you think).",
+  "123. How to get [result] even if you're in [negative situation].",
+  "124. The best tip to get started with [topic] even as a beginner.",
+  "125. I was wrong about [topic] and here's why.",
+  "126. Why doing [task almost nobody does] is great for getting [result].",
+  "127. I used [famous person]'s strategy to get [result] and this happened.",
+  "128. 7 lessons I learned trying to [action to get result].",
+  "129. [topic] tips every [identity/profession] should apply, no exceptions.",
+  "130. The strategy [famous person] used to get [result] (and how to adapt it).",
+  "131. Don't ignore this [topic] strategy this year if you want to get [result].",
+  "132. [number] things that are killing your [desired results] with [topic].",
+  "133. I tripled my [desired results] with just this one change.",
+  "134. If I had to get [result] from scratch again, I'd do this.",
+  "135. How I got [result] thanks to [action I took].",
+  "136. Why [number]% of people fail at [topic] and how to avoid it.",
+  "137. [number] ways to take your [topic] strategy to the next level.",
+  "138. Steal this simple [topic] strategy to get [result] faster.",
+  "139. The old way vs the new way to get [result] with [topic].",
+  "140. [number] key resources to master [topic] without wasting time.",
+  "141. [topic] hacks that work so well they seem unreal.",
+  "142. Never do [topic] again without first doing [action that matters] if you want [result].",
+  "143. [topic] mistakes I discovered too late (don't repeat them).",
+  "144. The truth about getting [result]… it's not what you've been told.",
+  "145. The [number] biggest myths about [topic] that are holding you back.",
+  "146. Underrated [topic] tips nobody talks about that make a real difference.",
+  "147. How to get started with [topic] without going through [pain point].",
+  "148. [problem]? Maybe you should try this first.",
+  "149. “[strategy name]” is dead. Do this instead if you want results.",
+  "150. The worst advice for getting started with [topic] that I hear all the time.",
+  "151. Avoid [action] this year if you seriously want to get [result].",
+  "152. How to make [topic] 10 times easier to handle.",
+  "153. Types of [task/action] you can do to get [result] with [topic].",
+  "154. Why you don't need to follow the classic “[generic advice]” tip in [topic].",
+  "155. [number] reasons you keep having [problem] with [topic].",
+  "156. Stop doing [topic] this way if you want to stop wasting time and money.",
+  "157. The best [topic] strategy to win this year in your industry.",
+  "158. The real secret behind my [topic] results.",
+  "159. [task] vs [task]… which one really gets you better results?",
+  "160. Is [topic] worth it this year or are you too late?",
+  "161. [number] lessons you need to learn about [topic] if you want to improve fast.",
+  "162. [number] things more important than [action] if you want to get [result].",
+  "163. 5 signs your [topic] strategy needs an urgent reset.",
+  "164. You've been doing [topic] wrong this whole time.",
+  "165. Don't try to get [result] until you do these things first.",
+  "166. [number] [topic] tips that completely changed the way I do things.",
+  "167. [number] things I learned the hard way doing [topic].",
+  "168. Don't miss this [topic] trick if you want to get [result].",
+  "169. How to use [tool/resource] to get [result] with [topic].",
+  "170. I got way more [results] with this small tweak.",
+  "171. [number] things you should stop doing in [topic] right now.",
+  "172. [number] [topic] rules you need to know before going any further.",
+  "173. Why doing [task] is actually hurting your [results].",
+  "174. How to become a [desired identity/profession] this year using [topic].",
+  "175. How [topic] really works when applied to [industry/specific audience].",
+  "176. 5 signs you're failing at [topic] and need to change your approach.",
+  "177. Before getting started with [topic], check this first.",
+  "178. How to skyrocket your [results] instantly with a single tweak.",
+  "179. The most powerful [topic] strategy to get [result].",
+  "180. 3 best practices I used to get [specific result].",
+  "181. This is what I did to solve [problem] with [topic].",
+  "182. How to turn [negative situation] into [positive situation] with [topic].",
+  "183. Do these [number] things for 30 days and you'll see [result].",
+  "184. [topic] strategies you can try when nothing is working.",
+  "185. [topic] strategies that always work when you apply them right.",
+  "186. My favorite combo to go from [negative result] to [positive result] using [topic].",
+  "187. I got [result] in [time] by applying this to [topic].",
+  "188. The ultimate guide for beginners who want to get started with [topic].",
+  "189. [topic] has completely changed this year and here's how you need to adapt.",
+  "190. You'll never get [result] if you don't do this first.",
+  "191. [topic] trends you should try this year if you want to get ahead.",
+  "192. How I got [result] spending just [time] a day on [topic].",
+  "193. 3 resources I use to take my [topic] to the next level.",
+  "194. What happens if you [action to get result] and it doesn't work? Here's the answer.",
+  "195. Doing [action to get result] won't help you get [result], and here's why.",
+  "196. The biggest lie about [topic] that almost nobody questions.",
+  "197. My favorite resources to get [result] with [topic] faster."
+];
@@ -0,0 +1,200 @@
+// Native Portuguese (Brazil) versions of RAW_HOOKS. Same numbering; each entry must use the same placeholders as the original.
+export const RAW_HOOKS_PT = [
+  "1. [número] truques de [tema] que eu queria ter sabido antes.",
+  "2. Ninguém está falando dessa estratégia de [tema] (e é por isso que você não cresce).",
+  "3. Por que sua estratégia de [tema] não está funcionando (e como consertar).",
+  "4. O hack de [tema] que quase ninguém conhece e te dá uma vantagem brutal.",
+  "5. Como conseguir [resultado] sem ter que [coisa que sua audiência odeia fazer].",
+  "6. Como conseguir [resultado] com apenas [tempo] por dia, sem se esgotar.",
+  "7. Roube esta estratégia que eu uso para conseguir [resultado] com [tema].",
+  "8. [número] movimentos-chave para alcançar [resultado] com [tema].",
+  "9. Como consegui [resultado] em apenas [tempo] usando esta tática.",
+  "10. Dicas de [tema] que funcionam tão bem que parecem ilegais.",
+  "11. [número] dicas para conseguir [resultado] muito mais rápido com [tema].",
+  "12. Erros em [tema] que estão te custando [resultado] sem você perceber.",
+  "13. [número] sinais de que você já está pronto para alcançar [resultado] com [tema].",
+  "14. Aposto que você não conhecia essas dicas de [tema] (e é por isso que não escala).",
+  "15. Pare de cometer este erro com [tema] se você quer crescer de verdade.",
+  "16. Não volte a [ação para alcançar resultado] antes de fazer isto primeiro.",
+  "17. Pare de [ação típica da sua audiência] se você realmente quer [resultado].",
+  "18. Copie este hack simples de [tema] para conseguir [resultado] sem complicação.",
+  "19. A estratégia de [tema] que você precisa conhecer antes de continuar postando.",
+  "20. [número] passos claros para alcançar [resultado] com [tema], começando hoje.",
+  "21. Estratégias de [tema] que ninguém comenta, mas que dão resultados reais.",
+  "22. Erros em [tema] que ninguém te conta e que travam seu crescimento.",
+  "23. Não cometa estes erros em [tema] se não quer jogar seu esforço no lixo.",
+  "24. O verdadeiro motivo pelo qual você ainda não consegue [resultado] com [tema].",
+  "25. Como passar de [situação negativa] para [situação positiva] com [tema].",
+  "26. [número] red flags na sua estratégia de [tema] que explicam por que você não cresce.",
+  "27. O que fazer exatamente quando acontece [resultado negativo] com [tema].",
+  "28. 3 coisas que vão transformar completamente seus resultados com [tema].",
+  "29. Por que parei de [ação que eu fazia] para conseguir [resultado] (e o que faço agora).",
+  "30. Pare de [ação que sua audiência faz]. Eu explico por que isso está te travando.",
+  "31. As coisas que faço [frequência: todo dia/semana] para garantir que vou alcançar [resultado].",
+  "32. As melhores estratégias de [tema] que uso para disparar [resultado].",
+  "33. [número] sinais de que você realmente está indo bem com [tema].",
+  "34. Opinião impopular: fazer [ação que todos recomendam] pode estar causando [resultado negativo].",
+  "35. Você está cometendo estes erros de [tema] sem perceber?",
+  "36. Por que você não precisa [ação típica] para conseguir [resultado] de verdade.",
+  "37. Como resolver aquele [resultado negativo] que sempre se repete com [tema].",
+  "38. Resolva seu [resultado negativo] em [número] passos simples (mesmo que já tenha tentado de tudo).",
+  "39. Está difícil conseguir [resultado]? Veja o que está acontecendo.",
+  "40. Este é o motivo pelo qual [ação que você faz] não está te dando resultados.",
+  "41. Como parar de sofrer com [problema] de uma vez por todas.",
+  "42. 5 dicas fáceis para melhorar seu [tema] hoje mesmo.",
+  "43. Como conseguir [resultado] quase na hora com este ajuste em [tema].",
+  "44. Este é seu lembrete para [ação que você deveria fazer] se realmente quer [resultado].",
+  "45. [número] motivos pelos quais você deveria começar a [ação concreta] hoje.",
+  "46. 5 coisas que aprendi tentando conseguir [resultado] (para você não repetir meus erros).",
+  "47. Quer conseguir [resultado]? Comece por isto.",
+  "48. É assim que eu faço [tarefa] sendo [identidade/profissão].",
+  "49. Pare de [tarefa que todos fazem] se você quer mesmo conseguir [resultado].",
+  "50. Isto está matando seus resultados com [tema] e quase ninguém percebe.",
+  "51. Como nunca mais sofrer com [resultado negativo] em [tema].",
+  "52. Tudo o que você precisa saber sobre [tema] em apenas [tempo].",
+  "53. [opção] vs [opção] para [tema]… qual você deveria escolher?",
+  "54. Minhas [número] melhores estratégias de [tema] para conseguir [resultado].",
+  "55. Por que [ação específica] é a chave para alcançar [resultado].",
+  "56. [número] coisas que você deve fazer e [número] que NÃO, se quer evitar [resultado negativo] com [tema].",
+  "57. O pior tipo de conselho sobre [tema], que acaba te levando a [resultado negativo].",
+  "58. O guia definitivo para dominar [tema] sem perder horas testando no escuro.",
+  "59. Por que você sempre acaba em [resultado negativo] com [tema] e como virar o jogo para [resultado positivo].",
+  "60. [número] erros fatais que você deve evitar em [tema] se quer resultados sérios.",
+  "61. O que fazer exatamente quando você enfrenta de novo [resultado negativo] em [tema].",
+  "62. Plano de 30 dias para alcançar [resultado] com [tema] começando do zero.",
+  "63. Faça isto todos os dias se quer conseguir [resultado] com [tema].",
+  "64. Como fazer [tema] trabalhar para você, em vez de você correr atrás de resultados o tempo todo.",
+  "65. O pior conselho que já ouvi sobre [tema] e por que você deveria ignorá-lo.",
+  "66. Como consegui [resultado] graças a [tarefa concreta] que quase ninguém faz.",
+  "67. Passei de [situação negativa] para [resultado desejado] em [tempo] usando esta abordagem.",
+  "68. Não volte a [ação típica] antes de fazer isto primeiro se quer [resultado].",
+  "69. 5 coisas que você deveria fazer quando acontecer [resultado negativo] com [tema].",
+  "70. Será que [ação que todos recomendam] está sabotando seu [resultado desejado]?",
+  "71. Esta é a rotina semanal real de um(a) [identidade/profissão] que consegue [resultado].",
+  "72. Você não precisa [ação típica] para alcançar [resultado], e aqui está a prova.",
+  "73. Como multiplicar por 5 seus [resultados desejados] em [tempo] com [tema].",
+  "74. 3 coisas que sempre faço antes de [ação] para garantir que vou conseguir [resultado].",
+  "75. Dicas de [tema] que multiplicam por 10 seus resultados se você aplicar bem.",
+  "76. O que você precisa corrigir quando não está conseguindo [resultado desejado] com [tema].",
+  "77. [número] red flags no seu [tema] que explicam por que você não está crescendo.",
+  "78. [número] coisas que você deveria saber sobre [tema] antes de continuar criando conteúdo.",
+  "79. Quer conseguir [resultado] rápido? Veja isto antes de gravar seu próximo vídeo.",
+  "80. Um truque simples para melhorar seus [resultados desejados] com [tema] a partir de hoje.",
+  "81. 3 coisas que NUNCA faço se quero alcançar [resultado] com [tema].",
+  "82. Se eu começasse do zero hoje, este seria meu plano para conseguir [resultado] com [tema].",
+  "83. Antes de desistir de [tema], teste isto primeiro.",
+  "84. A verdade: [tarefa que todos acham importante] não é tão essencial para alcançar [resultado].",
+  "85. Como conseguir [resultado] este ano com [tema] sem complicar sua vida.",
+  "86. Se está difícil conseguir [resultado], veja isto antes de desistir.",
+  "87. [número] regras de [tema] que guiam TUDO o que eu faço.",
+  "88. Travado em [situação negativa]? Tente isto no lugar.",
+  "89. A única mudança que me fez começar a conseguir [resultado].",
+  "90. Se você não consegue [resultado], revise isto primeiro.",
+  "91. A verdade sobre conseguir [resultado] sem ter que [coisa que as pessoas odeiam fazer].",
+  "92. Por que você precisa começar a [ação-chave] se realmente quer [resultado].",
+  "93. O melhor conselho sobre [tema] que já segui na vida.",
+  "94. [número] lições que aprendi sendo [identidade/profissão] em [tema].",
+  "95. Este é meu checklist diário para garantir que vou alcançar [resultado].",
+  "96. Hacks que todo(a) [identidade/profissão] deveria conhecer para melhorar em [tema].",
+  "97. 3 dicas para superar [problema] com [tema] sem perder a cabeça.",
+  "98. [número] estratégias de [tema] que NÃO funcionam mais este ano.",
+  "99. 5 ações que você deveria adicionar ao seu [tema] se quer alcançar [resultado].",
+  "100. [número] coisas que vão te levar direto a [resultado negativo] se você continuar assim com [tema].",
+  "101. [número] dicas de [tema] que me fizeram passar de [situação negativa] para [situação positiva].",
+  "102. [nome da estratégia] não é a única forma de conseguir [resultado], e eu vou te provar.",
+  "103. Aquele conselho clássico de “[conselho genérico]” é uma má ideia em [tema].",
+  "104. Parei de [tarefa que todos fazem] e comecei a conseguir [resultado].",
+  "105. Este erro está prejudicando seu [resultado desejado] e quase ninguém te conta.",
+  "106. Esta é a estratégia mais rápida que já testei para conseguir [resultado].",
+  "107. A forma mais fácil de alcançar [resultado] com [tema] que realmente funciona.",
+  "108. Como consigo [resultado] sem ter que [coisa que todo mundo odeia fazer].",
+  "109. Como fazer [tema] trabalhar a seu favor em vez de ser uma perda de tempo.",
+  "110. Dicas de [tema] que você vai desejar ter conhecido muito antes.",
+  "111. Faça isto quando acontecer [problema] com [tema].",
+  "112. Meu guia definitivo para criar uma estratégia de [tema] que funciona de verdade.",
+  "113. Como eu desenho uma estratégia de [tema] que se converte em [resultado].",
+  "114. 4 formas de garantir que você NÃO consiga [resultado] com [tema].",
+  "115. A melhor estratégia de [tema] para este ano se você quer crescer mais rápido.",
+  "116. Como alcançar [resultado] mesmo quando você está no meio de [situação negativa].",
+  "117. Coisas que NÃO fiz e mesmo assim alcancei [resultado] com [tema].",
+  "118. Plano de [número] passos para nunca mais sofrer com [problema].",
+  "119. [número] formas inteligentes de reagir quando acontecer [resultado negativo].",
+  "120. 3 conselhos sobre [tema] de que ninguém fala e que mudam o jogo.",
+  "121. Testei [ação para alcançar resultado] e foi isto que aconteceu de verdade.",
+  "122. A verdade por trás de conseguir [resultado] em [tempo] (não é o que você imagina).",
+  "123. Como alcançar [resultado] mesmo se você está em [situação negativa].",
+  "124. A melhor dica para começar com [tema] mesmo sendo iniciante.",
+  "125. Eu estava errado(a) sobre [tema] e aqui te conto por quê.",
+  "126. Por que fazer [tarefa pouco comum] é ótimo para conseguir [resultado].",
+  "127. Usei a estratégia de [pessoa famosa] para conseguir [resultado] e isto aconteceu.",
+  "128. 7 lições que aprendi tentando [ação para alcançar resultado].",
+  "129. Dicas de [tema] que qualquer [identidade/profissão] deveria aplicar, sem exceção.",
+  "130. A estratégia que [pessoa famosa] usou para alcançar [resultado] (e como adaptá-la).",
+  "131. Não ignore esta estratégia de [tema] este ano se quer conseguir [resultado].",
+  "132. [número] coisas que estão matando seus [resultados desejados] com [tema].",
+  "133. Multipliquei por 3 meus [resultados desejados] fazendo só esta mudança.",
+  "134. Se eu tivesse que alcançar [resultado] do zero outra vez, faria isto.",
+  "135. Como consegui [resultado] graças a [ação específica que você fez].",
+  "136. Por que [número]% das pessoas fracassam com [tema] e como evitar isso.",
+  "137. [número] formas de levar sua estratégia de [tema] para o próximo nível.",
+  "138. Roube esta estratégia simples de [tema] para conseguir [resultado] mais rápido.",
+  "139. O jeito antigo vs o novo de conseguir [resultado] com [tema].",
+  "140. [número] recursos-chave para dominar [tema] sem perder tempo.",
+  "141. Hacks de [tema] que parecem mentira de tão bem que funcionam.",
+  "142. Nunca mais faça [tema] sem antes [ação-chave] se quer [resultado].",
+  "143. Erros em [tema] que descobri tarde demais (não os repita).",
+  "144. A verdade sobre conseguir [resultado]… não é o que te contaram.",
+  "145. Os [número] maiores mitos sobre [tema] que estão te travando.",
+  "146. Dicas de [tema] subestimadas de que ninguém fala e que fazem a diferença.",
+  "147. Como começar com [tema] sem ter que passar por [dor].",
+  "148. [problema]? Talvez você devesse testar isto primeiro.",
+  "149. “[nome da estratégia]” morreu. Faça isto no lugar se quer resultados.",
+  "150. O pior conselho para começar com [tema] que escuto o tempo todo.",
+  "151. Evite [ação típica] este ano se você quer mesmo conseguir [resultado].",
+  "152. Como tornar [tema] 10 vezes mais fácil de gerenciar.",
+  "153. Tipos de [tarefa/ação] que você pode fazer para alcançar [resultado] com [tema].",
+  "154. Por que você não precisa seguir o típico conselho de “[conselho genérico]” em [tema].",
+  "155. [número] motivos pelos quais você continua tendo [problema] com [tema].",
+  "156. Pare de fazer [tema] deste jeito se quer parar de perder tempo e dinheiro.",
+  "157. A melhor estratégia de [tema] para vencer este ano no seu setor.",
+  "158. O verdadeiro segredo por trás dos meus resultados com [tema].",
+  "159. [tarefa] vs [tarefa]… qual te dá melhores resultados de verdade?",
+  "160. Vale a pena [tema] este ano ou você já chegou tarde?",
+  "161. [número] lições que você precisa aprender sobre [tema] se quer melhorar rápido.",
+  "162. [número] coisas mais importantes do que [ação típica] se quer alcançar [resultado].",
+  "163. 5 sinais de que sua estratégia de [tema] precisa de um reset urgente.",
+  "164. Você tem feito [tema] do jeito errado esse tempo todo.",
+  "165. Não tente conseguir [resultado] até fazer estas coisas primeiro.",
+  "166. [número] conselhos sobre [tema] que mudaram totalmente meu jeito de fazer as coisas.",
+  "167. [número] coisas que aprendi do jeito difícil fazendo [tema].",
+  "168. Não deixe passar este truque de [tema] se quer conseguir [resultado].",
+  "169. Como usar [ferramenta/recurso] para alcançar [resultado] com [tema].",
+  "170. Consegui muito mais [resultados] com este pequeno ajuste.",
+  "171. [número] coisas que você deveria parar de fazer em [tema] agora mesmo.",
+  "172. [número] regras de [tema] que você precisa conhecer antes de continuar.",
+  "173. Por que fazer [tarefa concreta] na verdade está prejudicando seus [resultados].",
+  "174. Como se tornar [identidade/profissão desejada] este ano usando [tema].",
+  "175. Como [tema] funciona de verdade quando aplicado a [indústria/público específico].",
+  "176. 5 sinais de que você está falhando com [tema] e precisa mudar de abordagem.",
+  "177. Antes de começar com [tema], confira isto primeiro.",
+  "178. Como disparar seus [resultados] na hora com um único ajuste.",
+  "179. A estratégia mais poderosa de [tema] para conseguir [resultado].",
+  "180. 3 boas práticas que usei para alcançar [resultado específico].",
+  "181. Foi isto que fiz para resolver [problema] com [tema].",
+  "182. Como transformar [situação negativa] em [situação positiva] com [tema].",
+  "183. Faça estas [número] coisas durante 30 dias e você vai ver [resultado].",
+  "184. Estratégias de [tema] que você pode testar quando nada está funcionando.",
+  "185. Estratégias de [tema] que sempre funcionam quando você aplica bem.",
+  "186. Meu combo favorito para passar de [resultado negativo] para [resultado positivo] usando [tema].",
+  "187. Consegui [resultado] em [tempo] aplicando isto em [tema].",
+  "188. O guia definitivo para iniciantes que querem começar com [tema].",
+  "189. [tema] mudou completamente este ano e é assim que você deve se adaptar.",
+  "190. Você nunca vai conseguir [resultado] se não fizer isto primeiro.",
+  "191. Tendências de [tema] que você deveria testar este ano se quer sair na frente.",
+  "192. Como consegui [resultado] dedicando só [tempo] por dia a [tema].",
+  "193. 3 recursos que uso para levar meu [tema] para o próximo nível.",
+  "194. E se você fizer [ação para alcançar resultado] e não funcionar? Aqui está a resposta.",
+  "195. Fazer [ação para alcançar resultado] não vai te ajudar a conseguir [resultado], e eu explico por quê.",
+  "196. A maior mentira sobre [tema] que quase ninguém questiona.",
+  "197. Meus recursos favoritos para alcançar [resultado] com [tema] mais rápido."
+];
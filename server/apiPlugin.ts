@@ -0,0 +1,119 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { seedAccessCodes } from './auth';
+import { ServerConfig } from './config';
+import { ApiContext } from './context';
+import { ApiError, sendError } from './http';
+import { createProvider } from './providers';
+import { createRateLimiter } from './rateLimit';
+import { createStore } from './store';
+import { handleCreateAccessRequest } from './handlers/accessRequests';
+import { handleAdminOverview, handleApproveRequest, handleIssueCode, handleRejectRequest, handleRevokeCode } from './handlers/admin';
+import { handleCritique } from './handlers/critique';
+import { handleGenerate } from './handlers/generate';
+import { handleNicheInsights } from './handlers/insights';
+import { handleActivatePrompt, handleGetPrompts, handleSavePrompt } from './handlers/prompts';
+import { handleScript } from './handlers/script';
+import { handleGetSession, handleLogin, handleLogout } from './handlers/session';
+import { handleGetUsage } from './handlers/usage';
+import {
+  handleCreateWorkspace,
+  handleDeleteWorkspace,
+  handleDeleteWorkspaceHook,
+  handleDeleteWorkspaceVoice,
+  handleGetWorkspace,
+  handleImportToWorkspace,
+  handleLeaveWorkspace,
+  handleListWorkspaces,
+  handleRemoveMember,
+  handleRenameWorkspace,
+  handleSaveMember,
+  handleSaveWorkspaceHook,
+  handleSaveWorkspaceVoice,
+} from './handlers/workspaces';
+
+const FAILED_LOGIN_LIMIT = 10;
+const ACCESS_REQUEST_LIMIT = 5;
+const LIMIT_WINDOW_MS = 15 * 60 * 1000;
+
+type Handler = (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => Promise<void>;
+
+const ROUTES: Record<string, Handler> = {
+  'POST /api/login': handleLogin,
+  'GET /api/session': handleGetSession,
+  'POST /api/logout': handleLogout,
+  'POST /api/access-requests': handleCreateAccessRequest,
+  'POST /api/generate': handleGenerate,
+  'POST /api/critique': handleCritique,
+  'POST /api/script': handleScript,
+  'POST /api/niche-insights': handleNicheInsights,
+  'GET /api/usage': handleGetUsage,
+  'GET /api/workspaces': handleListWorkspaces,
+  'POST /api/workspaces': handleCreateWorkspace,
+  'GET /api/workspaces/detail': handleGetWorkspace,
+  'POST /api/workspaces/rename': handleRenameWorkspace,
+  'POST /api/workspaces/delete': handleDeleteWorkspace,
+  'POST /api/workspaces/leave': handleLeaveWorkspace,
+  'POST /api/workspaces/members': handleSaveMember,
+  'POST /api/workspaces/members/remove': handleRemoveMember,
+  'POST /api/workspaces/hooks': handleSaveWorkspaceHook,
+  'POST /api/workspaces/hooks/delete': handleDeleteWorkspaceHook,
+  'POST /api/workspaces/voices': handleSaveWorkspaceVoice,
+  'POST /api/workspaces/voices/delete': handleDeleteWorkspaceVoice,
+  'POST /api/workspaces/import': handleImportToWorkspace,
+  'GET /api/admin/overview': handleAdminOverview,
+  'POST /api/admin/requests/approve': handleApproveRequest,
+  'POST /api/admin/requests/reject': handleRejectRequest,
+  'POST /api/admin/codes': handleIssueCode,
+  'POST /api/admin/codes/revoke': handleRevokeCode,
+  'GET /api/admin/prompts': handleGetPrompts,
+  'POST /api/admin/prompts': handleSavePrompt,
+  'POST /api/admin/prompts/activate': handleActivatePrompt,
+};
+
+const createApiMiddleware = (ctx: ApiContext): Connect.NextHandleFunction => (req, res, next) => {
+  const path = (req.url || '').split('?')[0];
+  if (!path.startsWith('/api/')) return next();
+
+  const handler = ROUTES[`${req.method} ${path}`];
+  const run = handler
+    ? handler(req, res, ctx)
+    : Promise.reject(new ApiError(404, 'NOT_FOUND'));
+
+  run.catch(err => sendError(res, err));
+};
+
+/**
+ * Serves the /api endpoints from the Vite dev and preview servers,
+ * so the Gemini key and the access codes stay on the Node side.
+ */
+export const hookApiPlugin = (config: ServerConfig): Plugin => {
+  const ctx: ApiContext = {
+    config,
+    store: createStore(config.dataFile),
+    provider: createProvider(config),
+    limits: {
+      failedLogins: createRateLimiter(FAILED_LOGIN_LIMIT, LIMIT_WINDOW_MS),
+      accessRequests: createRateLimiter(ACCESS_REQUEST_LIMIT, LIMIT_WINDOW_MS),
+    },
+  };
+
+  // Only touch the store when a server actually starts (not during `vite build`)
+  const install = (middlewares: Connect.Server) => {
+    const seeded = seedAccessCodes(ctx.store, config.seedAccessCodes);
+    middlewares.use((req, res, next) => {
+      seeded.then(() => next(), next);
+    });
+    middlewares.use(createApiMiddleware(ctx));
+  };
+
+  return {
+    name: 'hook-api',
+    configureServer(server) {
+      install(server.middlewares);
+    },
+    configurePreviewServer(server) {
+      install(server.middlewares);
+    },
+  };
+};
@@ -0,0 +1,132 @@
+import type { IncomingMessage } from 'http';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { ApiContext } from './context';
+import { ApiError } from './http';
+import { AccessCode } from '../types';
+import { SessionRecord, Store } from './store';
+import { SeedAccessCode } from './config';
+
+interface TokenPayload {
+  sid: string;
+  email: string;
+  exp: number; // Epoch millis
+}
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+export const createSessionToken = (payload: TokenPayload, secret: string) => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, secret)}`;
+};
+
+export const verifySessionToken = (token: string, secret: string): TokenPayload | null => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isCodeUsable = (record: AccessCode, now = new Date()) =>
+  !record.revoked && (!record.expiresAt || new Date(record.expiresAt) > now);
+
+export const findAccessCode = (codes: AccessCode[], code: string) => {
+  const normalized = code.trim().toLowerCase();
+  return codes.find(record => record.code.toLowerCase() === normalized);
+};
+
+// Unambiguous alphabet (no 0/O, 1/I) since codes are typed by hand from an email
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateAccessCode = (existing: AccessCode[]) => {
+  const randomPart = () => Array.from(randomBytes(4), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  let code: string;
+  do {
+    code = `HOOK-${randomPart()}-${randomPart()}`;
+  } while (findAccessCode(existing, code));
+  return code;
+};
+
+export const createAccessCode = (existing: AccessCode[], email: string, expiresAt: string | null): AccessCode => ({
+  code: generateAccessCode(existing),
+  email: email.toLowerCase(),
+  createdAt: new Date().toISOString(),
+  expiresAt,
+  uses: 0,
+  lastUsedAt: null,
+  revoked: false,
+});
+
+export const isAdminEmail = (ctx: ApiContext, email: string) =>
+  ctx.config.adminEmails.includes(email.toLowerCase());
+
+// Imports ACCESS_CODES from the environment into the store, without touching codes that already exist.
+export const seedAccessCodes = (store: Store, seeds: SeedAccessCode[]) =>
+  store.update(data => {
+    for (const seed of seeds) {
+      if (findAccessCode(data.accessCodes, seed.code)) continue;
+      data.accessCodes.push({
+        code: seed.code,
+        email: seed.email,
+        createdAt: new Date().toISOString(),
+        expiresAt: seed.expiresAt,
+        uses: 0,
+        lastUsedAt: null,
+        revoked: false,
+      });
+    }
+  });
+
+export const openSession = (ctx: ApiContext, email: string, code: string) => {
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: randomUUID(),
+    email,
+    code,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ctx.config.sessionTtlDays * 24 * 60 * 60 * 1000).toISOString(),
+    revokedAt: null,
+  };
+  const token = createSessionToken(
+    { sid: session.id, email, exp: new Date(session.expiresAt).getTime() },
+    ctx.config.sessionSecret,
+  );
+  return { session, token };
+};
+
+const readBearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+};
+
+/**
+ * Resolves the session behind the request's bearer token, or throws 401.
+ * A session dies when it is revoked (logout), expires, or its access code is revoked or expires.
+ */
+export const requireSession = async (req: IncomingMessage, ctx: ApiContext): Promise<SessionRecord> => {
+  const payload = verifySessionToken(readBearerToken(req), ctx.config.sessionSecret);
+  if (!payload) throw new ApiError(401, 'UNAUTHORIZED');
+
+  const data = await ctx.store.read();
+  const session = data.sessions.find(s => s.id === payload.sid);
+  const code = session && findAccessCode(data.accessCodes, session.code);
+  if (!session || session.revokedAt || !code || !isCodeUsable(code)) {
+    throw new ApiError(401, 'UNAUTHORIZED');
+  }
+  return session;
+};
+
+export const requireAdmin = async (req: IncomingMessage, ctx: ApiContext): Promise<SessionRecord> => {
+  const session = await requireSession(req, ctx);
+  if (!isAdminEmail(ctx, session.email)) throw new ApiError(403, 'FORBIDDEN');
+  return session;
+};
@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { UsageQuotas } from '../types';
+import { ProviderName } from './providers/types';
+
+export interface SeedAccessCode {
+  email: string;
+  code: string;
+  expiresAt: string | null;
+}
+
+export interface ProviderSettings {
+  name: ProviderName;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  local: 'diccionario-local',
+};
+
+// Server-only settings. Read from the environment by vite.config.ts and never exposed to the client bundle.
+export interface ServerConfig {
+  provider: ProviderSettings;
+  sessionSecret: string;
+  sessionTtlDays: number;
+  dataFile: string;
+  seedAccessCodes: SeedAccessCode[];
+  adminEmails: string[];
+  quotas: UsageQuotas;
+}
+
+/**
+ * Parses ACCESS_CODES entries of the form `email:code` or `email:code:YYYY-MM-DD`.
+ * Legacy entries without an email are skipped: every code must belong to one registered email.
+ */
+export const parseSeedAccessCodes = (raw: string): SeedAccessCode[] =>
+  raw.split(',').map(entry => entry.trim()).filter(entry => entry !== '').flatMap(entry => {
+    const [email, code, expiresOn] = entry.split(':').map(part => part.trim());
+    if (!email || !email.includes('@') || !code) {
+      console.warn(`[api] ACCESS_CODES: se ignora "${entry}" (formato esperado email:código[:AAAA-MM-DD]).`);
+      return [];
+    }
+    const expiresMs = expiresOn ? Date.parse(`${expiresOn}T23:59:59Z`) : null;
+    if (Number.isNaN(expiresMs)) {
+      console.warn(`[api] ACCESS_CODES: se ignora "${entry}" (fecha de caducidad inválida, se espera AAAA-MM-DD).`);
+      return [];
+    }
+    const expiresAt = expiresMs === null ? null : new Date(expiresMs).toISOString();
+    return [{ email: email.toLowerCase(), code, expiresAt }];
+  });
+
+const parseProviderSettings = (env: Record<string, string>): ProviderSettings => {
+  const requested = (env.HOOK_PROVIDER || 'gemini').trim().toLowerCase();
+  const name: ProviderName = requested === 'openai' || requested === 'local' ? requested : 'gemini';
+  if (requested !== name) console.warn(`[api] HOOK_PROVIDER "${requested}" desconocido, se usa "gemini".`);
+
+  return {
+    name,
+    model: (env.HOOK_MODEL || '').trim() || DEFAULT_MODELS[name],
+    apiKey: (name === 'openai' ? env.OPENAI_API_KEY || '' : env.API_KEY || env.GEMINI_API_KEY || '').trim(),
+    baseUrl: (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').trim(),
+  };
+};
+
+// Empty, zero or invalid means no limit
+const parseQuota = (raw: string | undefined) => {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+const parseQuotas = (env: Record<string, string>): UsageQuotas => ({
+  dailyRequests: parseQuota(env.QUOTA_DAILY_REQUESTS),
+  monthlyRequests: parseQuota(env.QUOTA_MONTHLY_REQUESTS),
+  dailyTokens: parseQuota(env.QUOTA_DAILY_TOKENS),
+  monthlyTokens: parseQuota(env.QUOTA_MONTHLY_TOKENS),
+});
+
+export const createServerConfig = (env: Record<string, string>): ServerConfig => {
+  let sessionSecret = (env.SESSION_SECRET || '').trim();
+  if (!sessionSecret) {
+    console.warn('[api] SESSION_SECRET no está definido: las sesiones se invalidarán al reiniciar el servidor.');
+    sessionSecret = randomBytes(32).toString('hex');
+  }
+
+  return {
+    provider: parseProviderSettings(env),
+    sessionSecret,
+    sessionTtlDays: Number(env.SESSION_TTL_DAYS) || 30,
+    dataFile: path.resolve(env.DATA_FILE || 'data/store.json'),
+    seedAccessCodes: parseSeedAccessCodes(env.ACCESS_CODES || ''),
+    adminEmails: (env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(e => e !== ''),
+    quotas: parseQuotas(env),
+  };
+};
@@ -0,0 +1,15 @@
+import { ServerConfig } from './config';
+import { HookProvider } from './providers';
+import { RateLimiter } from './rateLimit';
+import { Store } from './store';
+
+// Everything a handler needs besides the request itself.
+export interface ApiContext {
+  config: ServerConfig;
+  store: Store;
+  provider: HookProvider;
+  limits: {
+    failedLogins: RateLimiter; // Per client, only wrong codes count
+    accessRequests: RateLimiter; // Per client
+  };
+}
@@ -0,0 +1,114 @@
+import { AdaptedHook } from '../types';
+import { PLATFORM_RULES } from '../constants';
+import { HookIssue, getHookIssue } from '../utils/hookValidation';
+import { HookProvider, ProviderError } from './providers';
+import { AdaptationRequest, UsageListener, isRetryable } from './providers/types';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export interface GenerationOptions {
+  onHook: (hook: AdaptedHook) => void;
+  signal?: AbortSignal;
+  onUsage?: UsageListener; // Called once per provider call, retries included
+  retry?: RetryOptions;
+}
+
+export interface GenerationResult {
+  hooks: AdaptedHook[]; // In the order the templates were requested
+  failedTemplateIds: number[];
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Exponential backoff with jitter, capped at `maxDelayMs` but never shorter than what the provider
+// asked us to wait. Hints over the cap do not get here: the caller gives up instead.
+export const getRetryDelay = (attempt: number, options: RetryOptions, retryAfterMs?: number) => {
+  const exponential = options.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.max(Math.min(exponential + jitter, options.maxDelayMs), retryAfterMs || 0);
+};
+
+/**
+ * Streams every template through the provider, validating each hook as it arrives and handing the
+ * good ones to `onHook` right away. Templates that come back missing, mislabelled or unusable are
+ * re-requested (alone) until `maxAttempts`. Throws the last provider error only when not a single
+ * hook could be adapted, or right away when the provider asks for a longer wait than `maxDelayMs`
+ * (the caller relays its Retry-After instead of holding the request open).
+ *
+ * Rewrite requests may ask for several hooks per template (variants); repeats are rejected and
+ * only the missing ones are asked for again. A template counts as failed when none came back.
+ *
+ * Deterministic providers get a single attempt, and hooks over the platform's limit are kept (the
+ * card flags them) since the provider cannot write a shorter one.
+ */
+export const adaptWithRecovery = async (
+  provider: HookProvider,
+  request: AdaptationRequest,
+  { onHook, signal, onUsage, retry = DEFAULT_RETRY_OPTIONS }: GenerationOptions,
+): Promise<GenerationResult> => {
+  const wanted = request.rewrite?.count ?? 1;
+  const accepted = new Map<number, AdaptedHook[]>();
+  const acceptedCount = (templateId: number) => accepted.get(templateId)?.length ?? 0;
+  const maxLength = provider.deterministic ? undefined : PLATFORM_RULES[request.formData.platform].maxChars;
+  const maxAttempts = provider.deterministic ? 1 : retry.maxAttempts;
+  let pending = request.templates;
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < maxAttempts && pending.length > 0; attempt++) {
+    const pendingIds = new Set(pending.map(t => t.id));
+    const rejected = new Map<number, HookIssue>();
+    let retryAfterMs: number | undefined;
+
+    // Rewrites carry a single template, so the missing count is that template's
+    const rewrite = request.rewrite && { ...request.rewrite, count: wanted - acceptedCount(pending[0].id) };
+
+    try {
+      for await (const hook of provider.streamHooks({ ...request, templates: pending, rewrite }, signal, onUsage)) {
+        if (!pendingIds.has(hook.templateId) || acceptedCount(hook.templateId) >= wanted) continue;
+        const siblings = accepted.get(hook.templateId) || [];
+        const issue = getHookIssue(hook.text, maxLength)
+          ?? (siblings.some(sibling => sibling.text === hook.text) ? 'DUPLICATE' : null);
+        if (issue) {
+          rejected.set(hook.templateId, issue);
+          continue;
+        }
+        accepted.set(hook.templateId, [...siblings, hook]);
+        onHook(hook);
+      }
+    } catch (err) {
+      if (signal?.aborted || !isRetryable(err)) throw err;
+      lastError = err;
+      retryAfterMs = (err as ProviderError).retryAfterMs;
+      if (retryAfterMs && retryAfterMs > retry.maxDelayMs) throw err;
+    }
+
+    pending = pending.filter(t => acceptedCount(t.id) < wanted);
+    if (pending.length > 0) {
+      console.warn(`[api] Intento ${attempt + 1}: ${pending.length} plantillas pendientes`, Object.fromEntries(rejected));
+      if (attempt < maxAttempts - 1) await sleep(getRetryDelay(attempt, retry, retryAfterMs), signal);
+    }
+  }
+
+  if (accepted.size === 0 && lastError) throw lastError;
+
+  return {
+    hooks: request.templates.flatMap(t => accepted.get(t.id) || []),
+    failedTemplateIds: pending.filter(t => acceptedCount(t.id) === 0).map(t => t.id),
+  };
+};
@@ -0,0 +1,42 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { AccessRequestPayload } from '../../types';
+import { ApiContext } from '../context';
+import { ApiError, isValidEmail, readJsonBody, readTextField, sendJson } from '../http';
+import { getClientKey } from '../rateLimit';
+
+const MAX_MESSAGE_LENGTH = 500;
+// Past this many unanswered requests new ones are turned away until an admin catches up
+const MAX_PENDING_REQUESTS = 500;
+
+// Public endpoint behind the "¿Aún no tienes código?" form.
+export const handleCreateAccessRequest = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const client = getClientKey(req);
+  ctx.limits.accessRequests.check(client);
+  ctx.limits.accessRequests.hit(client);
+  const body = await readJsonBody<Partial<AccessRequestPayload>>(req);
+  const email = readTextField(body.email).toLowerCase();
+  const message = readTextField(body.message).slice(0, MAX_MESSAGE_LENGTH);
+
+  if (!isValidEmail(email)) throw new ApiError(400, 'INVALID_EMAIL');
+
+  await ctx.store.update(data => {
+    // A second request from the same email while one is pending is a no-op
+    if (data.accessRequests.some(r => r.email === email && r.status === 'pending')) return;
+    if (data.accessRequests.filter(r => r.status === 'pending').length >= MAX_PENDING_REQUESTS) {
+      throw new ApiError(503, 'TOO_MANY_PENDING');
+    }
+    data.accessRequests.push({
+      id: randomUUID(),
+      email,
+      message,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      decidedAt: null,
+      decidedBy: null,
+      code: null,
+    });
+  });
+
+  sendJson(res, 200, { ok: true });
+};
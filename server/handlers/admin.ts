@@ -0,0 +1,94 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AdminOverview, IssueCodeRequest } from '../../types';
+import { createAccessCode, findAccessCode, requireAdmin } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, isValidEmail, readJsonBody, readTextField, sendJson } from '../http';
+import { buildUsageReport } from '../usage';
+
+const parseExpiry = (expiresAt: string | null | undefined) => {
+  if (!expiresAt) return null;
+  const date = new Date(expiresAt);
+  if (Number.isNaN(date.getTime())) throw new ApiError(400, 'INVALID_EXPIRY');
+  return date.toISOString();
+};
+
+export const handleAdminOverview = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  await requireAdmin(req, ctx);
+  const data = await ctx.store.read();
+  const response: AdminOverview = {
+    requests: [...data.accessRequests].reverse(),
+    codes: [...data.accessCodes].reverse(),
+    usage: [...data.codeUsage].reverse(),
+    consumption: buildUsageReport(data, ctx.config.quotas),
+  };
+  sendJson(res, 200, response);
+};
+
+export const handleApproveRequest = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const admin = await requireAdmin(req, ctx);
+  const body = await readJsonBody<{ id?: string; expiresAt?: string | null }>(req);
+  const expiresAt = parseExpiry(body.expiresAt);
+
+  const code = await ctx.store.update(data => {
+    const request = data.accessRequests.find(r => r.id === body.id);
+    if (!request) throw new ApiError(404, 'NOT_FOUND');
+    if (request.status !== 'pending') throw new ApiError(409, 'ALREADY_DECIDED');
+
+    const accessCode = createAccessCode(data.accessCodes, request.email, expiresAt);
+    data.accessCodes.push(accessCode);
+    request.status = 'approved';
+    request.decidedAt = new Date().toISOString();
+    request.decidedBy = admin.email;
+    request.code = accessCode.code;
+    return accessCode;
+  });
+
+  sendJson(res, 200, code);
+};
+
+export const handleRejectRequest = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const admin = await requireAdmin(req, ctx);
+  const body = await readJsonBody<{ id?: string }>(req);
+
+  await ctx.store.update(data => {
+    const request = data.accessRequests.find(r => r.id === body.id);
+    if (!request) throw new ApiError(404, 'NOT_FOUND');
+    if (request.status !== 'pending') throw new ApiError(409, 'ALREADY_DECIDED');
+    request.status = 'rejected';
+    request.decidedAt = new Date().toISOString();
+    request.decidedBy = admin.email;
+  });
+
+  sendJson(res, 200, { ok: true });
+};
+
+// Issues a code directly, without a prior access request.
+export const handleIssueCode = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  await requireAdmin(req, ctx);
+  const body = await readJsonBody<Partial<IssueCodeRequest>>(req);
+  const email = readTextField(body.email).toLowerCase();
+  if (!isValidEmail(email)) throw new ApiError(400, 'INVALID_EMAIL');
+  const expiresAt = parseExpiry(body.expiresAt);
+
+  const code = await ctx.store.update(data => {
+    const accessCode = createAccessCode(data.accessCodes, email, expiresAt);
+    data.accessCodes.push(accessCode);
+    return accessCode;
+  });
+
+  sendJson(res, 200, code);
+};
+
+export const handleRevokeCode = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  await requireAdmin(req, ctx);
+  const body = await readJsonBody<{ code?: string }>(req);
+  const code = readTextField(body.code);
+
+  await ctx.store.update(data => {
+    const record = findAccessCode(data.accessCodes, code);
+    if (!record) throw new ApiError(404, 'NOT_FOUND');
+    record.revoked = true;
+  });
+
+  sendJson(res, 200, { ok: true });
+};
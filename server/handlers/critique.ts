@@ -0,0 +1,42 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { CritiqueRequest, CritiqueResponse } from '../../types';
+import { requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, readJsonBody, sendJson } from '../http';
+import { DEFAULT_LOCALE, isLocale } from '../../i18n/locales';
+import { isPlatform } from '../../utils/platforms';
+import { MAX_HOOK_LENGTH } from '../../utils/hookValidation';
+import { toApiError } from './generate';
+import { assertWithinQuota, createUsageMeter, recordUsage } from '../usage';
+
+// Same ceiling as a generation batch
+const MAX_HOOKS_PER_CRITIQUE = 25;
+
+export const handleCritique = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<CritiqueRequest>(req);
+  body.locale ??= DEFAULT_LOCALE;
+
+  if (!body.formData?.niche || !body.formData?.topic) throw new ApiError(400, 'MISSING_FIELDS');
+  body.formData.platform ??= 'generic';
+  if (!isPlatform(body.formData.platform)) throw new ApiError(400, 'INVALID_PLATFORM');
+  if (!isLocale(body.locale)) throw new ApiError(400, 'INVALID_LOCALE');
+  if (!Array.isArray(body.hooks) || body.hooks.length === 0) throw new ApiError(400, 'NO_HOOKS');
+  if (body.hooks.length > MAX_HOOKS_PER_CRITIQUE) throw new ApiError(400, 'TOO_MANY_HOOKS');
+  if (!body.hooks.every(hook => typeof hook === 'string' && hook.length <= MAX_HOOK_LENGTH)) {
+    throw new ApiError(400, 'INVALID_HOOKS');
+  }
+
+  await assertWithinQuota(ctx, session);
+
+  const meter = createUsageMeter();
+  try {
+    const critiques = await ctx.provider.critiqueHooks(body, undefined, meter.listener);
+    const response: CritiqueResponse = { critiques };
+    sendJson(res, 200, response);
+  } catch (err) {
+    throw toApiError(err);
+  } finally {
+    await recordUsage(ctx, session, 'critique', meter).catch(err => console.error('[api] Usage not recorded:', err));
+  }
+};
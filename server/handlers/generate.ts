@@ -0,0 +1,163 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { GenerateRequest, GenerateStreamEvent, HookRewrite, NicheContext, NicheContextKey, VoiceBrief } from '../../types';
+import { isAdminEmail, requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { adaptWithRecovery } from '../generation';
+import { ApiError, createNdjsonWriter, readJsonBody } from '../http';
+import { resolvePrompt } from '../promptLibrary';
+import { ProviderError } from '../providers';
+import { assertWithinQuota, createUsageMeter, recordUsage } from '../usage';
+import { logActivity, requireMembership } from '../workspaces';
+import { DEFAULT_LOCALE, isLocale } from '../../i18n/locales';
+import { isPlatform } from '../../utils/platforms';
+import { MAX_CUSTOM_TEMPLATE_LENGTH, NICHE_CONTEXT_KEYS, REWRITE_MODES } from '../../constants';
+
+const MAX_TEMPLATES_PER_REQUEST = 25;
+// Keeps a voice profile from blowing up the prompt
+const MAX_VOICE_TEXT_LENGTH = 1000;
+const MAX_VOICE_LIST_ITEMS = 30;
+const MAX_REWRITE_COUNT = 5;
+const MAX_AVOID_TEXTS = 5;
+// Accepted niche suggestions are short phrases
+const MAX_CONTEXT_LENGTH = 200;
+
+const isShortText = (value: unknown): value is string => typeof value === 'string' && value.length <= MAX_VOICE_TEXT_LENGTH;
+
+export const isVoiceBrief = (voice: unknown): voice is VoiceBrief => {
+  if (typeof voice !== 'object' || voice === null) return false;
+  const { name, description, dos, donts, forbiddenWords, exampleHooks } = voice as Record<string, unknown>;
+  return (
+    isShortText(name) &&
+    isShortText(description) &&
+    [dos, donts, forbiddenWords, exampleHooks].every(
+      list => Array.isArray(list) && list.length <= MAX_VOICE_LIST_ITEMS && list.every(isShortText)
+    )
+  );
+};
+
+export const isNicheContext = (context: unknown): context is NicheContext =>
+  typeof context === 'object' &&
+  context !== null &&
+  Object.entries(context).every(
+    ([key, value]) =>
+      NICHE_CONTEXT_KEYS.includes(key as NicheContextKey) && typeof value === 'string' && value.length <= MAX_CONTEXT_LENGTH
+  );
+
+const isHookRewrite = (rewrite: unknown): rewrite is HookRewrite => {
+  if (typeof rewrite !== 'object' || rewrite === null) return false;
+  const { mode, sourceText, count, avoidTexts } = rewrite as Record<string, unknown>;
+  return (
+    REWRITE_MODES.includes(mode as HookRewrite['mode']) &&
+    isShortText(sourceText) &&
+    Number.isInteger(count) &&
+    (count as number) >= 1 &&
+    (count as number) <= MAX_REWRITE_COUNT &&
+    (avoidTexts === undefined ||
+      (Array.isArray(avoidTexts) && avoidTexts.length <= MAX_AVOID_TEXTS && avoidTexts.every(isShortText)))
+  );
+};
+
+// Custom formulas are the longest templates a client has a reason to send
+const isTemplateInput = (item: unknown): item is GenerateRequest['templates'][number] => {
+  if (typeof item !== 'object' || item === null) return false;
+  const { id, template } = item as Record<string, unknown>;
+  return (
+    Number.isInteger(id) &&
+    typeof template === 'string' && Boolean(template.trim()) &&
+    template.length <= MAX_CUSTOM_TEMPLATE_LENGTH
+  );
+};
+
+// Provider failures surface to the client with the same codes regardless of the vendor.
+export const toApiError = (err: unknown) => {
+  if (!(err instanceof ProviderError)) return err;
+  switch (err.code) {
+    case 'API_KEY_MISSING':
+      return new ApiError(500, 'API_KEY_MISSING');
+    case 'RATE_LIMITED':
+      return new ApiError(429, 'RATE_LIMITED', undefined, Math.ceil((err.retryAfterMs ?? 10000) / 1000));
+    default:
+      console.error(`[api] Provider error (${err.code}):`, err.message);
+      return new ApiError(502, err.code);
+  }
+};
+
+export const handleGenerate = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<GenerateRequest>(req);
+  // Clients from before multilingual generation do not send a locale
+  body.locale ??= DEFAULT_LOCALE;
+
+  if (!body.formData?.niche || !body.formData?.topic) throw new ApiError(400, 'MISSING_FIELDS');
+  // Neither do clients from before platform modes send a platform
+  body.formData.platform ??= 'generic';
+  if (!isPlatform(body.formData.platform)) throw new ApiError(400, 'INVALID_PLATFORM');
+  if (body.formData.context !== undefined && !isNicheContext(body.formData.context)) throw new ApiError(400, 'INVALID_CONTEXT');
+  if (!Array.isArray(body.templates) || body.templates.length === 0) throw new ApiError(400, 'NO_TEMPLATES');
+  if (body.templates.length > MAX_TEMPLATES_PER_REQUEST) throw new ApiError(400, 'TOO_MANY_TEMPLATES');
+  if (!body.templates.every(isTemplateInput)) throw new ApiError(400, 'INVALID_TEMPLATES');
+  if (!isLocale(body.locale)) throw new ApiError(400, 'INVALID_LOCALE');
+  if (body.voice !== undefined && !isVoiceBrief(body.voice)) throw new ApiError(400, 'INVALID_VOICE');
+  if (body.rewrite !== undefined) {
+    if (!isHookRewrite(body.rewrite)) throw new ApiError(400, 'INVALID_REWRITE');
+    // Card actions only ever pay for the one template being reworked
+    if (body.templates.length !== 1) throw new ApiError(400, 'TOO_MANY_TEMPLATES');
+  }
+  // Picking a prompt version is for A/B runs, which only admins can start
+  if (body.promptVersion !== undefined && !isAdminEmail(ctx, session.email)) throw new ApiError(403, 'FORBIDDEN');
+  await assertWithinQuota(ctx, session);
+  const data = await ctx.store.read();
+  // Generating for a workspace only shows up in its feed, so viewers may do it too
+  if (body.workspaceId !== undefined) requireMembership(data, body.workspaceId, session.email, 'viewer');
+  const prompt = resolvePrompt(data, body.promptVersion);
+
+  // Stop paying for tokens as soon as the user cancels or closes the tab
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const stream = createNdjsonWriter(res);
+  const send = (event: GenerateStreamEvent) => stream.write(event);
+
+  const meter = createUsageMeter();
+  let delivered = 0;
+  try {
+    const { failedTemplateIds } = await adaptWithRecovery(ctx.provider, { ...body, prompt }, {
+      signal: controller.signal,
+      onHook: hook => {
+        delivered += 1;
+        send({ type: 'hook', hook });
+      },
+      onUsage: meter.listener,
+    });
+    send({ type: 'done', failedTemplateIds, provider: ctx.provider.name, model: ctx.provider.model, promptVersion: prompt.version });
+    stream.end();
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    const apiError = toApiError(err);
+    if (!res.headersSent) throw apiError;
+
+    // Some hooks already went out: report the failure in-band
+    const code = apiError instanceof ApiError ? apiError.code : 'INTERNAL_ERROR';
+    const retryAfterSeconds = apiError instanceof ApiError ? apiError.retryAfterSeconds : undefined;
+    send({ type: 'error', error: code, retryAfterSeconds });
+    stream.end();
+  } finally {
+    // Cancelled and failed requests still cost whatever the provider already produced
+    await recordUsage(ctx, session, 'generation', meter).catch(err => console.error('[api] Usage not recorded:', err));
+    // Card rewrites would flood the feed; only full runs that produced something are logged
+    const { workspaceId, formData } = body;
+    if (workspaceId !== undefined && !body.rewrite && delivered > 0) {
+      await ctx.store
+        .update(data => logActivity(data, {
+          workspaceId,
+          email: session.email,
+          kind: 'generated',
+          detail: `${formData.niche} · ${formData.topic}`,
+          count: delivered,
+        }))
+        .catch(err => console.error('[api] Activity not recorded:', err));
+    }
+  }
+};
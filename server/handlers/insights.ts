@@ -0,0 +1,36 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { NicheInsightsRequest, NicheInsightsResponse } from '../../types';
+import { requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, readJsonBody, sendJson } from '../http';
+import { DEFAULT_LOCALE, isLocale } from '../../i18n/locales';
+import { isPlatform } from '../../utils/platforms';
+import { toApiError } from './generate';
+import { assertWithinQuota, createUsageMeter, recordUsage } from '../usage';
+
+const MAX_NICHE_LENGTH = 200;
+
+export const handleNicheInsights = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<NicheInsightsRequest>(req);
+  body.locale ??= DEFAULT_LOCALE;
+
+  if (typeof body.niche !== 'string' || !body.niche.trim()) throw new ApiError(400, 'MISSING_FIELDS');
+  if (body.niche.length > MAX_NICHE_LENGTH) throw new ApiError(400, 'INVALID_NICHE');
+  body.platform ??= 'generic';
+  if (!isPlatform(body.platform)) throw new ApiError(400, 'INVALID_PLATFORM');
+  if (!isLocale(body.locale)) throw new ApiError(400, 'INVALID_LOCALE');
+
+  await assertWithinQuota(ctx, session);
+
+  const meter = createUsageMeter();
+  try {
+    const insights = await ctx.provider.suggestNicheInsights({ ...body, niche: body.niche.trim() }, undefined, meter.listener);
+    const response: NicheInsightsResponse = { insights };
+    sendJson(res, 200, response);
+  } catch (err) {
+    throw toApiError(err);
+  } finally {
+    await recordUsage(ctx, session, 'insight', meter).catch(err => console.error('[api] Usage not recorded:', err));
+  }
+};
@@ -0,0 +1,65 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { PromptVersion, SavePromptRequest } from '../../types';
+import { getPromptProblems } from '../../utils/promptTemplate';
+import { requireAdmin } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, readJsonBody, readTextField, sendJson } from '../http';
+import { findPromptVersion, getNextPromptVersion, getPromptLibrary } from '../promptLibrary';
+
+const MAX_NOTE_LENGTH = 200;
+const MAX_EXTRA_VARIABLES = 20;
+const MAX_EXTRA_VALUE_LENGTH = 1000;
+
+const isExtraVariables = (value: unknown): value is Record<string, string> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const entries = Object.entries(value as Record<string, unknown>);
+  return (
+    entries.length <= MAX_EXTRA_VARIABLES &&
+    entries.every(([, text]) => typeof text === 'string' && text.length <= MAX_EXTRA_VALUE_LENGTH)
+  );
+};
+
+export const handleGetPrompts = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  await requireAdmin(req, ctx);
+  sendJson(res, 200, getPromptLibrary(await ctx.store.read()));
+};
+
+// Saving never overwrites: the prompt becomes the next version, inactive until promoted.
+export const handleSavePrompt = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const admin = await requireAdmin(req, ctx);
+  const body = await readJsonBody<Partial<SavePromptRequest>>(req);
+  const extraVariables = body.extraVariables ?? {};
+  const note = readTextField(body.note);
+  if (typeof body.body !== 'string' || !isExtraVariables(extraVariables)) throw new ApiError(400, 'INVALID_PROMPT');
+  if (note.length > MAX_NOTE_LENGTH) throw new ApiError(400, 'INVALID_PROMPT');
+  const [problem] = getPromptProblems(body.body, extraVariables);
+  if (problem) throw new ApiError(400, 'INVALID_PROMPT', problem.code);
+
+  const prompt = await ctx.store.update(data => {
+    const version: PromptVersion = {
+      version: getNextPromptVersion(data),
+      body: body.body!,
+      extraVariables,
+      note,
+      createdAt: new Date().toISOString(),
+      createdBy: admin.email,
+    };
+    data.promptVersions.push(version);
+    return version;
+  });
+
+  sendJson(res, 200, prompt);
+};
+
+export const handleActivatePrompt = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  await requireAdmin(req, ctx);
+  const body = await readJsonBody<{ version?: number }>(req);
+
+  const library = await ctx.store.update(data => {
+    if (typeof body.version !== 'number' || !findPromptVersion(data, body.version)) throw new ApiError(404, 'NOT_FOUND');
+    data.activePromptVersion = body.version;
+    return getPromptLibrary(data);
+  });
+
+  sendJson(res, 200, library);
+};
@@ -0,0 +1,41 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ScriptRequest, ScriptResponse } from '../../types';
+import { requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, readJsonBody, sendJson } from '../http';
+import { DEFAULT_LOCALE, isLocale } from '../../i18n/locales';
+import { isPlatform } from '../../utils/platforms';
+import { MAX_HOOK_LENGTH } from '../../utils/hookValidation';
+import { SCRIPT_DURATIONS } from '../../constants';
+import { isNicheContext, isVoiceBrief, toApiError } from './generate';
+import { assertWithinQuota, createUsageMeter, recordUsage } from '../usage';
+
+export const handleScript = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<ScriptRequest>(req);
+  body.locale ??= DEFAULT_LOCALE;
+
+  if (!body.formData?.niche || !body.formData?.topic) throw new ApiError(400, 'MISSING_FIELDS');
+  body.formData.platform ??= 'generic';
+  if (!isPlatform(body.formData.platform)) throw new ApiError(400, 'INVALID_PLATFORM');
+  if (body.formData.context !== undefined && !isNicheContext(body.formData.context)) throw new ApiError(400, 'INVALID_CONTEXT');
+  if (!isLocale(body.locale)) throw new ApiError(400, 'INVALID_LOCALE');
+  if (typeof body.hook !== 'string' || !body.hook.trim() || body.hook.length > MAX_HOOK_LENGTH) {
+    throw new ApiError(400, 'INVALID_HOOKS');
+  }
+  if (!SCRIPT_DURATIONS.includes(body.duration)) throw new ApiError(400, 'INVALID_DURATION');
+  if (body.voice !== undefined && !isVoiceBrief(body.voice)) throw new ApiError(400, 'INVALID_VOICE');
+
+  await assertWithinQuota(ctx, session);
+
+  const meter = createUsageMeter();
+  try {
+    const draft = await ctx.provider.expandScript(body, undefined, meter.listener);
+    const response: ScriptResponse = { script: { ...draft, duration: body.duration, createdAt: new Date().toISOString() } };
+    sendJson(res, 200, response);
+  } catch (err) {
+    throw toApiError(err);
+  } finally {
+    await recordUsage(ctx, session, 'script', meter).catch(err => console.error('[api] Usage not recorded:', err));
+  }
+};
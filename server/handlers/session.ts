@@ -0,0 +1,67 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { LoginRequest, LoginResponse, SessionInfo } from '../../types';
+import { findAccessCode, isAdminEmail, isCodeUsable, openSession, requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, isValidEmail, readJsonBody, readTextField, sendJson } from '../http';
+import { getClientKey } from '../rateLimit';
+
+// Keep the "who used which code" log bounded
+const MAX_USAGE_ENTRIES = 2000;
+
+export const handleLogin = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const client = getClientKey(req);
+  ctx.limits.failedLogins.check(client);
+  const body = await readJsonBody<Partial<LoginRequest>>(req);
+  const email = readTextField(body.email).toLowerCase();
+  const code = readTextField(body.code);
+
+  if (!isValidEmail(email)) throw new ApiError(400, 'INVALID_EMAIL');
+  if (!code) throw new ApiError(400, 'MISSING_CODE');
+
+  const result = await ctx.store.update(data => {
+    const record = findAccessCode(data.accessCodes, code);
+    // Same answer for unknown codes and codes owned by another email, to avoid leaking which codes exist
+    if (!record || record.email !== email) throw new ApiError(401, 'INVALID_CODE');
+    if (record.revoked) throw new ApiError(403, 'CODE_REVOKED');
+    if (!isCodeUsable(record)) throw new ApiError(403, 'CODE_EXPIRED');
+
+    const now = new Date();
+    record.uses += 1;
+    record.lastUsedAt = now.toISOString();
+    data.codeUsage.push({ code: record.code, email, usedAt: record.lastUsedAt });
+    data.codeUsage = data.codeUsage.slice(-MAX_USAGE_ENTRIES);
+
+    // Drop sessions that can no longer be used so the store does not grow forever
+    data.sessions = data.sessions.filter(s => !s.revokedAt && new Date(s.expiresAt) > now);
+
+    const { session, token } = openSession(ctx, email, record.code);
+    data.sessions.push(session);
+    return { token, email, expiresAt: session.expiresAt, isAdmin: isAdminEmail(ctx, email) };
+  }).catch(err => {
+    // Only wrong codes count towards the throttle: expired or revoked ones were guessed right
+    if (err instanceof ApiError && err.code === 'INVALID_CODE') ctx.limits.failedLogins.hit(client);
+    throw err;
+  });
+
+  const response: LoginResponse = result;
+  sendJson(res, 200, response);
+};
+
+export const handleGetSession = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const response: SessionInfo = {
+    email: session.email,
+    expiresAt: session.expiresAt,
+    isAdmin: isAdminEmail(ctx, session.email),
+  };
+  sendJson(res, 200, response);
+};
+
+export const handleLogout = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  await ctx.store.update(data => {
+    const stored = data.sessions.find(s => s.id === session.id);
+    if (stored) stored.revokedAt = new Date().toISOString();
+  });
+  sendJson(res, 200, { ok: true });
+};
@@ -0,0 +1,12 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { UsageStatus } from '../../types';
+import { requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { sendJson } from '../http';
+import { getUsageStatus } from '../usage';
+
+export const handleGetUsage = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const response: UsageStatus = await getUsageStatus(ctx, session);
+  sendJson(res, 200, response);
+};
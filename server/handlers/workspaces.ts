@@ -0,0 +1,340 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import {
+  HookScript,
+  ImportToWorkspaceRequest,
+  SavedHook,
+  SaveMemberRequest,
+  ScriptBeat,
+  ScriptDuration,
+  VoiceProfile,
+  Workspace,
+  WorkspaceRole,
+} from '../../types';
+import { SCRIPT_DURATIONS, SCRIPT_POINT_COUNTS } from '../../constants';
+import { requireSession } from '../auth';
+import { ApiContext } from '../context';
+import { ApiError, isValidEmail, readJsonBody, readTextField, sendJson } from '../http';
+import { StoreData } from '../store';
+import {
+  countOwners,
+  isWorkspaceRole,
+  logActivity,
+  requireMembership,
+  toWorkspaceDetail,
+  toWorkspaceSummary,
+} from '../workspaces';
+import { isVoiceBrief } from './generate';
+
+const MAX_NAME_LENGTH = 80;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_TAGS = 30;
+const MAX_WORKSPACE_HOOKS = 5000;
+const MAX_WORKSPACE_VOICES = 100;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+const isId = (value: unknown): value is string => isText(value) && Boolean(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const MAX_SCRIPT_POINTS = Math.max(...Object.values(SCRIPT_POINT_COUNTS));
+
+// --- VALIDATION ---
+// Shared items are read by every member, so they are rebuilt from the checked fields only:
+// whatever else a client sends never reaches the store.
+
+const toScriptBeat = (beat: unknown): ScriptBeat | null => {
+  if (!isRecord(beat)) return null;
+  const { say, onScreenText, bRoll } = beat;
+  return isText(say) && Boolean(say.trim()) && isText(onScreenText) && isText(bRoll) ? { say, onScreenText, bRoll } : null;
+};
+
+const toHookScript = (script: unknown): HookScript | null => {
+  if (!isRecord(script)) return null;
+  const { duration, hook, points, cta, createdAt } = script;
+  if (!SCRIPT_DURATIONS.includes(duration as ScriptDuration) || !isText(createdAt)) return null;
+  if (!Array.isArray(points) || points.length === 0 || points.length > MAX_SCRIPT_POINTS) return null;
+  const beats = [hook, ...points, cta].map(toScriptBeat);
+  if (!beats.every((beat): beat is ScriptBeat => beat !== null)) return null;
+  return { duration: duration as ScriptDuration, hook: beats[0], points: beats.slice(1, -1), cta: beats[beats.length - 1], createdAt };
+};
+
+// `savedBy` is never taken from the client
+const toSavedHook = (hook: unknown): SavedHook | null => {
+  if (!isRecord(hook)) return null;
+  const { id, text, templateId, niche, topic, audience, tags, savedAt, script } = hook;
+  const valid =
+    isId(id) &&
+    isText(text) && Boolean(text.trim()) &&
+    Number.isInteger(templateId) &&
+    isText(niche) && isText(topic) && isText(audience) && isText(savedAt) &&
+    Array.isArray(tags) && tags.length <= MAX_TAGS && tags.every(isText);
+  if (!valid) return null;
+  const saved: SavedHook = { id, text, templateId: templateId as number, niche, topic, audience, tags: [...tags], savedAt };
+  if (script === undefined) return saved;
+  const checkedScript = toHookScript(script);
+  return checkedScript && { ...saved, script: checkedScript };
+};
+
+// Neither is `updatedBy`
+const toVoiceProfile = (profile: unknown): VoiceProfile | null => {
+  if (!isVoiceBrief(profile) || !profile.name.trim()) return null;
+  const { id, updatedAt } = profile as unknown as Record<string, unknown>;
+  if (!isId(id) || !isText(updatedAt)) return null;
+  const { name, description, dos, donts, forbiddenWords, exampleHooks } = profile;
+  return { id, name, description, dos: [...dos], donts: [...donts], forbiddenWords: [...forbiddenWords], exampleHooks: [...exampleHooks], updatedAt };
+};
+
+// Every item or null when any of them is invalid
+const toAll = <T>(items: unknown, convert: (item: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(items)) return null;
+  const converted = items.map(convert);
+  return converted.every((item): item is T => item !== null) ? converted : null;
+};
+
+const readName = (name: unknown) => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) throw new ApiError(400, 'INVALID_NAME');
+  return trimmed;
+};
+
+/** Applies a change as a member with at least `minimum` role and answers with the workspace as it is afterwards. */
+const updateWorkspace = async (
+  res: ServerResponse,
+  ctx: ApiContext,
+  email: string,
+  workspaceId: unknown,
+  minimum: WorkspaceRole,
+  change: (workspace: Workspace, data: StoreData) => void,
+) => {
+  const detail = await ctx.store.update(data => {
+    const { workspace } = requireMembership(data, workspaceId, email, minimum);
+    change(workspace, data);
+    return toWorkspaceDetail(data, workspace, email);
+  });
+  sendJson(res, 200, detail);
+};
+
+// --- WORKSPACES ---
+
+export const handleListWorkspaces = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const data = await ctx.store.read();
+  sendJson(res, 200, data.workspaces
+    .filter(workspace => workspace.members.some(member => member.email === session.email))
+    .map(workspace => toWorkspaceSummary(workspace, session.email)));
+};
+
+// Any signed-in user can start a workspace; they become its first owner.
+export const handleCreateWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ name?: string }>(req);
+  const name = readName(body.name);
+
+  const detail = await ctx.store.update(data => {
+    const now = new Date().toISOString();
+    const workspace: Workspace = {
+      id: randomUUID(),
+      name,
+      createdAt: now,
+      members: [{ email: session.email, role: 'owner', addedAt: now, addedBy: null }],
+      library: [],
+      voiceProfiles: [],
+    };
+    data.workspaces.push(workspace);
+    return toWorkspaceDetail(data, workspace, session.email);
+  });
+
+  sendJson(res, 200, detail);
+};
+
+export const handleGetWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const id = new URL(req.url || '', 'http://localhost').searchParams.get('id');
+  const data = await ctx.store.read();
+  const { workspace } = requireMembership(data, id, session.email, 'viewer');
+  sendJson(res, 200, toWorkspaceDetail(data, workspace, session.email));
+};
+
+export const handleRenameWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; name?: string }>(req);
+  const name = readName(body.name);
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'owner', workspace => {
+    workspace.name = name;
+  });
+};
+
+// Takes the shared hooks, voices and feed with it
+export const handleDeleteWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string }>(req);
+
+  await ctx.store.update(data => {
+    const { workspace } = requireMembership(data, body.workspaceId, session.email, 'owner');
+    data.workspaces = data.workspaces.filter(w => w !== workspace);
+    data.activity = data.activity.filter(entry => entry.workspaceId !== workspace.id);
+  });
+
+  sendJson(res, 200, { ok: true });
+};
+
+// --- MEMBERS ---
+
+// Adds a member by email, or changes the role of one already there. A workspace never runs out of owners.
+export const handleSaveMember = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<Partial<SaveMemberRequest>>(req);
+  const email = readTextField(body.email).toLowerCase();
+  if (!isValidEmail(email)) throw new ApiError(400, 'INVALID_EMAIL');
+  if (!isWorkspaceRole(body.role)) throw new ApiError(400, 'INVALID_ROLE');
+  const role = body.role;
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'owner', (workspace, data) => {
+    const member = workspace.members.find(m => m.email === email);
+    if (!member) {
+      workspace.members.push({ email, role, addedAt: new Date().toISOString(), addedBy: session.email });
+      logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'addedMember', detail: `${email} · ${role}` });
+      return;
+    }
+    if (member.role === role) return;
+    if (member.role === 'owner' && countOwners(workspace) === 1) throw new ApiError(409, 'LAST_OWNER');
+    member.role = role;
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'changedRole', detail: `${email} · ${role}` });
+  });
+};
+
+export const handleRemoveMember = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; email?: string }>(req);
+  const email = readTextField(body.email).toLowerCase();
+  // Owners leave through /leave, which keeps at least one of them
+  if (email === session.email) throw new ApiError(400, 'USE_LEAVE');
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'owner', (workspace, data) => {
+    if (!workspace.members.some(member => member.email === email)) throw new ApiError(404, 'NOT_FOUND');
+    workspace.members = workspace.members.filter(member => member.email !== email);
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'removedMember', detail: email });
+  });
+};
+
+export const handleLeaveWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string }>(req);
+
+  await ctx.store.update(data => {
+    const { workspace, role } = requireMembership(data, body.workspaceId, session.email, 'viewer');
+    if (role === 'owner' && countOwners(workspace) === 1) throw new ApiError(409, 'LAST_OWNER');
+    workspace.members = workspace.members.filter(member => member.email !== session.email);
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'removedMember', detail: session.email });
+  });
+
+  sendJson(res, 200, { ok: true });
+};
+
+// --- SHARED LIBRARY AND VOICES ---
+
+// Saving a hook whose text is already shared is a no-op, like in the personal library
+export const handleSaveWorkspaceHook = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; hook?: unknown }>(req);
+  const hook = toSavedHook(body.hook);
+  if (!hook) throw new ApiError(400, 'INVALID_HOOK');
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'editor', (workspace, data) => {
+    const index = workspace.library.findIndex(saved => saved.id === hook.id);
+    if (index >= 0) {
+      // Replaced, not merged, so a script the editor removed does not survive
+      const { savedBy, savedAt } = workspace.library[index];
+      workspace.library[index] = { ...hook, savedBy, savedAt };
+      logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'editedHook', detail: hook.text });
+      return;
+    }
+    if (workspace.library.some(saved => saved.text === hook.text)) return;
+    if (workspace.library.length >= MAX_WORKSPACE_HOOKS) throw new ApiError(409, 'WORKSPACE_FULL');
+    workspace.library.unshift({ ...hook, savedBy: session.email, savedAt: new Date().toISOString() });
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'savedHook', detail: hook.text });
+  });
+};
+
+export const handleDeleteWorkspaceHook = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; id?: string }>(req);
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'editor', (workspace, data) => {
+    const hook = workspace.library.find(saved => saved.id === body.id);
+    if (!hook) throw new ApiError(404, 'NOT_FOUND');
+    workspace.library = workspace.library.filter(saved => saved !== hook);
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'deletedHook', detail: hook.text });
+  });
+};
+
+export const handleSaveWorkspaceVoice = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; profile?: unknown }>(req);
+  const checked = toVoiceProfile(body.profile);
+  if (!checked) throw new ApiError(400, 'INVALID_VOICE');
+  const profile: VoiceProfile = { ...checked, updatedAt: new Date().toISOString(), updatedBy: session.email };
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'editor', (workspace, data) => {
+    const index = workspace.voiceProfiles.findIndex(p => p.id === profile.id);
+    if (index >= 0) {
+      workspace.voiceProfiles[index] = profile;
+    } else {
+      if (workspace.voiceProfiles.length >= MAX_WORKSPACE_VOICES) throw new ApiError(409, 'WORKSPACE_FULL');
+      workspace.voiceProfiles.unshift(profile);
+    }
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'savedVoice', detail: profile.name });
+  });
+};
+
+export const handleDeleteWorkspaceVoice = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<{ workspaceId?: string; id?: string }>(req);
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'editor', (workspace, data) => {
+    const profile = workspace.voiceProfiles.find(p => p.id === body.id);
+    if (!profile) throw new ApiError(404, 'NOT_FOUND');
+    workspace.voiceProfiles = workspace.voiceProfiles.filter(p => p !== profile);
+    logActivity(data, { workspaceId: workspace.id, email: session.email, kind: 'deletedVoice', detail: profile.name });
+  });
+};
+
+/**
+ * Copies a browser's personal hooks and voices into the workspace. Hooks whose text and voices whose
+ * name are already shared are skipped; everything copied gets new ids and the importer as its author.
+ */
+export const handleImportToWorkspace = async (req: IncomingMessage, res: ServerResponse, ctx: ApiContext) => {
+  const session = await requireSession(req, ctx);
+  const body = await readJsonBody<Partial<ImportToWorkspaceRequest>>(req);
+  const library = toAll(body.library ?? [], toSavedHook);
+  const voiceProfiles = toAll(body.voiceProfiles ?? [], toVoiceProfile);
+  if (!library) throw new ApiError(400, 'INVALID_HOOK');
+  if (!voiceProfiles) throw new ApiError(400, 'INVALID_VOICE');
+
+  await updateWorkspace(res, ctx, session.email, body.workspaceId, 'editor', (workspace, data) => {
+    const now = new Date().toISOString();
+    const texts = new Set(workspace.library.map(saved => saved.text));
+    const names = new Set(workspace.voiceProfiles.map(profile => profile.name.toLowerCase()));
+    const hooks = library
+      .filter(hook => !texts.has(hook.text) && texts.add(hook.text))
+      .map(hook => ({ ...hook, id: randomUUID(), savedBy: session.email }));
+    const voices = voiceProfiles
+      .filter(profile => !names.has(profile.name.toLowerCase()) && names.add(profile.name.toLowerCase()))
+      .map(profile => ({ ...profile, id: randomUUID(), updatedAt: now, updatedBy: session.email }));
+    if (workspace.library.length + hooks.length > MAX_WORKSPACE_HOOKS) throw new ApiError(409, 'WORKSPACE_FULL');
+    if (workspace.voiceProfiles.length + voices.length > MAX_WORKSPACE_VOICES) throw new ApiError(409, 'WORKSPACE_FULL');
+    if (hooks.length + voices.length === 0) return;
+
+    workspace.library = [...hooks, ...workspace.library];
+    workspace.voiceProfiles = [...voices, ...workspace.voiceProfiles];
+    logActivity(data, {
+      workspaceId: workspace.id,
+      email: session.email,
+      kind: 'imported',
+      detail: '',
+      count: hooks.length + voices.length,
+    });
+  });
+};
@@ -0,0 +1,80 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ApiErrorBody } from '../types';
+
+// Error carrying the HTTP status and a stable machine readable code the client maps to a message.
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message?: string, public retryAfterSeconds?: number) {
+    super(message || code);
+    this.name = 'ApiError';
+  }
+}
+
+export const isValidEmail = (email: string) => Boolean(email) && email.includes('@') && email.includes('.');
+
+// Trimmed text field from a request body; missing is empty, anything other than a string is a bad request.
+export const readTextField = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') throw new ApiError(400, 'INVALID_REQUEST');
+  return value.trim();
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new ApiError(413, 'PAYLOAD_TOO_LARGE');
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {} as T;
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new ApiError(400, 'INVALID_JSON');
+  }
+  // Every endpoint takes an object; `null`, arrays and bare values would crash the handlers' field reads
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new ApiError(400, 'INVALID_BODY');
+  return body as T;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, err: unknown) => {
+  if (err instanceof ApiError) {
+    const body: ApiErrorBody = { error: err.code, message: err.message };
+    if (err.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+      body.retryAfterSeconds = err.retryAfterSeconds;
+    }
+    sendJson(res, err.status, body);
+    return;
+  }
+  console.error('[api] Unexpected error:', err);
+  sendJson(res, 500, { error: 'INTERNAL_ERROR' });
+};
+
+/**
+ * Newline delimited JSON response. Headers are only sent with the first event,
+ * so a handler can still fall back to a regular `sendError` if it fails before streaming anything.
+ */
+export const createNdjsonWriter = (res: ServerResponse) => ({
+  write: (event: unknown) => {
+    if (!res.headersSent) {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('X-Accel-Buffering', 'no');
+    }
+    res.write(`${JSON.stringify(event)}\n`);
+  },
+  end: () => res.end(),
+});
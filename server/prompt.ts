@@ -0,0 +1,231 @@
+import {
+  CritiqueRequest,
+  HookRewrite,
+  Locale,
+  NicheContext,
+  NicheContextKey,
+  NicheInsightsRequest,
+  Platform,
+  PromptVariable,
+  RewriteMode,
+  ScriptDuration,
+  ScriptRequest,
+  VoiceBrief,
+} from '../types';
+import { NICHE_CONTEXT_KEYS, NICHE_INSIGHTS_PER_GROUP, PLATFORM_RULES, SCRIPT_POINT_COUNTS } from '../constants';
+import { renderPrompt } from '../utils/promptTemplate';
+import { AdaptationRequest } from './providers/types';
+
+// How each locale is described to the model; regional variants matter for vocabulary and forms of address.
+const OUTPUT_LANGUAGES: Record<Locale, string> = {
+  es: 'neutral Latin American Spanish that reads naturally in any Spanish-speaking country (use "tú", avoid regional slang)',
+  'es-MX': 'Mexican Spanish (use "tú" and vocabulary natural in Mexico)',
+  'es-ES': 'Spanish from Spain (use "tú", "vosotros" for plural and vocabulary natural in Spain)',
+  en: 'English',
+  pt: 'Brazilian Portuguese (use "você")',
+};
+
+// Where the hook is published and what that means for its wording.
+const PLATFORM_BRIEFS: Record<Platform, string> = {
+  generic: 'Generic social media post.',
+  tiktok: 'TikTok video. The hook is said on camera in the first 3 seconds and shown as on-screen text.',
+  reels: 'Instagram Reels video. The hook is said on camera in the first 3 seconds and shown as on-screen text.',
+  shorts: 'YouTube Shorts video. The hook is said on camera in the first 3 seconds and shown as on-screen text.',
+  linkedin: 'LinkedIn post. The hook is the opening line, visible before the "...see more" cut.',
+  email: 'Email newsletter. The hook is the subject line shown in the inbox.',
+};
+
+const buildPlatformRules = (platform: Platform) => {
+  const rules = PLATFORM_RULES[platform];
+  const lines = [
+    `Each hook must be at most ${rules.maxChars} characters long. Shorten or drop secondary parts of the template if needed.`,
+    rules.style === 'spoken'
+      ? 'Write to be spoken out loud: short sentences, natural rhythm, no parentheses, hashtags or symbols a speaker cannot say.'
+      : 'Write to be read: tight, scannable wording.',
+    {
+      none: 'Do not use emojis.',
+      one: 'Use at most one emoji, only if it adds meaning.',
+      free: 'Emojis are allowed but not required.',
+    }[rules.emoji],
+  ];
+  if (rules.subjectLine) {
+    lines.push('It is an email subject line: no ending period, no ALL CAPS words, no spam words like "free" or "urgent".');
+  }
+  return lines.map(line => `- ${line}`).join('\n        ');
+};
+
+const buildVoiceSection = (voice: VoiceBrief) => {
+  const lines = [`Write every hook in the brand voice "${voice.name}".`];
+  if (voice.description) lines.push(`Tone: ${voice.description}`);
+  if (voice.dos.length) lines.push(`Do: ${voice.dos.join('; ')}`);
+  if (voice.donts.length) lines.push(`Don't: ${voice.donts.join('; ')}`);
+  if (voice.forbiddenWords.length) {
+    lines.push(`Never use these words or phrases, in any form: ${voice.forbiddenWords.map(word => `"${word}"`).join(', ')}`);
+  }
+  if (voice.exampleHooks.length) {
+    lines.push(`Hooks already written in this voice (match their tone, do not copy them): ${JSON.stringify(voice.exampleHooks)}`);
+  }
+  return `
+
+        BRAND VOICE:
+        ${lines.map(line => `- ${line}`).join('\n        ')}`;
+};
+
+// Accepted niche suggestions, named after the template slots they are meant for.
+const CONTEXT_LABELS: Record<NicheContextKey, string> = {
+  resultado: 'Desired result (use it for [resultado] and similar)',
+  situacionNegativa: 'Current negative situation (use it for [situación negativa actual] and similar)',
+  odio: 'Task the audience hates doing (use it for [cosa que tu audiencia odia hacer] and similar)',
+};
+
+// One context line per accepted value, each with its own line break; empty when nothing was accepted
+const buildContextLines = (context: NicheContext = {}) =>
+  NICHE_CONTEXT_KEYS.filter(key => context[key]?.trim())
+    .map(key => `\n        - ${CONTEXT_LABELS[key]}: "${context[key]!.trim()}"`)
+    .join('');
+
+// What each card action asks for; the current hook is quoted right after.
+const REWRITE_INSTRUCTIONS: Record<RewriteMode, (count: number) => string> = {
+  regenerate: () => 'Write a fresh adaptation of the template, clearly different from the current hook.',
+  variants: count =>
+    `Write ${count} alternative versions of the current hook, different from it and from each other. ` +
+    `Return ${count} objects, all with the template's id as "templateId".`,
+  shorter: () => 'Rewrite the current hook noticeably shorter (about two thirds of its length or less), keeping its idea and trigger.',
+  polemic: () =>
+    'Rewrite the current hook to be more polemic: challenge a common belief head-on. No insults and no false claims.',
+  softer: () => 'Rewrite the current hook in a softer, more empathetic tone, keeping its idea.',
+};
+
+const buildRewriteSection = ({ mode, sourceText, count, avoidTexts = [] }: HookRewrite) => `
+
+        REWRITE:
+        - The template was already adapted to: ${JSON.stringify(sourceText)}
+        - ${REWRITE_INSTRUCTIONS[mode](count)}${avoidTexts.length ? `
+        - It reads almost the same as these other hooks; do not repeat or paraphrase them: ${JSON.stringify(avoidTexts)}` : ''}
+        - All the rules above still apply.`;
+
+// Prompt version 1. Saved versions start as a copy of it and use the same {{variables}}.
+export const DEFAULT_ADAPTATION_PROMPT = `
+        Act as a professional copywriter and viral content expert.
+        
+        CONTEXT:
+        The user wants to adapt viral hook templates to their specific niche.
+        - User Niche: "{{niche}}"
+        - Video Topic/Idea: "{{topic}}"
+        - Target Audience: "{{audience}}"
+        - Platform: {{platform}}{{context}}
+
+        TASK:
+        I will provide a list of templates containing placeholders in square brackets, like [tema], [topic] or [resultado].
+        You must adapt each template to be grammatically correct, engaging, and relevant to the user's input.
+
+        RULES:
+        1. Replace ALL placeholders ([...]) with specific terms related to the Niche and Topic.
+        2. Do NOT leave any brackets [] in the final output.
+        3. Maintain the psychological trigger (curiosity, fear, gain) of the original hook.
+        4. Write every hook in {{language}}. Templates that are in another language must be translated,
+           keeping their structure.
+        5. Return ONLY a JSON array of objects shaped like {"templateId": number, "text": string}, one per template,
+           copying each template's "id" into "templateId". No markdown formatting.
+
+        PLATFORM RULES:
+        {{platformRules}}{{voice}}{{rewrite}}
+
+        TEMPLATES TO ADAPT:
+        {{templates}}
+      `;
+
+// The voice and rewrite sections bring their own heading and leading blank line, and are empty when unused.
+// So do the context lines, which keep prompts without accepted suggestions exactly as they were.
+export const buildAdaptationPrompt = ({ formData, templates, locale, voice, rewrite, prompt }: AdaptationRequest) => {
+  const values: Record<PromptVariable, string> = {
+    niche: formData.niche,
+    topic: formData.topic,
+    audience: formData.audience || "General audience within the niche",
+    platform: PLATFORM_BRIEFS[formData.platform],
+    context: buildContextLines(formData.context),
+    language: OUTPUT_LANGUAGES[locale],
+    platformRules: buildPlatformRules(formData.platform),
+    voice: voice ? buildVoiceSection(voice) : '',
+    rewrite: rewrite ? buildRewriteSection(rewrite) : '',
+    templates: JSON.stringify(templates.map(t => ({ id: t.id, template: t.template }))),
+  };
+  return renderPrompt(prompt.body, { ...prompt.extraVariables, ...values });
+};
+
+export const buildCritiquePrompt = ({ formData, hooks, locale }: CritiqueRequest) => `
+        Act as a demanding editor of viral social media hooks.
+
+        CONTEXT:
+        - User Niche: "${formData.niche}"
+        - Video Topic/Idea: "${formData.topic}"
+        - Target Audience: "${formData.audience || "General audience within the niche"}"
+        - Platform: ${PLATFORM_BRIEFS[formData.platform]}
+
+        TASK:
+        Rate each hook from 0 to 10 on:
+        - clarity: understood at first glance, no ambiguity or convoluted wording.
+        - specificity: concrete details (numbers, names, situations) instead of generic claims.
+        - curiosity: opens a gap the viewer needs to close by watching or reading on.
+        Be strict: 5 is an average hook, 9-10 is exceptional.
+        Add a one sentence comment with the single most useful improvement, written in ${OUTPUT_LANGUAGES[locale]}.
+
+        Return ONLY a JSON array of objects shaped like
+        {"index": number, "clarity": number, "specificity": number, "curiosity": number, "comment": string},
+        one per hook, copying each hook's "index". No markdown formatting.
+
+        HOOKS TO RATE:
+        ${JSON.stringify(hooks.map((text, index) => ({ index, text })))}
+      `;
+
+// Spoken Spanish, English and Portuguese all land around 150 words per minute on camera.
+const SPOKEN_WORDS_PER_SECOND = 2.5;
+
+const scriptWordBudget = (duration: ScriptDuration) => Math.round(duration * SPOKEN_WORDS_PER_SECOND);
+
+export const buildScriptPrompt = ({ formData, hook, duration, locale, voice }: ScriptRequest) => `
+        Act as a short-form video scriptwriter.
+
+        CONTEXT:
+        - User Niche: "${formData.niche}"
+        - Video Topic/Idea: "${formData.topic}"
+        - Target Audience: "${formData.audience || "General audience within the niche"}"
+        - Platform: ${PLATFORM_BRIEFS[formData.platform]}${buildContextLines(formData.context)}
+        - Opening hook (said in the first 3 seconds, keep it word for word): ${JSON.stringify(hook)}
+
+        TASK:
+        Write a ${duration} second video script that delivers what the hook promises.
+        - Exactly ${SCRIPT_POINT_COUNTS[duration]} talking points after the hook, each one a single concrete idea.
+        - End with a call to action that fits the platform (follow, comment, save, link...).
+        - Everything said, hook included, must fit in about ${scriptWordBudget(duration)} words.
+        - For every part, add a short on-screen caption (a few words, not a transcript) and a B-roll cue:
+          what the viewer sees, filmable with a phone.
+        - Write everything in ${OUTPUT_LANGUAGES[locale]}.${voice ? buildVoiceSection(voice) : ''}
+
+        Return ONLY a JSON array of objects shaped like
+        {"part": "hook" | "point" | "cta", "say": string, "onScreenText": string, "bRoll": string},
+        in speaking order: one "hook", the "point" items, one "cta". No markdown formatting.
+      `;
+
+// The phrasing of each kind matches how the templates use it, so accepted values drop into them as they are.
+export const buildNicheInsightsPrompt = ({ niche, locale, platform = 'generic' }: NicheInsightsRequest) => `
+        Act as a content strategist who follows what is trending on social media.
+
+        CONTEXT:
+        - User Niche: "${niche}"
+        - Platform: ${PLATFORM_BRIEFS[platform]}
+
+        TASK:
+        The user knows their niche but not yet what to talk about or to whom.
+        Suggest ${NICHE_INSIGHTS_PER_GROUP} items of each kind:
+        - "topic": a specific, current angle for one video or post, not the niche itself.
+        - "audience": a concrete audience segment within the niche, in a few words.
+        - "result": an outcome that audience wants, as a noun phrase (e.g. "a calendar full of clients").
+        - "painPoint": the negative situation they are in now, as a short phrase (e.g. "being stuck at the same income").
+        - "hatedTask": a task they hate doing, as a verb phrase without a subject (e.g. "chase unpaid invoices").
+        Keep every item under 60 characters, with no quotes, hashtags or emojis.
+        Write everything in ${OUTPUT_LANGUAGES[locale]}.
+
+        Return ONLY a JSON array of objects shaped like
+        {"kind": "topic" | "audience" | "result" | "painPoint" | "hatedTask", "text": string}. No markdown formatting.
+      `;
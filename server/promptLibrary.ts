@@ -0,0 +1,36 @@
+import { PromptLibrary, PromptVersion } from '../types';
+import { BUILTIN_PROMPT_VERSION } from '../utils/promptTemplate';
+import { ApiError } from './http';
+import { DEFAULT_ADAPTATION_PROMPT } from './prompt';
+import { StoreData } from './store';
+
+const BUILTIN_PROMPT: PromptVersion = {
+  version: BUILTIN_PROMPT_VERSION,
+  body: DEFAULT_ADAPTATION_PROMPT,
+  extraVariables: {},
+  note: '',
+  createdAt: null,
+  createdBy: null,
+};
+
+export const getPromptLibrary = (data: StoreData): PromptLibrary => ({
+  activeVersion: data.activePromptVersion,
+  versions: [...data.promptVersions].reverse().concat(BUILTIN_PROMPT),
+});
+
+export const findPromptVersion = (data: StoreData, version: number) =>
+  version === BUILTIN_PROMPT_VERSION ? BUILTIN_PROMPT : data.promptVersions.find(p => p.version === version);
+
+export const getNextPromptVersion = (data: StoreData) =>
+  Math.max(BUILTIN_PROMPT_VERSION, ...data.promptVersions.map(p => p.version)) + 1;
+
+/**
+ * The prompt a generation runs with: the requested version, or the active one. An active version
+ * removed by hand from the store falls back to the built-in prompt instead of breaking generation.
+ */
+export const resolvePrompt = (data: StoreData, requested?: number) => {
+  if (requested === undefined) return findPromptVersion(data, data.activePromptVersion) ?? BUILTIN_PROMPT;
+  const prompt = findPromptVersion(data, requested);
+  if (!prompt) throw new ApiError(400, 'UNKNOWN_PROMPT_VERSION');
+  return prompt;
+};
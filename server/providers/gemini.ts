@@ -0,0 +1,129 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { buildAdaptationPrompt, buildCritiquePrompt, buildNicheInsightsPrompt, buildScriptPrompt } from '../prompt';
+import { createJsonArrayStreamParser } from './jsonStream';
+import { NO_USAGE, parseRetryAfterMs, toAdaptedHook, toGeminiUsage, toHookCritiques, toNicheInsights, toScriptDraft } from './parse';
+import { HookProvider, ProviderError, UsageListener } from './types';
+
+const toProviderError = (err: any) => {
+  if (err instanceof ProviderError) return err;
+  if (err?.status === 429 || String(err).includes('429')) {
+    return new ProviderError('RATE_LIMITED', undefined, parseRetryAfterMs(String(err?.message || err)));
+  }
+  return new ProviderError('UPSTREAM_ERROR', String(err?.message || err));
+};
+
+// Every response is a JSON array of objects with all the listed fields.
+const arrayOf = (properties: Record<string, Schema>): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.OBJECT, properties, required: Object.keys(properties) },
+});
+
+export const createGeminiProvider = (apiKey: string, model: string): HookProvider => {
+  // A missing key is reported as a call that spent nothing, so usage listeners always hear back
+  const createClient = (onUsage?: UsageListener) => {
+    if (!apiKey) {
+      onUsage?.(NO_USAGE);
+      throw new ProviderError('API_KEY_MISSING');
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  // One non-streaming call: reports its usage whatever happens and returns the array items as parsed.
+  const generateItems = async (contents: string, schema: Schema, signal?: AbortSignal, onUsage?: UsageListener) => {
+    const ai = createClient(onUsage);
+    let usage = NO_USAGE;
+    let text: string | undefined;
+
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents,
+        config: { abortSignal: signal, responseMimeType: 'application/json', responseSchema: schema },
+      });
+      text = response.text;
+      usage = toGeminiUsage(response.usageMetadata) ?? usage;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw toProviderError(err);
+    } finally {
+      onUsage?.(usage);
+    }
+
+    if (!text) throw new ProviderError('EMPTY_RESPONSE');
+    return createJsonArrayStreamParser().push(text);
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    async *streamHooks(request, signal, onUsage) {
+      const ai = createClient(onUsage);
+      const parser = createJsonArrayStreamParser();
+      // Each chunk carries the running totals, so the last one seen is the call's usage
+      let usage = NO_USAGE;
+      let received = false;
+
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: buildAdaptationPrompt(request),
+          config: {
+            abortSignal: signal,
+            responseMimeType: 'application/json',
+            responseSchema: arrayOf({
+              templateId: { type: Type.INTEGER },
+              text: { type: Type.STRING },
+            }),
+          },
+        });
+
+        for await (const chunk of stream) {
+          usage = toGeminiUsage(chunk.usageMetadata) ?? usage;
+          const text = chunk.text;
+          if (!text) continue;
+          received = true;
+          for (const item of parser.push(text)) {
+            const hook = toAdaptedHook(item);
+            if (hook) yield hook;
+          }
+        }
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw toProviderError(err);
+      } finally {
+        onUsage?.(usage);
+      }
+
+      if (!received) throw new ProviderError('EMPTY_RESPONSE');
+    },
+
+    async critiqueHooks(request, signal, onUsage) {
+      const items = await generateItems(buildCritiquePrompt(request), arrayOf({
+        index: { type: Type.INTEGER },
+        clarity: { type: Type.NUMBER },
+        specificity: { type: Type.NUMBER },
+        curiosity: { type: Type.NUMBER },
+        comment: { type: Type.STRING },
+      }), signal, onUsage);
+      return toHookCritiques(items, request.hooks.length);
+    },
+
+    async expandScript(request, signal, onUsage) {
+      const items = await generateItems(buildScriptPrompt(request), arrayOf({
+        part: { type: Type.STRING, enum: ['hook', 'point', 'cta'] },
+        say: { type: Type.STRING },
+        onScreenText: { type: Type.STRING },
+        bRoll: { type: Type.STRING },
+      }), signal, onUsage);
+      return toScriptDraft(items, request.hook);
+    },
+
+    async suggestNicheInsights(request, signal, onUsage) {
+      const items = await generateItems(buildNicheInsightsPrompt(request), arrayOf({
+        kind: { type: Type.STRING, enum: ['topic', 'audience', 'result', 'painPoint', 'hatedTask'] },
+        text: { type: Type.STRING },
+      }), signal, onUsage);
+      return toNicheInsights(items);
+    },
+  };
+};
@@ -0,0 +1,20 @@
+import { ServerConfig } from '../config';
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { HookProvider } from './types';
+
+export const createProvider = ({ provider }: ServerConfig): HookProvider => {
+  switch (provider.name) {
+    case 'openai':
+      return createOpenAICompatibleProvider(provider.baseUrl, provider.apiKey, provider.model);
+    case 'local':
+      return createLocalProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(provider.apiKey, provider.model);
+  }
+};
+
+export { ProviderError } from './types';
+export type { HookProvider, ProviderName } from './types';
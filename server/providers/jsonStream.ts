@@ -0,0 +1,56 @@
+/**
+ * Incremental parser for a streamed JSON array of objects (`[{...}, {...}]`).
+ * Feed it text chunks as they arrive; it returns every top-level object completed so far.
+ * Markdown fences or prose around the array are ignored.
+ */
+export const createJsonArrayStreamParser = () => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0; // 1 = inside the outer array, 2+ = inside an item
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  const push = (chunk: string): unknown[] => {
+    buffer += chunk;
+    const items: unknown[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        if (depth > 0) inString = true;
+      } else if (char === '[' || char === '{') {
+        if (depth === 1 && char === '{') itemStart = position;
+        if (depth > 0 || char === '[') depth++;
+      } else if (char === ']' || char === '}') {
+        if (depth > 0) depth--;
+        if (depth === 1 && char === '}' && itemStart >= 0) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          } catch {
+            // A malformed item is skipped; the template it belonged to is simply re-requested
+          }
+          itemStart = -1;
+        }
+      }
+    }
+
+    // Everything before the current item (or all of it, between items) is no longer needed
+    const keepFrom = itemStart >= 0 ? itemStart : position;
+    buffer = buffer.slice(keepFrom);
+    position -= keepFrom;
+    if (itemStart >= 0) itemStart = 0;
+
+    return items;
+  };
+
+  return { push };
+};
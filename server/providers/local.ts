@@ -0,0 +1,48 @@
+import { buildDefaultValues, fillTemplate } from '../../utils/placeholderFill';
+import { getLanguage } from '../../i18n/locales';
+import { SCRIPT_POINT_COUNTS } from '../../constants';
+import { NICHE_INSIGHT_SKELETONS } from './localInsights';
+import { SCRIPT_SKELETONS } from './localScript';
+import { NO_USAGE } from './parse';
+import { HookProvider } from './types';
+
+// Offline, deterministic provider: fills placeholders from a dictionary derived from the form.
+// There is no model to ask for a critique, so every hook comes back unrated, and scripts and
+// niche insights follow a fixed skeleton. No tokens are spent either, but calls are still
+// reported so requests get metered like with any other provider.
+export const createLocalProvider = (): HookProvider => ({
+  name: 'local',
+  model: 'diccionario-local',
+  deterministic: true,
+  // `rewrite` is ignored: the same form always fills a template the same way, so a rewrite brings
+  // back that one fill, whatever variant count or mode was asked for.
+  async *streamHooks({ formData, templates, locale }, _signal, onUsage) {
+    const values = buildDefaultValues(formData, getLanguage(locale));
+    try {
+      for (const { id, template } of templates) {
+        yield { templateId: id, text: fillTemplate(template, values) };
+      }
+    } finally {
+      onUsage?.(NO_USAGE);
+    }
+  },
+  async critiqueHooks({ hooks }, _signal, onUsage) {
+    onUsage?.(NO_USAGE);
+    return hooks.map(() => null);
+  },
+  async expandScript({ formData, hook, duration, locale }, _signal, onUsage) {
+    onUsage?.(NO_USAGE);
+    const language = getLanguage(locale);
+    const values = buildDefaultValues(formData, language);
+    const skeleton = SCRIPT_SKELETONS[language];
+    return {
+      hook: { say: hook, onScreenText: '', bRoll: skeleton.hookBRoll },
+      points: skeleton.points(values).slice(0, SCRIPT_POINT_COUNTS[duration]),
+      cta: skeleton.cta(values),
+    };
+  },
+  async suggestNicheInsights({ niche, locale }, _signal, onUsage) {
+    onUsage?.(NO_USAGE);
+    return NICHE_INSIGHT_SKELETONS[getLanguage(locale)](niche);
+  },
+});
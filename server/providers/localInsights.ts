@@ -0,0 +1,65 @@
+import { Language, NicheInsights } from '../../types';
+
+// What the offline provider suggests for a niche: generic angles with the niche dropped in.
+export const NICHE_INSIGHT_SKELETONS: Record<Language, (niche: string) => NicheInsights> = {
+  es: niche => ({
+    topics: [
+      `Errores comunes en ${niche}`,
+      `Mitos de ${niche} que nadie cuestiona`,
+      `${niche} para principiantes`,
+      `Cómo empezar en ${niche} sin experiencia`,
+      `Herramientas que uso en ${niche}`,
+      `Lo que cambió en ${niche} este año`,
+    ],
+    audiences: [
+      `principiantes en ${niche}`,
+      `profesionales de ${niche} con poco tiempo`,
+      `personas que ya probaron ${niche} y lo dejaron`,
+    ],
+    context: {
+      resultado: [`resultados reales en ${niche}`, 'más clientes cada mes', 'ahorrar horas cada semana'],
+      situacionNegativa: ['estar estancado', 'no ver resultados', 'empezar de cero cada mes'],
+      odio: ['perder horas cada día', 'repetir las mismas tareas', 'improvisar cada publicación'],
+    },
+  }),
+  en: niche => ({
+    topics: [
+      `Common mistakes in ${niche}`,
+      `${niche} myths nobody questions`,
+      `${niche} for beginners`,
+      `How to start in ${niche} with no experience`,
+      `Tools I use for ${niche}`,
+      `What changed in ${niche} this year`,
+    ],
+    audiences: [
+      `${niche} beginners`,
+      `busy ${niche} professionals`,
+      `people who tried ${niche} and gave up`,
+    ],
+    context: {
+      resultado: [`real results in ${niche}`, 'more clients every month', 'hours saved every week'],
+      situacionNegativa: ['feeling stuck', 'seeing no results', 'starting from scratch every month'],
+      odio: ['waste hours every day', 'repeat the same tasks', 'improvise every post'],
+    },
+  }),
+  pt: niche => ({
+    topics: [
+      `Erros comuns em ${niche}`,
+      `Mitos de ${niche} que ninguém questiona`,
+      `${niche} para iniciantes`,
+      `Como começar em ${niche} sem experiência`,
+      `Ferramentas que uso em ${niche}`,
+      `O que mudou em ${niche} este ano`,
+    ],
+    audiences: [
+      `iniciantes em ${niche}`,
+      `profissionais de ${niche} sem tempo`,
+      `pessoas que tentaram ${niche} e desistiram`,
+    ],
+    context: {
+      resultado: [`resultados reais em ${niche}`, 'mais clientes todo mês', 'economizar horas toda semana'],
+      situacionNegativa: ['estar estagnado', 'não ver resultados', 'começar do zero todo mês'],
+      odio: ['perder horas todos os dias', 'repetir as mesmas tarefas', 'improvisar cada post'],
+    },
+  }),
+};
@@ -0,0 +1,44 @@
+import { Language, PlaceholderValues, ScriptBeat } from '../../types';
+
+interface ScriptSkeleton {
+  hookBRoll: string;
+  points: (v: PlaceholderValues) => ScriptBeat[]; // As many as the longest script needs
+  cta: (v: PlaceholderValues) => ScriptBeat;
+}
+
+// What the offline provider says in a script: the form's default values dropped into fixed beats.
+export const SCRIPT_SKELETONS: Record<Language, ScriptSkeleton> = {
+  es: {
+    hookBRoll: 'Primer plano, mirada a cámara',
+    points: v => [
+      { say: `El error que te aleja de ${v.resultado}: ${v.tarea}.`, onScreenText: 'El error', bRoll: 'Hablando a cámara, gesto de "no"' },
+      { say: `Por qué ${v.problema} te deja en ${v.situacionNegativa}.`, onScreenText: 'La causa', bRoll: 'Tomas del día a día del nicho' },
+      { say: `Lo que funciona: ${v.estrategia}, ${v.frecuencia}.`, onScreenText: 'La solución', bRoll: 'Pizarra o pantalla con los pasos' },
+      { say: `En ${v.tiempo} puedes ${v.situacionPositiva}.`, onScreenText: v.tiempo || '', bRoll: 'Antes y después' },
+      { say: `Empieza hoy con ${v.recurso}.`, onScreenText: 'Primer paso', bRoll: 'El recurso en pantalla' },
+    ],
+    cta: v => ({ say: `Sígueme para más sobre ${v.tema}.`, onScreenText: 'Sígueme', bRoll: 'Señalar el botón de seguir' }),
+  },
+  en: {
+    hookBRoll: 'Close-up, looking into the camera',
+    points: v => [
+      { say: `The mistake keeping you from ${v.resultado}: ${v.tarea}.`, onScreenText: 'The mistake', bRoll: 'Talking to camera, shaking head' },
+      { say: `Why ${v.problema} keeps you ${v.situacionNegativa}.`, onScreenText: 'The cause', bRoll: 'Everyday shots from the niche' },
+      { say: `What works: ${v.estrategia}, ${v.frecuencia}.`, onScreenText: 'The fix', bRoll: 'Whiteboard or screen with the steps' },
+      { say: `In ${v.tiempo} you can ${v.situacionPositiva}.`, onScreenText: v.tiempo || '', bRoll: 'Before and after' },
+      { say: `Start today with ${v.recurso}.`, onScreenText: 'First step', bRoll: 'The resource on screen' },
+    ],
+    cta: v => ({ say: `Follow for more on ${v.tema}.`, onScreenText: 'Follow', bRoll: 'Point at the follow button' }),
+  },
+  pt: {
+    hookBRoll: 'Close, olhando para a câmera',
+    points: v => [
+      { say: `O erro que te afasta de ${v.resultado}: ${v.tarea}.`, onScreenText: 'O erro', bRoll: 'Falando para a câmera, gesto de "não"' },
+      { say: `Por que ${v.problema} te deixa em ${v.situacionNegativa}.`, onScreenText: 'A causa', bRoll: 'Cenas do dia a dia do nicho' },
+      { say: `O que funciona: ${v.estrategia}, ${v.frecuencia}.`, onScreenText: 'A solução', bRoll: 'Quadro ou tela com os passos' },
+      { say: `Em ${v.tiempo} você pode ${v.situacionPositiva}.`, onScreenText: v.tiempo || '', bRoll: 'Antes e depois' },
+      { say: `Comece hoje com ${v.recurso}.`, onScreenText: 'Primeiro passo', bRoll: 'O recurso na tela' },
+    ],
+    cta: v => ({ say: `Me siga para mais sobre ${v.tema}.`, onScreenText: 'Me siga', bRoll: 'Apontar para o botão de seguir' }),
+  },
+};
@@ -0,0 +1,137 @@
+import { buildAdaptationPrompt, buildCritiquePrompt, buildNicheInsightsPrompt, buildScriptPrompt } from '../prompt';
+import { createJsonArrayStreamParser } from './jsonStream';
+import { NO_USAGE, parseRetryAfterMs, toAdaptedHook, toHookCritiques, toNicheInsights, toOpenAIUsage, toScriptDraft } from './parse';
+import { HookProvider, ProviderError, UsageListener } from './types';
+
+// The part of a streamed chat completion chunk we read
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: unknown;
+}
+
+// Likewise for a whole (non-streamed) completion
+interface ChatCompletion {
+  choices?: { message?: { content?: unknown } }[];
+  usage?: unknown;
+}
+
+// Yields the `data:` payloads of a server-sent events body. A connection dropped mid-stream fails like
+// a failed request (UPSTREAM_ERROR), so it is retried the same way; our own cancellation is left as is.
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  const decoder = new TextDecoder();
+  let pending = '';
+  try {
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      pending += decoder.decode(chunk, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice('data:'.length).trim();
+      }
+    }
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    throw new ProviderError('UPSTREAM_ERROR', String(err?.message || err));
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, OpenRouter, Ollama, LM Studio...).
+ * The key is optional because local servers usually do not require one.
+ */
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string, model: string): HookProvider => {
+  const postChatCompletion = async (prompt: string, stream: boolean, temperature: number, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        stream,
+        // Without this, streamed responses never say how many tokens they used
+        ...(stream && { stream_options: { include_usage: true } }),
+      }),
+    }).catch((err) => {
+      if (signal?.aborted) throw err;
+      throw new ProviderError('UPSTREAM_ERROR', String(err?.message || err));
+    });
+
+    if (response.status === 429) {
+      throw new ProviderError('RATE_LIMITED', undefined, parseRetryAfterMs(response.headers.get('retry-after')));
+    }
+    if (response.status === 401 || response.status === 403) throw new ProviderError('API_KEY_MISSING');
+    if (!response.ok || !response.body) throw new ProviderError('UPSTREAM_ERROR', `HTTP ${response.status}`);
+    return response;
+  };
+
+  // One non-streamed call: reports its usage whatever happens and returns the array items as parsed.
+  const completeItems = async (prompt: string, temperature: number, signal?: AbortSignal, onUsage?: UsageListener) => {
+    let body: ChatCompletion | null = null;
+    try {
+      const response = await postChatCompletion(prompt, false, temperature, signal);
+      body = await response.json().catch(() => null);
+    } finally {
+      onUsage?.(toOpenAIUsage(body?.usage) ?? NO_USAGE);
+    }
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) throw new ProviderError('EMPTY_RESPONSE');
+    return createJsonArrayStreamParser().push(content);
+  };
+
+  return {
+    name: 'openai',
+    model,
+    async *streamHooks(request, signal, onUsage) {
+      let usage = NO_USAGE;
+      let received = false;
+      try {
+        const response = await postChatCompletion(buildAdaptationPrompt(request), true, 0.8, signal);
+        const parser = createJsonArrayStreamParser();
+        for await (const data of readServerSentEvents(response.body!, signal)) {
+          if (data === '[DONE]') break;
+          let event: ChatCompletionChunk | null;
+          try {
+            event = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          usage = toOpenAIUsage(event?.usage) ?? usage;
+          const content = event?.choices?.[0]?.delta?.content;
+          if (!content) continue;
+          received = true;
+          for (const item of parser.push(content)) {
+            const hook = toAdaptedHook(item);
+            if (hook) yield hook;
+          }
+        }
+      } finally {
+        onUsage?.(usage);
+      }
+
+      if (!received) throw new ProviderError('EMPTY_RESPONSE');
+    },
+
+    // Low temperature: ratings should not change much between two runs
+    async critiqueHooks(request, signal, onUsage) {
+      const items = await completeItems(buildCritiquePrompt(request), 0.2, signal, onUsage);
+      return toHookCritiques(items, request.hooks.length);
+    },
+
+    // Not streamed (a half script is of no use), but written with the same freedom as hooks
+    async expandScript(request, signal, onUsage) {
+      const items = await completeItems(buildScriptPrompt(request), 0.8, signal, onUsage);
+      return toScriptDraft(items, request.hook);
+    },
+
+    // Suggestions are meant to be varied, so asking again should bring new ones
+    async suggestNicheInsights(request, signal, onUsage) {
+      const items = await completeItems(buildNicheInsightsPrompt(request), 0.8, signal, onUsage);
+      return toNicheInsights(items);
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import { AdaptedHook, HookCritique, NicheInsights, ScriptBeat } from '../../types';
+import { NICHE_INSIGHTS_PER_GROUP, SCRIPT_POINT_COUNTS } from '../../constants';
+import { ProviderError, ScriptDraft, TokenUsage } from './types';
+
+// Model output and usage reports are untrusted JSON; fields are only read once this holds.
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Keeps well-formed `{ templateId, text }` items. Anything else is dropped here and
+ * shows up later as a missing template, which gets re-requested.
+ */
+export const toAdaptedHook = (item: unknown): AdaptedHook | null => {
+  if (!isFields(item)) return null;
+  const templateId = Number(item.templateId);
+  if (!Number.isInteger(templateId) || typeof item.text !== 'string') return null;
+  return { templateId, text: item.text.trim() };
+};
+
+const toRating = (value: unknown) => {
+  const rating = Number(value);
+  return Number.isFinite(rating) ? Math.min(Math.max(rating, 0), 10) : null;
+};
+
+/**
+ * Lines up `{ index, clarity, specificity, curiosity, comment }` items with the hooks that were sent.
+ * Items with an unknown index or a missing rating leave a null in their slot.
+ */
+export const toHookCritiques = (items: unknown[], count: number): (HookCritique | null)[] => {
+  const critiques: (HookCritique | null)[] = Array(count).fill(null);
+  for (const item of items) {
+    if (!isFields(item)) continue;
+    const index = Number(item.index);
+    const ratings = [toRating(item.clarity), toRating(item.specificity), toRating(item.curiosity)];
+    if (!Number.isInteger(index) || index < 0 || index >= count || ratings.includes(null)) continue;
+    const [clarity, specificity, curiosity] = ratings as number[];
+    critiques[index] = { clarity, specificity, curiosity, comment: typeof item.comment === 'string' ? item.comment.trim() : '' };
+  }
+  return critiques;
+};
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const toScriptBeat = (item: Fields | undefined): ScriptBeat => ({
+  say: toText(item?.say),
+  onScreenText: toText(item?.onScreenText),
+  bRoll: toText(item?.bRoll),
+});
+
+const MIN_SCRIPT_POINTS = Math.min(...Object.values(SCRIPT_POINT_COUNTS));
+const MAX_SCRIPT_POINTS = Math.max(...Object.values(SCRIPT_POINT_COUNTS));
+
+/**
+ * Assembles `{ part, say, onScreenText, bRoll }` items into a script. The hook line is always the
+ * one that was sent, whatever the model wrote for it. Too few points or no CTA is an invalid response.
+ */
+export const toScriptDraft = (items: unknown[], hook: string): ScriptDraft => {
+  const beats = items.filter(isFields).filter(item => toText(item.say));
+  const points = beats.filter(item => item.part === 'point').slice(0, MAX_SCRIPT_POINTS).map(toScriptBeat);
+  const cta = beats.find(item => item.part === 'cta');
+  if (points.length < MIN_SCRIPT_POINTS || !cta) throw new ProviderError('INVALID_RESPONSE');
+  return {
+    hook: { ...toScriptBeat(beats.find(item => item.part === 'hook')), say: hook },
+    points,
+    cta: toScriptBeat(cta),
+  };
+};
+
+const INSIGHT_KINDS = ['topic', 'audience', 'result', 'painPoint', 'hatedTask'] as const;
+
+type InsightKind = typeof INSIGHT_KINDS[number];
+
+const isInsightKind = (value: unknown): value is InsightKind => INSIGHT_KINDS.some(kind => kind === value);
+
+/**
+ * Groups `{ kind, text }` items by kind, dropping repeats (ignoring case) and anything past the
+ * group size. Without a single topic the suggestions are of no use, so that is an invalid response.
+ */
+export const toNicheInsights = (items: unknown[]): NicheInsights => {
+  const groups = new Map<InsightKind, string[]>(INSIGHT_KINDS.map(kind => [kind, []]));
+  for (const item of items) {
+    if (!isFields(item) || !isInsightKind(item.kind)) continue;
+    const group = groups.get(item.kind)!;
+    const text = toText(item.text);
+    if (!text || group.length >= NICHE_INSIGHTS_PER_GROUP) continue;
+    if (!group.some(existing => existing.toLowerCase() === text.toLowerCase())) group.push(text);
+  }
+  const get = (kind: InsightKind) => groups.get(kind)!;
+  if (get('topic').length === 0) throw new ProviderError('INVALID_RESPONSE');
+  return {
+    topics: get('topic'),
+    audiences: get('audience'),
+    context: { resultado: get('result'), situacionNegativa: get('painPoint'), odio: get('hatedTask') },
+  };
+};
+
+// Reads "retry after" hints: a Retry-After header (seconds) or Gemini's `"retryDelay": "12s"` detail.
+export const parseRetryAfterMs = (hint: string | null | undefined): number | undefined => {
+  if (!hint) return undefined;
+  const delay = hint.match(/retryDelay\\?"?:\s*\\?"?(\d+(?:\.\d+)?)s/);
+  const seconds = delay ? Number(delay[1]) : Number(hint);
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+};
+
+const toCount = (value: unknown) => {
+  const count = Number(value);
+  return Number.isFinite(count) && count > 0 ? Math.round(count) : 0;
+};
+
+export const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+// Gemini `usageMetadata`; thinking tokens are billed as output
+export const toGeminiUsage = (metadata: unknown): TokenUsage | null =>
+  isFields(metadata)
+    ? {
+        inputTokens: toCount(metadata.promptTokenCount),
+        outputTokens: toCount(metadata.candidatesTokenCount) + toCount(metadata.thoughtsTokenCount),
+      }
+    : null;
+
+// OpenAI-style `usage`, sent in the last chunk of a stream when `stream_options.include_usage` is set
+export const toOpenAIUsage = (usage: unknown): TokenUsage | null =>
+  isFields(usage) ? { inputTokens: toCount(usage.prompt_tokens), outputTokens: toCount(usage.completion_tokens) } : null;
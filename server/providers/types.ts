@@ -0,0 +1,60 @@
+import {
+  AdaptedHook,
+  CritiqueRequest,
+  GenerateRequest,
+  HookCritique,
+  HookScript,
+  NicheInsights,
+  NicheInsightsRequest,
+  PromptVersion,
+  ScriptRequest,
+} from '../../types';
+
+export type ProviderName = 'gemini' | 'openai' | 'local';
+
+// Tokens one provider call consumed, as reported by the vendor (zero when it reports nothing).
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+// What a provider writes for a script; the handler stamps duration and date on it.
+export type ScriptDraft = Pick<HookScript, 'hook' | 'points' | 'cta'>;
+
+// A generate request with the prompt version the server resolved for it.
+export interface AdaptationRequest extends GenerateRequest {
+  prompt: PromptVersion;
+}
+
+/**
+ * Adapts viral hook templates to the user's niche. One implementation per model vendor.
+ * Hooks are yielded as soon as each one is parsed; order and completeness are not guaranteed.
+ * Critiques come back aligned with `request.hooks`, with null for any hook the model did not rate.
+ * Scripts always open with the hook exactly as it was sent, and niche insights always include at least one topic.
+ * Every call reports its token usage exactly once through `onUsage`, also when it fails.
+ */
+export interface HookProvider {
+  name: ProviderName;
+  model: string;
+  // Same request, same text: hooks cannot be shortened on request and retrying a rejection changes nothing
+  deterministic?: boolean;
+  streamHooks: (request: AdaptationRequest, signal?: AbortSignal, onUsage?: UsageListener) => AsyncIterable<AdaptedHook>;
+  critiqueHooks: (request: CritiqueRequest, signal?: AbortSignal, onUsage?: UsageListener) => Promise<(HookCritique | null)[]>;
+  expandScript: (request: ScriptRequest, signal?: AbortSignal, onUsage?: UsageListener) => Promise<ScriptDraft>;
+  suggestNicheInsights: (request: NicheInsightsRequest, signal?: AbortSignal, onUsage?: UsageListener) => Promise<NicheInsights>;
+}
+
+export type ProviderErrorCode = 'API_KEY_MISSING' | 'RATE_LIMITED' | 'EMPTY_RESPONSE' | 'INVALID_RESPONSE' | 'UPSTREAM_ERROR';
+
+export class ProviderError extends Error {
+  constructor(public code: ProviderErrorCode, message?: string, public retryAfterMs?: number) {
+    super(message || code);
+    this.name = 'ProviderError';
+  }
+}
+
+// Errors that may go away on their own; a missing or rejected key will not.
+export const isRetryable = (err: unknown) =>
+  err instanceof ProviderError && err.code !== 'API_KEY_MISSING';
@@ -0,0 +1,49 @@
+import type { IncomingMessage } from 'http';
+import { ApiError } from './http';
+
+export interface RateLimiter {
+  check: (key: string) => void; // Throws 429 RATE_LIMITED once the key has used up its window
+  hit: (key: string) => void;
+}
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window counter kept in memory, for throttling the endpoints that work without a session.
+ * It starts empty on every restart, which is fine for slowing down guessing and spam.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  // Insertion order is creation order, and every window lasts the same, so the oldest expire first
+  const windows = new Map<string, RateWindow>();
+
+  const dropExpired = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt > now) break;
+      windows.delete(key);
+    }
+  };
+
+  return {
+    check: (key) => {
+      const now = Date.now();
+      dropExpired(now);
+      const window = windows.get(key);
+      if (window && window.count >= limit) {
+        throw new ApiError(429, 'RATE_LIMITED', undefined, Math.ceil((window.resetAt - now) / 1000));
+      }
+    },
+    hit: (key) => {
+      const now = Date.now();
+      dropExpired(now);
+      const window = windows.get(key);
+      if (window) window.count += 1;
+      else windows.set(key, { count: 1, resetAt: now + windowMs });
+    },
+  };
+};
+
+// The socket address: forwarding headers are not trusted, anyone could send them.
+export const getClientKey = (req: IncomingMessage) => req.socket.remoteAddress || 'unknown';
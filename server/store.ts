@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AccessCode, AccessRequest, ActivityEntry, CodeUsageEntry, PromptVersion, Workspace } from '../types';
+import { BUILTIN_PROMPT_VERSION } from '../utils/promptTemplate';
+
+export interface SessionRecord {
+  id: string;
+  email: string;
+  code: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+// Consumption of one code on one UTC day; quotas and the admin report are summed from these.
+export interface UsageDay {
+  date: string; // YYYY-MM-DD
+  email: string;
+  code: string;
+  generations: number;
+  critiques: number;
+  scripts?: number; // Missing in days recorded before script expansion existed
+  insights?: number; // Likewise for niche insights
+  providerCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  lastUsedAt: string;
+}
+
+export interface StoreData {
+  accessCodes: AccessCode[];
+  accessRequests: AccessRequest[];
+  codeUsage: CodeUsageEntry[];
+  sessions: SessionRecord[];
+  usageDays: UsageDay[];
+  promptVersions: PromptVersion[]; // Saved versions only; the built-in one lives in code
+  activePromptVersion: number;
+  workspaces: Workspace[];
+  activity: ActivityEntry[]; // All workspaces', oldest first
+}
+
+const emptyStore = (): StoreData => ({
+  accessCodes: [],
+  accessRequests: [],
+  codeUsage: [],
+  sessions: [],
+  usageDays: [],
+  promptVersions: [],
+  activePromptVersion: BUILTIN_PROMPT_VERSION,
+  workspaces: [],
+  activity: [],
+});
+
+export interface Store {
+  read: () => Promise<StoreData>;
+  update: <T>(mutate: (data: StoreData) => T) => Promise<T>;
+}
+
+/**
+ * Tiny JSON file store. Writes are serialized through a promise chain and land atomically
+ * (temp file + rename), so the file can be inspected or hand-edited between requests.
+ */
+export const createStore = (filePath: string): Store => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<StoreData> => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      return { ...emptyStore(), ...JSON.parse(raw) };
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return emptyStore();
+      throw err;
+    }
+  };
+
+  const save = async (data: StoreData) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    read: () => enqueue(load),
+    update: (mutate) => enqueue(async () => {
+      const data = await load();
+      const result = mutate(data);
+      await save(data);
+      return result;
+    }),
+  };
+};
@@ -0,0 +1,130 @@
+import { UsageQuotas, UsageReport, UsageReportRow, UsageStatus, UsageTotals } from '../types';
+import { ApiContext } from './context';
+import { ApiError } from './http';
+import { TokenUsage, UsageListener } from './providers/types';
+import { SessionRecord, StoreData, UsageDay } from './store';
+
+export type UsageKind = 'generation' | 'critique' | 'script' | 'insight';
+
+// Day records older than this are dropped; monthly quotas never look further back than the current month
+const USAGE_RETENTION_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, providerCalls: 0, inputTokens: 0, outputTokens: 0 });
+
+const addDay = (totals: UsageTotals, day: UsageDay): UsageTotals => ({
+  requests: totals.requests + day.generations + day.critiques + (day.scripts ?? 0) + (day.insights ?? 0),
+  providerCalls: totals.providerCalls + day.providerCalls,
+  inputTokens: totals.inputTokens + day.inputTokens,
+  outputTokens: totals.outputTokens + day.outputTokens,
+});
+
+const sumDays = (days: UsageDay[]) => days.reduce(addDay, emptyTotals());
+
+const tokensOf = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+// Quota periods are UTC days and months, like the stored dates
+const isToday = (day: UsageDay, now: Date) => day.date === toDay(now);
+const isThisMonth = (day: UsageDay, now: Date) => day.date.slice(0, 7) === toDay(now).slice(0, 7);
+
+// --- METERING ---
+
+/** Adds up what each provider call of one API request reports. */
+export const createUsageMeter = () => {
+  let providerCalls = 0;
+  const tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const listener: UsageListener = usage => {
+    providerCalls++;
+    tokens.inputTokens += usage.inputTokens;
+    tokens.outputTokens += usage.outputTokens;
+  };
+  return { listener, totals: () => ({ providerCalls, ...tokens }) };
+};
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+/** Adds one request to the session's code for today. Requests the provider never saw are not counted. */
+export const recordUsage = (ctx: ApiContext, session: SessionRecord, kind: UsageKind, meter: UsageMeter) => {
+  const { providerCalls, inputTokens, outputTokens } = meter.totals();
+  if (providerCalls === 0) return Promise.resolve();
+
+  return ctx.store.update(data => {
+    const now = new Date();
+    const date = toDay(now);
+    let day = data.usageDays.find(d => d.date === date && d.code === session.code);
+    if (!day) {
+      day = { date, email: session.email, code: session.code, generations: 0, critiques: 0, scripts: 0, insights: 0, providerCalls: 0, inputTokens: 0, outputTokens: 0, lastUsedAt: '' };
+      data.usageDays.push(day);
+      const oldest = toDay(new Date(now.getTime() - USAGE_RETENTION_DAYS * DAY_MS));
+      data.usageDays = data.usageDays.filter(d => d.date >= oldest);
+    }
+    if (kind === 'generation') day.generations++;
+    else if (kind === 'critique') day.critiques++;
+    else if (kind === 'script') day.scripts = (day.scripts ?? 0) + 1;
+    else day.insights = (day.insights ?? 0) + 1;
+    day.providerCalls += providerCalls;
+    day.inputTokens += inputTokens;
+    day.outputTokens += outputTokens;
+    day.lastUsedAt = now.toISOString();
+  });
+};
+
+// --- QUOTAS ---
+
+const getUserUsage = (data: StoreData, email: string, quotas: UsageQuotas, now = new Date()): UsageStatus => {
+  const days = data.usageDays.filter(day => day.email === email);
+  return {
+    today: sumDays(days.filter(day => isToday(day, now))),
+    month: sumDays(days.filter(day => isThisMonth(day, now))),
+    quotas,
+  };
+};
+
+const secondsUntil = (date: Date, now: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+/**
+ * Throws 429 DAILY_QUOTA_EXCEEDED or MONTHLY_QUOTA_EXCEEDED once the user has used up a quota, with
+ * the seconds until it renews. Token quotas are checked before the request, so the last request of a
+ * period may go over them by its own size.
+ */
+export const assertWithinQuota = async (ctx: ApiContext, session: SessionRecord) => {
+  const { quotas } = ctx.config;
+  if (Object.values(quotas).every(quota => quota === null)) return;
+
+  const now = new Date();
+  const { today, month } = getUserUsage(await ctx.store.read(), session.email, quotas, now);
+  const reached = (used: number, quota: number | null) => quota !== null && used >= quota;
+
+  if (reached(month.requests, quotas.monthlyRequests) || reached(tokensOf(month), quotas.monthlyTokens)) {
+    const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    throw new ApiError(429, 'MONTHLY_QUOTA_EXCEEDED', undefined, secondsUntil(nextMonth, now));
+  }
+  if (reached(today.requests, quotas.dailyRequests) || reached(tokensOf(today), quotas.dailyTokens)) {
+    const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    throw new ApiError(429, 'DAILY_QUOTA_EXCEEDED', undefined, secondsUntil(tomorrow, now));
+  }
+};
+
+export const getUsageStatus = async (ctx: ApiContext, session: SessionRecord) =>
+  getUserUsage(await ctx.store.read(), session.email, ctx.config.quotas);
+
+// --- ADMIN REPORT ---
+
+export const buildUsageReport = (data: StoreData, quotas: UsageQuotas, now = new Date()): UsageReport => {
+  const byCode = new Map<string, UsageDay[]>();
+  data.usageDays.forEach(day => byCode.set(day.code, [...(byCode.get(day.code) || []), day]));
+
+  const rows: UsageReportRow[] = Array.from(byCode.values(), days => ({
+    email: days[0].email,
+    code: days[0].code,
+    today: sumDays(days.filter(day => isToday(day, now))),
+    month: sumDays(days.filter(day => isThisMonth(day, now))),
+    total: sumDays(days),
+    lastUsedAt: days.reduce<string | null>((last, day) => (!last || day.lastUsedAt > last ? day.lastUsedAt : last), null),
+  }));
+
+  return { quotas, rows: rows.sort((a, b) => (b.lastUsedAt || '').localeCompare(a.lastUsedAt || '')) };
+};
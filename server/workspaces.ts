@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto';
+import { ActivityEntry, Workspace, WorkspaceDetail, WorkspaceRole, WorkspaceSummary } from '../types';
+import { WORKSPACE_ROLES } from '../constants';
+import { ApiError } from './http';
+import { StoreData } from './store';
+
+// The feed only needs recent history; older entries are dropped per workspace
+const MAX_ACTIVITY_PER_WORKSPACE = 300;
+// Entries sent with a workspace
+const ACTIVITY_PAGE = 50;
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export const isWorkspaceRole = (role: unknown): role is WorkspaceRole => WORKSPACE_ROLES.includes(role as WorkspaceRole);
+
+const findMember = (workspace: Workspace, email: string) => workspace.members.find(member => member.email === email);
+
+/**
+ * The workspace and the caller's role in it. Workspaces the caller is not a member of answer 404,
+ * exactly like missing ones, so ids cannot be probed; a role below `minimum` answers 403.
+ */
+export const requireMembership = (data: StoreData, workspaceId: unknown, email: string, minimum: WorkspaceRole) => {
+  const workspace = data.workspaces.find(w => w.id === workspaceId);
+  const member = workspace && findMember(workspace, email);
+  if (!workspace || !member) throw new ApiError(404, 'NOT_FOUND');
+  if (ROLE_RANK[member.role] < ROLE_RANK[minimum]) throw new ApiError(403, 'FORBIDDEN');
+  return { workspace, role: member.role };
+};
+
+export const countOwners = (workspace: Workspace) => workspace.members.filter(member => member.role === 'owner').length;
+
+export const logActivity = (data: StoreData, entry: Omit<ActivityEntry, 'id' | 'at'>) => {
+  data.activity.push({ ...entry, id: randomUUID(), at: new Date().toISOString() });
+  const entries = data.activity.filter(e => e.workspaceId === entry.workspaceId);
+  if (entries.length > MAX_ACTIVITY_PER_WORKSPACE) {
+    const dropped = new Set(entries.slice(0, entries.length - MAX_ACTIVITY_PER_WORKSPACE));
+    data.activity = data.activity.filter(e => !dropped.has(e));
+  }
+};
+
+export const toWorkspaceSummary = (workspace: Workspace, email: string): WorkspaceSummary => ({
+  id: workspace.id,
+  name: workspace.name,
+  role: findMember(workspace, email)!.role,
+  memberCount: workspace.members.length,
+});
+
+// For a member, as they are right now: a change they just made to their own role already shows
+export const toWorkspaceDetail = (data: StoreData, workspace: Workspace, email: string): WorkspaceDetail => ({
+  workspace,
+  role: findMember(workspace, email)!.role,
+  activity: data.activity
+    .filter(entry => entry.workspaceId === workspace.id)
+    .slice(-ACTIVITY_PAGE)
+    .reverse(),
+});
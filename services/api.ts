@@ -0,0 +1,205 @@
+import {
+  AccessCode,
+  AccessRequestPayload,
+  AdaptedHook,
+  AdminOverview,
+  ApiErrorBody,
+  CritiqueRequest,
+  CritiqueResponse,
+  GenerateRequest,
+  GenerateStreamEvent,
+  GenerateSummary,
+  ImportToWorkspaceRequest,
+  IssueCodeRequest,
+  LoginRequest,
+  LoginResponse,
+  NicheInsightsRequest,
+  NicheInsightsResponse,
+  PromptLibrary,
+  PromptVersion,
+  SavedHook,
+  SaveMemberRequest,
+  SavePromptRequest,
+  ScriptRequest,
+  ScriptResponse,
+  SessionInfo,
+  UsageStatus,
+  VoiceProfile,
+  WorkspaceDetail,
+  WorkspaceSummary,
+} from '../types';
+
+const SESSION_STORAGE_KEY = 'hook_system_session';
+
+// Thrown for any non-2xx answer from the /api server. `code` mirrors the server's ApiError code.
+export class ApiRequestError extends Error {
+  constructor(public status: number, public code: string, public retryAfterSeconds?: number) {
+    super(code);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export const getSessionToken = () => localStorage.getItem(SESSION_STORAGE_KEY);
+
+export const clearSessionToken = () => localStorage.removeItem(SESSION_STORAGE_KEY);
+
+const send = async (method: 'GET' | 'POST', path: string, body?: unknown, signal?: AbortSignal) => {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  const token = getSessionToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetch(path, {
+    method,
+    headers,
+    signal,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorBody: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+    throw new ApiRequestError(response.status, errorBody.error || 'HTTP_ERROR', errorBody.retryAfterSeconds);
+  }
+  return response;
+};
+
+const request = async <T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> => {
+  const response = await send(method, path, body);
+  return response.json();
+};
+
+// Reads an NDJSON body, yielding one parsed event per line as soon as the line is complete.
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  if (pending.trim()) yield JSON.parse(pending);
+}
+
+export const login = async (credentials: LoginRequest) => {
+  const response = await request<LoginResponse>('POST', '/api/login', credentials);
+  localStorage.setItem(SESSION_STORAGE_KEY, response.token);
+  return response;
+};
+
+export const fetchSession = () =>
+  request<SessionInfo>('GET', '/api/session');
+
+export const logout = async () => {
+  try {
+    await request<{ ok: boolean }>('POST', '/api/logout');
+  } finally {
+    clearSessionToken();
+  }
+};
+
+/**
+ * Streams adapted hooks, calling `onHook` for each one as it arrives.
+ * Resolves with the summary once the server is done; abort `signal` to cancel the generation.
+ */
+export const streamAdaptedHooks = async (
+  payload: GenerateRequest,
+  onHook: (hook: AdaptedHook) => void,
+  signal?: AbortSignal,
+): Promise<GenerateSummary> => {
+  const response = await send('POST', '/api/generate', payload, signal);
+  for await (const event of readNdjson<GenerateStreamEvent>(response)) {
+    if (event.type === 'hook') onHook(event.hook);
+    else if (event.type === 'error') throw new ApiRequestError(502, event.error, event.retryAfterSeconds);
+    else return event;
+  }
+  throw new ApiRequestError(502, 'STREAM_INTERRUPTED');
+};
+
+export const fetchUsage = () =>
+  request<UsageStatus>('GET', '/api/usage');
+
+export const critiqueHooks = (payload: CritiqueRequest) =>
+  request<CritiqueResponse>('POST', '/api/critique', payload);
+
+export const expandScript = (payload: ScriptRequest) =>
+  request<ScriptResponse>('POST', '/api/script', payload);
+
+export const fetchNicheInsights = (payload: NicheInsightsRequest) =>
+  request<NicheInsightsResponse>('POST', '/api/niche-insights', payload);
+
+export const requestAccess = (payload: AccessRequestPayload) =>
+  request<{ ok: boolean }>('POST', '/api/access-requests', payload);
+
+// --- WORKSPACES ---
+
+export const fetchWorkspaces = () =>
+  request<WorkspaceSummary[]>('GET', '/api/workspaces');
+
+export const createWorkspace = (name: string) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces', { name });
+
+export const fetchWorkspace = (id: string) =>
+  request<WorkspaceDetail>('GET', `/api/workspaces/detail?id=${encodeURIComponent(id)}`);
+
+export const renameWorkspace = (workspaceId: string, name: string) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/rename', { workspaceId, name });
+
+export const deleteWorkspace = (workspaceId: string) =>
+  request<{ ok: boolean }>('POST', '/api/workspaces/delete', { workspaceId });
+
+export const leaveWorkspace = (workspaceId: string) =>
+  request<{ ok: boolean }>('POST', '/api/workspaces/leave', { workspaceId });
+
+export const saveWorkspaceMember = (payload: SaveMemberRequest) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/members', payload);
+
+export const removeWorkspaceMember = (workspaceId: string, email: string) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/members/remove', { workspaceId, email });
+
+export const saveWorkspaceHook = (workspaceId: string, hook: SavedHook) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/hooks', { workspaceId, hook });
+
+export const deleteWorkspaceHook = (workspaceId: string, id: string) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/hooks/delete', { workspaceId, id });
+
+export const saveWorkspaceVoice = (workspaceId: string, profile: VoiceProfile) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/voices', { workspaceId, profile });
+
+export const deleteWorkspaceVoice = (workspaceId: string, id: string) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/voices/delete', { workspaceId, id });
+
+export const importToWorkspace = (payload: ImportToWorkspaceRequest) =>
+  request<WorkspaceDetail>('POST', '/api/workspaces/import', payload);
+
+// --- ADMIN ---
+
+export const fetchAdminOverview = () =>
+  request<AdminOverview>('GET', '/api/admin/overview');
+
+export const approveAccessRequest = (id: string, expiresAt: string | null) =>
+  request<AccessCode>('POST', '/api/admin/requests/approve', { id, expiresAt });
+
+export const rejectAccessRequest = (id: string) =>
+  request<{ ok: boolean }>('POST', '/api/admin/requests/reject', { id });
+
+export const issueAccessCode = (payload: IssueCodeRequest) =>
+  request<AccessCode>('POST', '/api/admin/codes', payload);
+
+export const revokeAccessCode = (code: string) =>
+  request<{ ok: boolean }>('POST', '/api/admin/codes/revoke', { code });
+
+export const fetchPromptLibrary = () =>
+  request<PromptLibrary>('GET', '/api/admin/prompts');
+
+export const savePromptVersion = (payload: SavePromptRequest) =>
+  request<PromptVersion>('POST', '/api/admin/prompts', payload);
+
+export const activatePromptVersion = (version: number) =>
+  request<PromptLibrary>('POST', '/api/admin/prompts/activate', { version });
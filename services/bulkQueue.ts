@@ -0,0 +1,31 @@
+// Runs async tasks in arrival order with at most `concurrency` of them in flight.
+export const createTaskQueue = (concurrency: number) => {
+  const waiting: (() => Promise<void>)[] = [];
+  let active = 0;
+
+  const next = () => {
+    while (active < concurrency && waiting.length > 0) {
+      const task = waiting.shift()!;
+      active++;
+      task()
+        .catch(() => {})
+        .finally(() => {
+          active--;
+          next();
+        });
+    }
+  };
+
+  return {
+    push: (task: () => Promise<void>) => {
+      waiting.push(task);
+      next();
+    },
+    // Drops tasks that have not started; running ones are stopped through their own AbortSignal
+    clear: () => {
+      waiting.length = 0;
+    },
+  };
+};
+
+export type TaskQueue = ReturnType<typeof createTaskQueue>;
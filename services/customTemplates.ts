@@ -0,0 +1,105 @@
+import { CustomTemplate, HookCategory, HookTrigger, TemplateShareFile } from '../types';
+import { HOOK_CATEGORIES, HOOK_TRIGGERS, MAX_CUSTOM_TEMPLATE_LENGTH } from '../constants';
+import { CUSTOM_TEMPLATE_ID_START, getTemplateProblems, registerCustomTemplates } from '../utils/templateCatalog';
+
+const TEMPLATES_STORAGE_KEY = 'hook_system_templates';
+const NEXT_TEMPLATE_ID_STORAGE_KEY = 'hook_system_templates_next_id';
+
+// Loading also registers them, so saved sessions and library entries resolve their custom formula ids.
+export const loadCustomTemplates = (): CustomTemplate[] => {
+  let templates: CustomTemplate[] = [];
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    templates = raw ? JSON.parse(raw) : [];
+  } catch {
+    templates = [];
+  }
+  registerCustomTemplates(templates);
+  return templates;
+};
+
+export const persistCustomTemplates = (templates: CustomTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    return true;
+  } catch (err) {
+    console.error("Custom Templates Error:", err);
+    return false;
+  }
+};
+
+/**
+ * Hands out `count` consecutive ids and returns the first. The stored counter only moves forward, so the id
+ * of a deleted formula is never reused: sessions and saved hooks that still point to it must not resolve to
+ * another one. Lists saved before the counter existed start it after their highest id.
+ */
+const reserveTemplateIds = (templates: CustomTemplate[], count: number) => {
+  const stored = Number(localStorage.getItem(NEXT_TEMPLATE_ID_STORAGE_KEY)) || 0;
+  const first = Math.max(stored, CUSTOM_TEMPLATE_ID_START, ...templates.map(template => template.id + 1));
+  // Without room for the counter the ids still skip every formula that exists, only not deleted ones
+  try {
+    localStorage.setItem(NEXT_TEMPLATE_ID_STORAGE_KEY, String(first + count));
+  } catch (err) {
+    console.error("Custom Templates Error:", err);
+  }
+  return first;
+};
+
+export const createCustomTemplate = (templates: CustomTemplate[]): CustomTemplate => {
+  const now = new Date().toISOString();
+  return { id: reserveTemplateIds(templates, 1), template: '', category: null, trigger: null, createdAt: now, updatedAt: now };
+};
+
+// Unknown placeholders only warn (the model still fills them); anything else blocks saving.
+export const canSaveTemplate = (template: string) =>
+  template.length <= MAX_CUSTOM_TEMPLATE_LENGTH &&
+  getTemplateProblems(template).every(problem => problem.code === 'UNKNOWN_PLACEHOLDER');
+
+// --- SHARING ---
+
+export const toShareFile = (templates: CustomTemplate[]): TemplateShareFile => ({
+  format: 'hook-templates',
+  version: 1,
+  templates: templates.map(({ template, category, trigger }) => ({ template, category, trigger })),
+});
+
+export interface TemplateImportResult {
+  templates: CustomTemplate[]; // The new ones only, with fresh ids
+  skipped: number; // Invalid entries and templates that were already in the list
+}
+
+const normalizeTemplate = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Reads a shared templates file (or a bare array of its entries). Throws on text that is not
+ * JSON in that shape; entries that fail validation or repeat an existing template are skipped.
+ */
+export const parseTemplateImport = (text: string, existing: CustomTemplate[]): TemplateImportResult => {
+  const data = JSON.parse(text);
+  const entries: unknown = Array.isArray(data) ? data : data?.format === 'hook-templates' ? data.templates : null;
+  if (!Array.isArray(entries)) throw new Error('INVALID_TEMPLATE_FILE');
+
+  const seen = new Set(existing.map(template => normalizeTemplate(template.template)));
+  const now = new Date().toISOString();
+  const templates: Omit<CustomTemplate, 'id'>[] = [];
+  let skipped = 0;
+
+  entries.forEach(entry => {
+    const template = typeof entry?.template === 'string' ? entry.template.trim() : '';
+    if (!template || !canSaveTemplate(template) || seen.has(normalizeTemplate(template))) {
+      skipped++;
+      return;
+    }
+    seen.add(normalizeTemplate(template));
+    templates.push({
+      template,
+      category: HOOK_CATEGORIES.includes(entry.category) ? (entry.category as HookCategory) : null,
+      trigger: HOOK_TRIGGERS.includes(entry.trigger) ? (entry.trigger as HookTrigger) : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  const firstId = templates.length > 0 ? reserveTemplateIds(existing, templates.length) : 0;
+  return { templates: templates.map((template, index) => ({ ...template, id: firstId + index })), skipped };
+};
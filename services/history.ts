@@ -0,0 +1,104 @@
+import { DEFAULT_FORM_DATA, DEFAULT_TEMPLATE_FILTERS } from '../constants';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { FormData, GenerationMode, GenerationSession, Locale, PlaceholderValues, TemplateFilters } from '../types';
+
+const HISTORY_STORAGE_KEY = 'hook_system_history';
+const DRAFT_STORAGE_KEY = 'hook_system_draft';
+
+// Oldest sessions are dropped past this, to stay well within the localStorage quota
+const MAX_SESSIONS = 30;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Sessions saved before hooks could be generated in other languages were all Spanish,
+// and those saved before platform modes had no platform
+export const loadHistory = (): GenerationSession[] =>
+  readJson<GenerationSession[]>(HISTORY_STORAGE_KEY, []).map(session => ({
+    ...session,
+    formData: { ...DEFAULT_FORM_DATA, ...session.formData },
+    locale: session.locale || DEFAULT_LOCALE,
+  }));
+
+// Sessions carry every hook, variant and script, so a full quota is expected sooner or later:
+// the oldest sessions are dropped from storage until the rest fit.
+export const persistHistory = (history: GenerationSession[]) => {
+  for (let kept = Math.min(history.length, MAX_SESSIONS); kept >= 0; kept--) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history.slice(0, kept)));
+      return;
+    } catch (err) {
+      if (kept === 0) console.error("History Error:", err);
+    }
+  }
+};
+
+export const createSession = (
+  formData: FormData,
+  filters: TemplateFilters,
+  templatePoolIds: number[],
+  locale: Locale,
+): GenerationSession => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    formData,
+    filters,
+    templatePoolIds,
+    batchIndex: 0,
+    batches: [],
+    hooks: [],
+    locale,
+    provider: '',
+    model: '',
+  };
+};
+
+// Applies `changes` to one session and moves it to the top of the history.
+export const updateSession = (
+  history: GenerationSession[],
+  id: string,
+  changes: (session: GenerationSession) => Partial<GenerationSession>,
+) => {
+  const session = history.find(s => s.id === id);
+  if (!session) return history;
+  const updated = { ...session, ...changes(session), updatedAt: new Date().toISOString() };
+  return [updated, ...history.filter(s => s.id !== id)];
+};
+
+// --- FORM DRAFT (survives a page reload) ---
+
+export interface FormDraft {
+  formData: FormData;
+  filters: TemplateFilters;
+  mode: GenerationMode;
+  placeholderValues: PlaceholderValues;
+}
+
+export const loadDraft = (): FormDraft => {
+  const draft = readJson<Partial<FormDraft>>(DRAFT_STORAGE_KEY, {});
+  return {
+    formData: { ...DEFAULT_FORM_DATA, ...draft.formData },
+    filters: { ...DEFAULT_TEMPLATE_FILTERS, ...draft.filters },
+    mode: draft.mode || 'ai',
+    placeholderValues: draft.placeholderValues || {},
+  };
+};
+
+export const persistDraft = (draft: FormDraft) => {
+  try {
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+    return true;
+  } catch (err) {
+    console.error("Draft Error:", err);
+    return false;
+  }
+};
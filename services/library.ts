@@ -0,0 +1,69 @@
+import { FormData, GeneratedHook, SavedHook } from '../types';
+import { getTemplateById } from '../utils/templateCatalog';
+
+const LIBRARY_STORAGE_KEY = 'hook_system_library';
+
+export const loadLibrary = (): SavedHook[] => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Saved hooks are never dropped to make room: returns false when the browser storage is full, so the user can be told.
+export const persistLibrary = (library: SavedHook[]) => {
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+    return true;
+  } catch (err) {
+    console.error("Library Error:", err);
+    return false;
+  }
+};
+
+// The same text is only saved once, whatever run it came from.
+export const findSavedHook = (library: SavedHook[], text: string) =>
+  library.find(saved => saved.text === text);
+
+export const createSavedHook = (hook: GeneratedHook, formData: FormData): SavedHook => ({
+  id: crypto.randomUUID(),
+  text: hook.text,
+  templateId: hook.originalTemplateId,
+  niche: formData.niche,
+  topic: formData.topic,
+  audience: formData.audience,
+  tags: [],
+  savedAt: new Date().toISOString(),
+  ...(hook.script && { script: hook.script }),
+});
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const getLibraryTags = (library: SavedHook[]) =>
+  Array.from(new Set(library.flatMap(saved => saved.tags))).sort();
+
+// Lowercase and strip accents so "tecnica" finds "técnica"
+const normalizeText = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Full-text search over the hook, its context, its tags and the formula it came from.
+ * Every word of the query has to match somewhere.
+ */
+export const searchLibrary = (library: SavedHook[], query: string, tag: string | null) => {
+  const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+  return library.filter(saved => {
+    if (tag && !saved.tags.includes(tag)) return false;
+    const haystack = normalizeText([
+      saved.text,
+      saved.niche,
+      saved.topic,
+      saved.audience,
+      saved.tags.join(' '),
+      getTemplateById(saved.templateId)?.template || '',
+    ].join(' '));
+    return terms.every(term => haystack.includes(term));
+  });
+};
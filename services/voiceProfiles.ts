@@ -0,0 +1,49 @@
+import { VoiceBrief, VoiceProfile } from '../types';
+
+const VOICE_STORAGE_KEY = 'hook_system_voices';
+
+export const loadVoiceProfiles = (): VoiceProfile[] => {
+  try {
+    const raw = localStorage.getItem(VOICE_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistVoiceProfiles = (profiles: VoiceProfile[]) => {
+  try {
+    localStorage.setItem(VOICE_STORAGE_KEY, JSON.stringify(profiles));
+    return true;
+  } catch (err) {
+    console.error("Voice Profiles Error:", err);
+    return false;
+  }
+};
+
+export const createVoiceProfile = (): VoiceProfile => ({
+  id: crypto.randomUUID(),
+  name: '',
+  description: '',
+  dos: [],
+  donts: [],
+  forbiddenWords: [],
+  exampleHooks: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const findVoiceProfile = (profiles: VoiceProfile[], id: string | null) =>
+  id ? profiles.find(profile => profile.id === id) : undefined;
+
+export const toVoiceBrief = ({ name, description, dos, donts, forbiddenWords, exampleHooks }: VoiceProfile): VoiceBrief => ({
+  name,
+  description,
+  dos,
+  donts,
+  forbiddenWords,
+  exampleHooks,
+});
+
+// One entry per line in the editor; blank lines and repeats are dropped.
+export const parseVoiceList = (text: string) =>
+  Array.from(new Set(text.split('\n').map(line => line.trim()).filter(Boolean)));
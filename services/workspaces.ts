@@ -0,0 +1,13 @@
+import { WorkspaceRole } from '../types';
+
+const ACTIVE_WORKSPACE_STORAGE_KEY = 'hook_system_workspace';
+
+// Only the choice is kept in the browser; the workspace itself lives on the server.
+export const loadActiveWorkspaceId = () => localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY);
+
+export const persistActiveWorkspaceId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, id);
+  else localStorage.removeItem(ACTIVE_WORKSPACE_STORAGE_KEY);
+};
+
+export const canEditWorkspace = (role: WorkspaceRole) => role !== 'viewer';
@@ -1,16 +1,584 @@
+// Base language of templates and hooks.
+export type Language = 'es' | 'en' | 'pt';
+
+// What the user picks: drives both the UI texts and the language hooks are written in.
+// 'es' is neutral Spanish; the regional variants only change vocabulary and tone.
+export type Locale = 'es' | 'es-MX' | 'es-ES' | 'en' | 'pt';
+
+export type HookCategory = 'errores' | 'contrarian' | 'listas' | 'historia' | 'secretos' | 'tutorial';
+
+export type HookTrigger = 'curiosity' | 'fear' | 'gain';
+
+// Canonical slot a `[...]` placeholder maps to, regardless of its wording in the template.
+export type PlaceholderKey =
+  | 'tema'
+  | 'resultado'
+  | 'resultadoNegativo'
+  | 'numero'
+  | 'tiempo'
+  | 'frecuencia'
+  | 'accion'
+  | 'tarea'
+  | 'situacionNegativa'
+  | 'situacionPositiva'
+  | 'identidad'
+  | 'problema'
+  | 'odio'
+  | 'opcion'
+  | 'estrategia'
+  | 'consejo'
+  | 'persona'
+  | 'recurso'
+  | 'industria';
+
+// 'manual' fills the templates in the browser from values the user typed, without calling a provider.
+export type GenerationMode = 'ai' | 'manual';
+
+// What each slot is replaced with when templates are filled locally instead of by a model.
+export type PlaceholderValues = Partial<Record<PlaceholderKey, string>>;
+
+export interface TemplatePlaceholder {
+  token: string; // Exactly as written in the template, e.g. "[resultado concreto]"
+  key: PlaceholderKey;
+}
+
+// A template written natively in another language, with its own placeholder wording.
+export interface TemplateTranslation {
+  template: string;
+  placeholders: TemplatePlaceholder[];
+}
+
 export interface HookTemplate {
   id: number;
+  template: string; // Spanish original (custom templates: as the user wrote it)
+  category: HookCategory;
+  trigger: HookTrigger;
+  placeholders: TemplatePlaceholder[];
+  translations: Partial<Record<Language, TemplateTranslation>>;
+  custom?: boolean;
+}
+
+// A template written by the user, saved in the browser next to the built-in catalog.
+export interface CustomTemplate {
+  id: number; // From CUSTOM_TEMPLATE_ID_START up, so it never collides with RAW_HOOKS
   template: string;
+  category: HookCategory | null; // null = classified automatically, like the built-in ones
+  trigger: HookTrigger | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What goes into a shared templates file; ids are reassigned on import.
+export interface TemplateShareFile {
+  format: 'hook-templates';
+  version: 1;
+  templates: Pick<CustomTemplate, 'template' | 'category' | 'trigger'>[];
+}
+
+export type TemplateProblem =
+  | { code: 'EMPTY' }
+  | { code: 'UNBALANCED_BRACKETS' }
+  | { code: 'EMPTY_PLACEHOLDER' }
+  | { code: 'UNKNOWN_PLACEHOLDER'; token: string };
+
+// Card-level actions that send a single template back to the provider.
+export type RewriteMode = 'regenerate' | 'variants' | 'shorter' | 'polemic' | 'softer';
+
+// A candidate produced by a card action, listed under the hook until one is picked as the winner.
+export interface HookVariant {
+  id: string;
+  text: string;
+  mode: RewriteMode | 'previous'; // 'previous': the text a picked winner replaced
 }
 
 export interface GeneratedHook {
   id: number;
   originalTemplateId: number;
   text: string;
+  variants?: HookVariant[];
+  critique?: HookCritique; // Optional model review of `text`, blended into the score
+  script?: HookScript; // Expanded from `text`; dropped when another variant takes its place
+}
+
+// The earlier wording a hook nearly repeats: another card of the results or a hook in "Mis Hooks".
+export type DuplicateMatch =
+  | { source: 'results'; hookId: number; text: string; similarity: number }
+  | { source: 'library'; savedId: string; text: string; similarity: number };
+
+// --- SCRIPTS ---
+
+// Target length of a short video, in seconds.
+export type ScriptDuration = 15 | 30 | 60;
+
+// One moment of the video: what is said, the caption shown meanwhile and what the camera shows.
+export interface ScriptBeat {
+  say: string;
+  onScreenText: string;
+  bRoll: string;
+}
+
+// A short-video script grown from a hook: the hook opens it, 3-5 talking points follow, a CTA closes it.
+export interface HookScript {
+  duration: ScriptDuration;
+  hook: ScriptBeat; // `say` is always the hook text as it was when the script was written
+  points: ScriptBeat[];
+  cta: ScriptBeat;
+  createdAt: string;
+}
+
+// --- SCORING ---
+
+export type ScoreCriterion = 'clarity' | 'specificity' | 'curiosity' | 'lengthFit' | 'originality';
+
+export interface HookScore {
+  total: number; // 0-100
+  breakdown: Record<ScoreCriterion, number>; // 0-100 each
+}
+
+// How the model rates a hook, 0-10 per criterion it can judge better than the heuristics.
+export interface HookCritique {
+  clarity: number;
+  specificity: number;
+  curiosity: number;
+  comment: string;
+}
+
+// Where the hook will be published; decides length, style and emoji rules.
+export type Platform = 'generic' | 'tiktok' | 'reels' | 'shorts' | 'linkedin' | 'email';
+
+export interface PlatformRules {
+  maxChars: number;
+  style: 'spoken' | 'written'; // Said on camera vs read on screen
+  emoji: 'none' | 'one' | 'free';
+  subjectLine: boolean; // Email: the hook is the subject line
+  readingWpm: number; // Words per minute a viewer reads on that surface, for the reading time estimate
 }
 
+// Slots the niche assistant can suggest values for.
+export type NicheContextKey = Extract<PlaceholderKey, 'resultado' | 'situacionNegativa' | 'odio'>;
+
+export type NicheContext = Partial<Record<NicheContextKey, string>>;
+
 export interface FormData {
   niche: string;
   topic: string;
   audience: string; // Added to help context
-}
\ No newline at end of file
+  platform: Platform;
+  voiceProfileId: string | null; // Saved voice profile; its content is sent as GenerateRequest.voice
+  context?: NicheContext; // Suggestions the user accepted; sent to the model and used by the local fill
+}
+
+export interface GenerationBatch {
+  startedAt: string;
+  finishedAt: string;
+  templateIds: number[];
+  failedTemplateIds: number[];
+}
+
+// One run of the generator ("Generar Hooks Virales" plus every "Cargar más fórmulas" after it).
+export interface GenerationSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  formData: FormData;
+  filters: TemplateFilters;
+  templatePoolIds: number[]; // Ordered pool the batches page through (already shuffled if requested)
+  batchIndex: number;
+  batches: GenerationBatch[];
+  hooks: GeneratedHook[];
+  locale: Locale;
+  provider: string;
+  model: string;
+  manualValues?: PlaceholderValues; // Set when the hooks were filled locally instead of by a model
+}
+
+// A hook starred into the user's library, with the context it was generated for.
+export interface SavedHook {
+  id: string;
+  text: string;
+  templateId: number;
+  niche: string;
+  topic: string;
+  audience: string;
+  tags: string[];
+  savedAt: string;
+  script?: HookScript;
+  savedBy?: string; // Workspace hooks only: email of the member who saved it
+}
+
+// A client's tone of voice, saved locally and injected into the generation prompt.
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  description: string; // Free text: formal, irreverent, "tú" or "usted"...
+  dos: string[];
+  donts: string[];
+  forbiddenWords: string[]; // Checked again on every generated hook
+  exampleHooks: string[];
+  updatedAt: string;
+  updatedBy?: string; // Workspace voices only: email of the member who last saved it
+}
+
+// What the server needs from a voice profile to write in it.
+export type VoiceBrief = Omit<VoiceProfile, 'id' | 'updatedAt' | 'updatedBy'>;
+
+// A hook flattened with its context, ready to be written out by the exporters.
+export interface ExportableHook {
+  text: string;
+  templateId: number;
+  niche: string;
+  topic: string;
+  audience: string;
+  tags: string[];
+  script?: HookScript;
+}
+
+export type ExportFormat = 'csv' | 'markdown' | 'json' | 'ics';
+
+export interface CalendarOptions {
+  startDate: string; // YYYY-MM-DD, first day that can get a post
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  time: string; // HH:MM, local time of each post
+}
+
+export type HookLength = 'all' | 'short' | 'medium' | 'long';
+
+export type TemplateSource = 'all' | 'builtin' | 'custom';
+
+export interface TemplateFilters {
+  source?: TemplateSource; // Missing in sessions saved before custom templates: same as 'all'
+  categories: HookCategory[]; // Empty means every category
+  triggers: HookTrigger[]; // Empty means every trigger
+  length: HookLength;
+  shuffle: boolean;
+}
+
+// --- BULK GENERATION ---
+
+// One line of an uploaded or pasted topics list.
+export type BulkRowInput = Pick<FormData, 'niche' | 'topic' | 'audience'>;
+
+// 'pending' rows are loaded but not sent to the queue yet.
+export type BulkRowStatus = 'pending' | 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BulkRow {
+  id: string;
+  input: BulkRowInput;
+  status: BulkRowStatus;
+  hooks: GeneratedHook[];
+  expected: number; // Templates sent for this row, so progress reads hooks.length / expected
+  errorCode?: string; // ApiRequestError code of the last failed attempt
+  retryAfterSeconds?: number;
+}
+
+// --- ACCESS CONTROL ---
+
+export interface AccessCode {
+  code: string;
+  email: string; // The only email allowed to log in with this code (lowercased)
+  createdAt: string;
+  expiresAt: string | null;
+  uses: number;
+  lastUsedAt: string | null;
+  revoked: boolean;
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AccessRequest {
+  id: string;
+  email: string;
+  message: string;
+  createdAt: string;
+  status: AccessRequestStatus;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  code: string | null; // Code issued when the request was approved
+}
+
+export interface CodeUsageEntry {
+  code: string;
+  email: string;
+  usedAt: string;
+}
+
+// --- USAGE METERING ---
+
+// Limits per user (all of their codes together); null means unlimited.
+export interface UsageQuotas {
+  dailyRequests: number | null;
+  monthlyRequests: number | null;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+}
+
+// Requests are /api/generate, /api/critique and /api/script calls; one request may take several provider calls (retries).
+export interface UsageTotals {
+  requests: number;
+  providerCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageReportRow {
+  email: string;
+  code: string;
+  today: UsageTotals;
+  month: UsageTotals;
+  total: UsageTotals;
+  lastUsedAt: string | null;
+}
+
+export interface UsageReport {
+  quotas: UsageQuotas;
+  rows: UsageReportRow[]; // One per code, most recently used first
+}
+
+// --- PROMPT VERSIONS ---
+
+// Variables every adaptation prompt can use as {{name}}; a version may add its own on top.
+export type PromptVariable =
+  | 'niche'
+  | 'topic'
+  | 'audience'
+  | 'platform'
+  | 'language'
+  | 'platformRules'
+  | 'voice'
+  | 'rewrite'
+  | 'context'
+  | 'templates';
+
+// Versions are never edited in place: saving always adds the next number, so results stay traceable.
+export interface PromptVersion {
+  version: number; // 1 is the built-in prompt
+  body: string;
+  extraVariables: Record<string, string>; // Values of the version's own {{variables}}
+  note: string;
+  createdAt: string | null; // null for the built-in prompt
+  createdBy: string | null;
+}
+
+export interface PromptLibrary {
+  activeVersion: number; // Used by every generation that does not ask for a version
+  versions: PromptVersion[]; // Newest first; the built-in prompt is always last
+}
+
+export type PromptProblem =
+  | { code: 'EMPTY' }
+  | { code: 'TOO_LONG'; max: number }
+  | { code: 'MISSING_TEMPLATES' }
+  | { code: 'UNKNOWN_VARIABLE'; name: string }
+  | { code: 'INVALID_VARIABLE_NAME'; name: string };
+
+export type ExperimentArm = 'a' | 'b';
+
+// One template of an A/B run, adapted once by each prompt version.
+export interface ExperimentRow {
+  templateId: number;
+  template: string;
+  hooks: Partial<Record<ExperimentArm, string>>;
+  winner: ExperimentArm | 'tie' | null; // Picked by the reviewer
+}
+
+// --- WORKSPACES ---
+
+// owner: everything, members included. editor: changes the shared hooks and voices. viewer: reads and uses them.
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface WorkspaceMember {
+  email: string;
+  role: WorkspaceRole;
+  addedAt: string;
+  addedBy: string | null; // null for whoever created the workspace
+}
+
+// A team's shared library and voices, kept on the server. Members still log in with their own access code.
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+  library: SavedHook[];
+  voiceProfiles: VoiceProfile[];
+}
+
+export type ActivityKind =
+  | 'generated'
+  | 'savedHook'
+  | 'editedHook'
+  | 'deletedHook'
+  | 'savedVoice'
+  | 'deletedVoice'
+  | 'imported'
+  | 'addedMember'
+  | 'changedRole'
+  | 'removedMember';
+
+// One line of a workspace's activity feed.
+export interface ActivityEntry {
+  id: string;
+  workspaceId: string;
+  email: string; // Who did it
+  kind: ActivityKind;
+  detail: string; // Hook text, voice name, member email, or "niche · topic" for generations
+  count?: number; // Hooks generated or items imported
+  at: string;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+// Everything a member sees when a workspace is open; every change answers with a fresh copy.
+export interface WorkspaceDetail {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  activity: ActivityEntry[]; // Most recent first
+}
+
+export interface SaveMemberRequest {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+}
+
+// Copies hooks and voices from this browser into a workspace; texts and names already there are skipped.
+export interface ImportToWorkspaceRequest {
+  workspaceId: string;
+  library: SavedHook[];
+  voiceProfiles: VoiceProfile[];
+}
+
+// --- API CONTRACT (shared by the client services and the server handlers) ---
+
+export interface LoginRequest {
+  email: string;
+  code: string;
+}
+
+export interface SessionInfo {
+  email: string;
+  expiresAt: string;
+  isAdmin: boolean;
+}
+
+export interface LoginResponse extends SessionInfo {
+  token: string; // Signed session token, sent back as `Authorization: Bearer <token>`
+}
+
+export interface AccessRequestPayload {
+  email: string;
+  message?: string;
+}
+
+export interface AdminOverview {
+  requests: AccessRequest[];
+  codes: AccessCode[];
+  usage: CodeUsageEntry[];
+  consumption: UsageReport;
+}
+
+export interface SavePromptRequest {
+  body: string;
+  extraVariables: Record<string, string>;
+  note: string;
+}
+
+// GET /api/usage: the signed-in user's own consumption against their quotas (periods in UTC).
+export interface UsageStatus {
+  today: UsageTotals;
+  month: UsageTotals;
+  quotas: UsageQuotas;
+}
+
+export interface IssueCodeRequest {
+  email: string;
+  expiresAt: string | null;
+}
+
+export interface GenerateRequest {
+  formData: FormData;
+  templates: Pick<HookTemplate, 'id' | 'template'>[]; // Already in the locale's language when a translation exists
+  locale: Locale;
+  voice?: VoiceBrief;
+  rewrite?: HookRewrite; // Set by card actions; the request then carries exactly one template
+  promptVersion?: number; // Admins only, for A/B runs; everyone else gets the active version
+  workspaceId?: string; // Logs the run in that workspace's activity feed
+}
+
+export interface HookRewrite {
+  mode: RewriteMode;
+  sourceText: string; // The hook as currently shown on the card
+  count: number; // How many hooks to return for the template
+  avoidTexts?: string[]; // Hooks the new text must not echo (re-rolled near-duplicates)
+}
+
+// /api/critique reviews finished hooks; critiques come back in the order of `hooks`.
+export interface CritiqueRequest {
+  formData: FormData;
+  hooks: string[];
+  locale: Locale;
+}
+
+export interface CritiqueResponse {
+  critiques: (HookCritique | null)[]; // null where the model skipped or garbled a hook
+}
+
+// /api/script expands one finished hook into a short-video script.
+export interface ScriptRequest {
+  formData: FormData;
+  hook: string;
+  duration: ScriptDuration;
+  locale: Locale;
+  voice?: VoiceBrief;
+}
+
+export interface ScriptResponse {
+  script: HookScript;
+}
+
+// /api/niche-insights suggests what to fill the form with, starting from the niche alone.
+export interface NicheInsightsRequest {
+  niche: string;
+  locale: Locale;
+  platform?: Platform;
+}
+
+export interface NicheInsights {
+  topics: string[];
+  audiences: string[];
+  context: Record<NicheContextKey, string[]>;
+}
+
+export interface NicheInsightsResponse {
+  insights: NicheInsights;
+}
+
+export interface AdaptedHook {
+  templateId: number;
+  text: string;
+}
+
+// /api/generate answers with one JSON event per line (NDJSON) so hooks can be shown as they arrive.
+export type GenerateStreamEvent =
+  | { type: 'hook'; hook: AdaptedHook }
+  | {
+      type: 'done';
+      failedTemplateIds: number[]; // Templates that could not be adapted even after retrying
+      provider: string;
+      model: string;
+      promptVersion: number;
+    }
+  | { type: 'error'; error: string; retryAfterSeconds?: number };
+
+export type GenerateSummary = Extract<GenerateStreamEvent, { type: 'done' }>;
+
+export interface ApiErrorBody {
+  error: string;
+  message?: string;
+  retryAfterSeconds?: number;
+}
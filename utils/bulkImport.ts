@@ -0,0 +1,90 @@
+import { BulkRowInput } from '../types';
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets in Spanish locales export with ";"; pasted columns come with tabs
+const detectDelimiter = (firstLine: string) =>
+  DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+
+/** Splits CSV text into rows of cells: quoted cells may hold delimiters, doubled quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.map(cells => cells.map(c => c.trim())).filter(cells => cells.some(Boolean));
+};
+
+// Header names recognised in any of the supported languages
+const COLUMN_NAMES: Record<keyof BulkRowInput, string[]> = {
+  niche: ['niche', 'nicho'],
+  topic: ['topic', 'tema', 'tópico', 'assunto'],
+  audience: ['audience', 'audiencia', 'público', 'publico', 'público objetivo'],
+};
+
+export interface BulkImportResult {
+  rows: BulkRowInput[];
+  skipped: number; // Rows without a niche or a topic
+}
+
+/**
+ * Reads niche, topic and audience from CSV text. With a header row the columns can come in any
+ * order; without one they are taken as niche, topic, audience.
+ */
+export const parseBulkRows = (text: string): BulkImportResult => {
+  const table = parseCsv(text);
+  const header = (table[0] || []).map(cell => cell.toLowerCase());
+  const findColumn = (field: keyof BulkRowInput) => header.findIndex(cell => COLUMN_NAMES[field].includes(cell));
+  const hasHeader = findColumn('niche') !== -1 && findColumn('topic') !== -1;
+  const columns = hasHeader
+    ? { niche: findColumn('niche'), topic: findColumn('topic'), audience: findColumn('audience') }
+    : { niche: 0, topic: 1, audience: 2 };
+
+  const rows: BulkRowInput[] = [];
+  let skipped = 0;
+  (hasHeader ? table.slice(1) : table).forEach(cells => {
+    const row = {
+      niche: cells[columns.niche] || '',
+      topic: cells[columns.topic] || '',
+      audience: columns.audience === -1 ? '' : cells[columns.audience] || '',
+    };
+    if (row.niche && row.topic) rows.push(row);
+    else skipped++;
+  });
+
+  return { rows, skipped };
+};
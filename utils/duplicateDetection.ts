@@ -0,0 +1,45 @@
+import { DuplicateMatch, GeneratedHook, SavedHook } from '../types';
+import { NEAR_DUPLICATE_SIMILARITY } from '../constants';
+import { getShingleSimilarity, toShingles } from './hookScoring';
+
+/**
+ * Flags the result cards that say nearly the same as an earlier card or as a hook saved in "Mis Hooks".
+ * Cards are compared in generation order, so the first wording stays unflagged and the closest earlier card
+ * wins over the library. A saved copy with the exact same text is the card itself, not a repeat.
+ * Hooks too short to have shingles are never flagged.
+ */
+export const findNearDuplicates = (hooks: GeneratedHook[], library: SavedHook[]) => {
+  // Shingled once per text: the library can hold hundreds of hooks and this runs on every streamed card
+  const cache = new Map<string, Set<string>>();
+  const shinglesOf = (text: string) => {
+    if (!cache.has(text)) cache.set(text, toShingles(text));
+    return cache.get(text)!;
+  };
+  const similarity = (a: string, b: string) => {
+    const shinglesA = shinglesOf(a);
+    const shinglesB = shinglesOf(b);
+    return shinglesA.size && shinglesB.size ? getShingleSimilarity(shinglesA, shinglesB) : 0;
+  };
+
+  const matches = new Map<number, DuplicateMatch>();
+  hooks.forEach((hook, index) => {
+    let best: DuplicateMatch | null = null;
+    for (const earlier of hooks.slice(0, index)) {
+      const value = similarity(hook.text, earlier.text);
+      if (value >= NEAR_DUPLICATE_SIMILARITY && value > (best?.similarity ?? 0)) {
+        best = { source: 'results', hookId: earlier.id, text: earlier.text, similarity: value };
+      }
+    }
+    if (!best) {
+      for (const saved of library) {
+        if (saved.text === hook.text) continue;
+        const value = similarity(hook.text, saved.text);
+        if (value >= NEAR_DUPLICATE_SIMILARITY && value > (best?.similarity ?? 0)) {
+          best = { source: 'library', savedId: saved.id, text: saved.text, similarity: value };
+        }
+      }
+    }
+    if (best) matches.set(hook.id, best);
+  });
+  return matches;
+};
@@ -0,0 +1,213 @@
+import { CalendarOptions, ExportableHook, ExportFormat, FormData, GeneratedHook, SavedHook } from '../types';
+import type { Translate } from '../i18n';
+import { getTemplateById } from './templateCatalog';
+import { getBeatLabel, getScriptTimeline, scriptToText } from './scriptFormat';
+
+export const fromGeneratedHook = (hook: GeneratedHook, formData: FormData): ExportableHook => ({
+  text: hook.text,
+  templateId: hook.originalTemplateId,
+  niche: formData.niche,
+  topic: formData.topic,
+  audience: formData.audience,
+  tags: [],
+  ...(hook.script && { script: hook.script }),
+});
+
+export const fromSavedHook = (saved: SavedHook): ExportableHook => ({
+  text: saved.text,
+  templateId: saved.templateId,
+  niche: saved.niche,
+  topic: saved.topic,
+  audience: saved.audience,
+  tags: saved.tags,
+  ...(saved.script && { script: saved.script }),
+});
+
+// --- PLAIN TEXT ---
+
+export const toPlainText = (hooks: ExportableHook[]) => hooks.map(hook => hook.text).join('\n\n');
+
+// --- CSV ---
+
+// Text that Excel or Sheets would run as a formula ("=", "+", "-", "@", tab, CR) is kept as text with a leading quote
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Starts with a BOM so Excel opens accented text as UTF-8
+export const toCsv = (hooks: ExportableHook[], t: Translate) => {
+  const rows = hooks.map(hook => [
+    hook.text,
+    hook.templateId,
+    getTemplateById(hook.templateId)?.template || '',
+    hook.niche,
+    hook.topic,
+    hook.audience,
+    hook.tags.join(' '),
+    hook.script ? scriptToText(hook.script, t) : '',
+  ]);
+  return '\uFEFF' + [t('export.csvHeaders').split(','), ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- MARKDOWN ---
+
+export const toMarkdown = (hooks: ExportableHook[], t: Translate) => {
+  const lines = ['# Hooks', ''];
+  hooks.forEach((hook, index) => {
+    const context = [
+      t('hook.formula', { id: hook.templateId }),
+      hook.niche,
+      hook.topic,
+      hook.audience,
+      ...hook.tags.map(tag => `#${tag}`),
+    ].filter(Boolean);
+    lines.push(`${index + 1}. ${hook.text}`, `   _${context.join(' · ')}_`, '');
+    if (hook.script) {
+      lines.push(`   **${t('script.title', { seconds: hook.script.duration })}**`, '');
+      getScriptTimeline(hook.script).forEach((timed, beatIndex) => {
+        lines.push(`   - ${timed.start}-${timed.end}s · ${getBeatLabel(timed, beatIndex, t)}: ${timed.beat.say}`);
+        if (timed.beat.onScreenText) lines.push(`     - ${t('script.onScreen')}: ${timed.beat.onScreenText}`);
+        if (timed.beat.bRoll) lines.push(`     - ${t('script.bRoll')}: ${timed.beat.bRoll}`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+};
+
+// --- JSON ---
+
+export const toJson = (hooks: ExportableHook[]) =>
+  JSON.stringify(
+    hooks.map(hook => ({ ...hook, template: getTemplateById(hook.templateId)?.template || null })),
+    null,
+    2
+  );
+
+// --- ICALENDAR ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Assigns one posting day per hook, walking forward from the start date and
+ * skipping weekdays that are not selected. Dates stay in "YYYY-MM-DD" form.
+ */
+export const schedulePostingDates = (count: number, options: Pick<CalendarOptions, 'startDate' | 'weekdays'>) => {
+  const dates: string[] = [];
+  if (options.weekdays.length === 0) return dates;
+  // Midnight UTC of the chosen day, so stepping by 24h never trips over daylight saving
+  let cursor = Date.parse(`${options.startDate}T00:00:00Z`);
+  if (Number.isNaN(cursor)) return dates;
+  while (dates.length < count) {
+    const day = new Date(cursor);
+    if (options.weekdays.includes(day.getUTCDay())) dates.push(day.toISOString().slice(0, 10));
+    cursor += DAY_MS;
+  }
+  return dates;
+};
+
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 caps lines at 75 octets; continuation lines start with a space.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsUtcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * One 30 minute event per hook at the chosen local time (floating time, so it
+ * lands at that hour in whatever time zone the calendar app uses).
+ */
+export const toIcs = (hooks: ExportableHook[], options: CalendarOptions, t: Translate) => {
+  const dates = schedulePostingDates(hooks.length, options);
+  const time = /^\d{2}:\d{2}$/.test(options.time) ? options.time.replace(':', '') : '0900';
+  const stamp = toIcsUtcStamp(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Incubadora PRO FS//Hook Generator System//ES',
+    'CALSCALE:GREGORIAN',
+  ];
+  dates.forEach((date, index) => {
+    const hook = hooks[index];
+    const description = [
+      hook.text,
+      '',
+      `${t('hook.formula', { id: hook.templateId })} · ${hook.niche} · ${hook.topic}`,
+      ...(hook.script ? ['', scriptToText(hook.script, t)] : []),
+    ].join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${crypto.randomUUID()}@hook-generator`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${date.replace(/-/g, '')}T${time}00`,
+      'DURATION:PT30M',
+      `SUMMARY:${escapeIcsText(t('export.eventSummary', { text: hook.text }))}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// --- DOWNLOAD ---
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  ics: { extension: 'ics', mimeType: 'text/calendar;charset=utf-8' },
+};
+
+export const exportHooks = (hooks: ExportableHook[], format: ExportFormat, calendar: CalendarOptions, t: Translate) => {
+  switch (format) {
+    case 'csv':
+      return toCsv(hooks, t);
+    case 'markdown':
+      return toMarkdown(hooks, t);
+    case 'json':
+      return toJson(hooks);
+    case 'ics':
+      return toIcs(hooks, calendar, t);
+  }
+};
+
+export const downloadExport = (baseName: string, format: ExportFormat, content: string) => {
+  const { extension, mimeType } = EXPORT_FILES[format];
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "Fitness · Dieta keto" -> "hooks-fitness-dieta-keto"
+export const toExportFileName = (...parts: string[]) =>
+  ['hooks', ...parts]
+    .join(' ')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'hooks';
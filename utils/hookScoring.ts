@@ -0,0 +1,159 @@
+import { PLATFORM_RULES } from '../constants';
+import { FormData, GeneratedHook, HookCritique, HookScore, HookTemplate, Language, Platform, ScoreCriterion } from '../types';
+import { countWords } from './platforms';
+
+// How much each criterion weighs in the total; they add up to 1.
+export const SCORE_WEIGHTS: Record<ScoreCriterion, number> = {
+  clarity: 0.25,
+  specificity: 0.2,
+  curiosity: 0.25,
+  lengthFit: 0.15,
+  originality: 0.15,
+};
+
+export const SCORE_CRITERIA = Object.keys(SCORE_WEIGHTS) as ScoreCriterion[];
+
+interface LanguageCues {
+  vague: string[]; // Words that promise without saying anything concrete
+  openLoops: string[]; // Words that open a question the viewer wants closed
+  units: string[]; // Units that usually come with a concrete figure
+}
+
+const LANGUAGE_CUES: Record<Language, LanguageCues> = {
+  es: {
+    vague: ['cosas', 'algo', 'mucho', 'muchos', 'muy', 'bastante', 'increible', 'genial', 'cualquier'],
+    openLoops: ['secreto', 'nadie', 'nunca', 'error', 'errores', 'por que', 'verdad', 'esto', 'realmente', 'deja', 'sin'],
+    units: ['%', '€', '$', 'dias', 'semanas', 'meses', 'minutos', 'horas', 'kg', 'euros', 'dolares', 'pesos'],
+  },
+  en: {
+    vague: ['things', 'stuff', 'something', 'very', 'really', 'lots', 'amazing', 'great', 'any'],
+    openLoops: ['secret', 'nobody', 'never', 'mistake', 'mistakes', 'why', 'truth', 'this', 'actually', 'stop', 'without'],
+    units: ['%', '€', '$', 'days', 'weeks', 'months', 'minutes', 'hours', 'kg', 'lbs', 'dollars'],
+  },
+  pt: {
+    vague: ['coisas', 'algo', 'muito', 'muitos', 'bastante', 'incrivel', 'otimo', 'qualquer'],
+    openLoops: ['segredo', 'ninguem', 'nunca', 'erro', 'erros', 'por que', 'verdade', 'isso', 'realmente', 'pare', 'sem'],
+    units: ['%', 'r$', '$', 'dias', 'semanas', 'meses', 'minutos', 'horas', 'kg', 'reais'],
+  },
+};
+
+// Lowercase and strip accents, so cue lists can be written without them
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const toWords = (text: string): string[] => normalize(text).match(/[\p{L}\p{N}%€$]+/gu) || [];
+
+const clamp = (value: number) => Math.round(Math.min(Math.max(value, 0), 100));
+
+const containsCue = (normalizedText: string, words: string[], cue: string) =>
+  cue.includes(' ') || !/\p{L}/u.test(cue) ? normalizedText.includes(cue) : words.includes(cue);
+
+// --- LOCAL HEURISTICS ---
+
+// Short sentences with everyday words and few asides read at a glance.
+const scoreClarity = (text: string) => {
+  const sentences = text.split(/[.!?¿¡…]+/).map(s => s.trim()).filter(Boolean);
+  const longestSentence = Math.max(0, ...sentences.map(countWords));
+  const words = toWords(text);
+  const longWordRatio = words.length ? words.filter(word => word.length > 12).length / words.length : 0;
+  const asides = (text.match(/[,;:()—–]/g) || []).length;
+  return clamp(100 - Math.max(0, longestSentence - 15) * 4 - longWordRatio * 100 - Math.max(0, asides - 2) * 10);
+};
+
+// Figures, units and the user's own topic make a hook concrete; filler words make it generic.
+const scoreSpecificity = (text: string, formData: FormData, cues: LanguageCues) => {
+  const normalizedText = normalize(text);
+  const words = toWords(text);
+  const contextWords = toWords(`${formData.niche} ${formData.topic}`).filter(word => word.length >= 4);
+  const vagueCount = words.filter(word => cues.vague.includes(word)).length;
+  return clamp(
+    40 +
+      (/\d/.test(text) ? 25 : 0) +
+      (cues.units.some(unit => containsCue(normalizedText, words, unit)) ? 10 : 0) +
+      (contextWords.some(word => words.includes(word)) ? 15 : 0) -
+      vagueCount * 15
+  );
+};
+
+// Questions, open loops and a cliffhanger ending make people stay for the answer.
+const scoreCuriosity = (text: string, template: HookTemplate | undefined, cues: LanguageCues) => {
+  const normalizedText = normalize(text);
+  const words = toWords(text);
+  const loops = cues.openLoops.filter(cue => containsCue(normalizedText, words, cue)).length;
+  return clamp(
+    30 +
+      (text.includes('?') ? 25 : 0) +
+      Math.min(loops, 2) * 12 +
+      (/(:|\.\.\.|…)\s*$/.test(text) ? 15 : 0) +
+      (template?.trigger === 'curiosity' ? 10 : 0)
+  );
+};
+
+// Best between roughly a third and most of the platform's limit; past the limit drops fast.
+const scoreLengthFit = (text: string, platform: Platform) => {
+  const ratio = text.length / PLATFORM_RULES[platform].maxChars;
+  if (ratio < 0.35) return clamp(100 - (0.35 - ratio) * 250);
+  if (ratio > 0.85) return clamp(100 - (ratio - 0.85) * 400);
+  return 100;
+};
+
+// Word trigrams (bigrams for very short hooks), so reordered filler does not hide a copy.
+export const toShingles = (text: string) => {
+  const words = toWords(text);
+  const size = words.length >= 6 ? 3 : 2;
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) shingles.add(words.slice(i, i + size).join(' '));
+  return shingles;
+};
+
+// Jaccard similarity of two non-empty shingle sets, from 0 (nothing shared) to 1 (same set).
+export const getShingleSimilarity = (shinglesA: Set<string>, shinglesB: Set<string>) => {
+  let shared = 0;
+  shinglesA.forEach(shingle => {
+    if (shinglesB.has(shingle)) shared++;
+  });
+  return shared / (shinglesA.size + shinglesB.size - shared);
+};
+
+// Same measure on the hooks' texts, from 0 (nothing shared) to 1 (same text).
+export const getTextSimilarity = (a: string, b: string) => {
+  const shinglesA = toShingles(a);
+  const shinglesB = toShingles(b);
+  if (shinglesA.size === 0 || shinglesB.size === 0) return normalize(a) === normalize(b) ? 1 : 0;
+  return getShingleSimilarity(shinglesA, shinglesB);
+};
+
+// --- COMBINED SCORE ---
+
+// The model's 0-10 ratings count as much as the heuristics for the criteria it judged.
+const blend = (local: number, critique: HookCritique | undefined, criterion: keyof Omit<HookCritique, 'comment'>) =>
+  critique ? clamp((local + critique[criterion] * 10) / 2) : local;
+
+export interface ScoringContext {
+  formData: FormData;
+  language: Language;
+  getTemplate: (id: number) => HookTemplate | undefined;
+}
+
+/**
+ * Scores every hook of a batch; originality compares each hook with the rest of the batch,
+ * so the whole list has to be scored together.
+ */
+export const scoreHooks = (hooks: GeneratedHook[], { formData, language, getTemplate }: ScoringContext) => {
+  const cues = LANGUAGE_CUES[language];
+  const scores = new Map<number, HookScore>();
+
+  hooks.forEach(hook => {
+    const closest = Math.max(0, ...hooks.filter(other => other.id !== hook.id).map(other => getTextSimilarity(hook.text, other.text)));
+    const breakdown: Record<ScoreCriterion, number> = {
+      clarity: blend(scoreClarity(hook.text), hook.critique, 'clarity'),
+      specificity: blend(scoreSpecificity(hook.text, formData, cues), hook.critique, 'specificity'),
+      curiosity: blend(scoreCuriosity(hook.text, getTemplate(hook.originalTemplateId), cues), hook.critique, 'curiosity'),
+      lengthFit: scoreLengthFit(hook.text, formData.platform),
+      originality: clamp(100 * (1 - closest)),
+    };
+    const total = clamp(SCORE_CRITERIA.reduce((sum, criterion) => sum + breakdown[criterion] * SCORE_WEIGHTS[criterion], 0));
+    scores.set(hook.id, { total, breakdown });
+  });
+
+  return scores;
+};
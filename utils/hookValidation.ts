@@ -0,0 +1,15 @@
+export type HookIssue = 'LEFTOVER_PLACEHOLDER' | 'TOO_SHORT' | 'TOO_LONG' | 'DUPLICATE';
+
+export const MIN_HOOK_LENGTH = 15;
+export const MAX_HOOK_LENGTH = 280;
+
+export const hasLeftoverPlaceholder = (text: string) => /[\[\]]/.test(text);
+
+// Returns why an adapted hook is unusable, or null when it can be shown as is.
+// `maxLength` is the target platform's limit, never above MAX_HOOK_LENGTH.
+export const getHookIssue = (text: string, maxLength = MAX_HOOK_LENGTH): HookIssue | null => {
+  if (hasLeftoverPlaceholder(text)) return 'LEFTOVER_PLACEHOLDER';
+  if (text.length < MIN_HOOK_LENGTH) return 'TOO_SHORT';
+  if (text.length > Math.min(maxLength, MAX_HOOK_LENGTH)) return 'TOO_LONG';
+  return null;
+};
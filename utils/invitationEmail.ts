@@ -0,0 +1,37 @@
+import { AccessCode } from '../types';
+import type { Translate } from '../i18n';
+
+export interface InvitationEmail {
+  subject: string;
+  body: string;
+}
+
+// Written in the admin's interface language
+export const buildInvitationEmail = (accessCode: AccessCode, appUrl: string, t: Translate, intlTag: string): InvitationEmail => {
+  const expiry = accessCode.expiresAt
+    ? t('invitation.expires', { date: new Date(accessCode.expiresAt).toLocaleDateString(intlTag) })
+    : t('invitation.noExpiry');
+
+  return {
+    subject: t('invitation.subject'),
+    body: [
+      t('invitation.greeting'),
+      '',
+      t('invitation.approved'),
+      '',
+      t('invitation.email', { email: accessCode.email }),
+      t('invitation.code', { code: accessCode.code }),
+      expiry,
+      '',
+      t('invitation.link', { url: appUrl }),
+      '',
+      t('invitation.warning'),
+      '',
+      'Silvia Silva & Luis Figuerola',
+      'Incubadora PRO FS',
+    ].join('\n'),
+  };
+};
+
+export const buildMailtoLink = (to: string, email: InvitationEmail) =>
+  `mailto:${to}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`;
@@ -0,0 +1,244 @@
+import { FormData, HookTemplate, Language, PlaceholderKey, PlaceholderValues } from '../types';
+import { NICHE_CONTEXT_KEYS } from '../constants';
+import { getLocalizedTemplate, getPlaceholderKey } from './templateCatalog';
+
+export type { PlaceholderValues };
+
+const PLACEHOLDER_PATTERN = /\[([^\[\]]+)\]/g;
+
+const capitalizeFirst = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Replaces every `[...]` slot that has a value. Slots without a value are left untouched,
+ * so callers can tell which ones still need filling.
+ */
+export const fillTemplate = (template: string, values: PlaceholderValues): string => {
+  const filled = template.replace(PLACEHOLDER_PATTERN, (token, label: string) => {
+    const key = getPlaceholderKey(label);
+    const value = key ? values[key]?.trim() : '';
+    return value || token;
+  });
+  return capitalizeFirst(filled);
+};
+
+const DEFAULT_VALUE_BUILDERS: Record<Language, (formData: FormData) => PlaceholderValues> = {
+  es: ({ niche, topic, audience }) => ({
+    tema: topic,
+    resultado: `resultados reales en ${niche}`,
+    resultadoNegativo: 'cero avances',
+    numero: '5',
+    tiempo: '30 días',
+    frecuencia: 'cada día',
+    accion: `hacer lo mismo que todos en ${niche}`,
+    tarea: 'publicar sin estrategia',
+    situacionNegativa: 'estar estancado',
+    situacionPositiva: `dominar ${topic}`,
+    identidad: audience || `profesional de ${niche}`,
+    problema: 'la falta de constancia',
+    odio: 'perder horas cada día',
+    opcion: topic,
+    estrategia: 'publicar a diario',
+    consejo: 'hazlo todos los días',
+    persona: 'los referentes de tu nicho',
+    recurso: 'una buena plantilla',
+    industria: niche,
+  }),
+  en: ({ niche, topic, audience }) => ({
+    tema: topic,
+    resultado: `real results in ${niche}`,
+    resultadoNegativo: 'zero progress',
+    numero: '5',
+    tiempo: '30 days',
+    frecuencia: 'every day',
+    accion: `do what everyone else in ${niche} does`,
+    tarea: 'posting without a strategy',
+    situacionNegativa: 'feeling stuck',
+    situacionPositiva: `mastering ${topic}`,
+    identidad: audience || `${niche} professional`,
+    problema: 'a lack of consistency',
+    odio: 'waste hours every day',
+    opcion: topic,
+    estrategia: 'posting daily',
+    consejo: 'do it every single day',
+    persona: 'the leaders in your niche',
+    recurso: 'a good template',
+    industria: niche,
+  }),
+  pt: ({ niche, topic, audience }) => ({
+    tema: topic,
+    resultado: `resultados reais em ${niche}`,
+    resultadoNegativo: 'zero avanço',
+    numero: '5',
+    tiempo: '30 dias',
+    frecuencia: 'todo dia',
+    accion: `fazer o mesmo que todo mundo em ${niche}`,
+    tarea: 'postar sem estratégia',
+    situacionNegativa: 'estar estagnado',
+    situacionPositiva: `dominar ${topic}`,
+    identidad: audience || `profissional de ${niche}`,
+    problema: 'a falta de constância',
+    odio: 'perder horas todos os dias',
+    opcion: topic,
+    estrategia: 'postar todos os dias',
+    consejo: 'faça isso todos os dias',
+    persona: 'as referências do seu nicho',
+    recurso: 'um bom modelo',
+    industria: niche,
+  }),
+};
+
+// --- SPANISH AGREEMENT ---
+
+type Gender = 'm' | 'f';
+
+interface Agreement {
+  gender: Gender;
+  plural: boolean;
+}
+
+// Masculine singular, feminine singular, masculine plural, feminine plural
+type DeterminerForms = [string, string, string, string];
+
+const DETERMINERS: DeterminerForms[] = [
+  ['el', 'la', 'los', 'las'],
+  ['un', 'una', 'unos', 'unas'],
+  ['tu', 'tu', 'tus', 'tus'],
+  ['mi', 'mi', 'mis', 'mis'],
+  ['su', 'su', 'sus', 'sus'],
+  ['nuestro', 'nuestra', 'nuestros', 'nuestras'],
+  ['este', 'esta', 'estos', 'estas'],
+  ['ese', 'esa', 'esos', 'esas'],
+  ['aquel', 'aquella', 'aquellos', 'aquellas'],
+];
+
+// Articles give way to the value's own article; possessives and demonstratives keep their place.
+const ARTICLES = new Set(['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas']);
+
+// Nouns ending in -a that are masculine anyway
+const MASCULINE_A = new Set(['día', 'dia', 'mapa', 'problema', 'sistema', 'tema', 'programa', 'clima', 'idioma', 'drama', 'esquema', 'dilema', 'método', 'planeta']);
+
+const findDeterminer = (word: string) => {
+  const lower = word.toLowerCase();
+  for (const forms of DETERMINERS) {
+    const index = forms.indexOf(lower);
+    if (index !== -1) return { forms, agreement: { gender: index % 2 === 0 ? 'm' : 'f', plural: index >= 2 } as Agreement };
+  }
+  return undefined;
+};
+
+// Keeps the capital of the word being replaced ("Los" -> "El")
+const matchCase = (original: string, replacement: string) =>
+  original.charAt(0) === original.charAt(0).toUpperCase() ? capitalizeFirst(replacement) : replacement;
+
+// "Crisis", "estrés" or "país" end in -s but are singular
+const looksPlural = (word: string) => word.length > 2 && /s$/.test(word) && !/(is|[áéíóú]s)$/.test(word);
+
+/** Best-effort singular of a Spanish plural: "razones" -> "razón", "errores" -> "error", "cosas" -> "cosa". */
+export const singularize = (word: string): string => {
+  if (!looksPlural(word.toLowerCase())) return word;
+  if (/[cs]iones$/i.test(word)) return word.replace(/iones$/i, 'ión');
+  if (/ones$/i.test(word)) return word.replace(/ones$/i, 'ón');
+  if (/ces$/i.test(word)) return word.replace(/ces$/i, 'z');
+  if (/[aeiou][lrndj]es$/i.test(word)) return word.replace(/es$/i, '');
+  return word.replace(/s$/i, '');
+};
+
+/** Gender and number of a noun phrase, from its leading determiner or, failing that, the ending of its first word. */
+export const inferAgreement = (phrase: string): Agreement => {
+  const [first = ''] = phrase.trim().toLowerCase().split(/\s+/);
+  const determiner = findDeterminer(first);
+  if (determiner) return determiner.agreement;
+  const plural = looksPlural(first);
+  const singular = plural ? singularize(first) : first;
+  const feminine =
+    (/a$/.test(singular) && !MASCULINE_A.has(singular)) || /(ción|sión|dad|tad|tud|umbre)$/.test(singular);
+  return { gender: feminine ? 'f' : 'm', plural };
+};
+
+const formFor = (forms: DeterminerForms, { gender, plural }: Agreement) =>
+  forms[(plural ? 2 : 0) + (gender === 'f' ? 1 : 0)];
+
+const ONE = /^(1|un|una|uno)$/i;
+
+/**
+ * fillTemplate plus basic Spanish agreement around each slot: the determiner before it follows the
+ * value's gender and number ("tu [resultados]" -> "tus ventas"), a value that brings its own article
+ * replaces the template's one, "de el"/"a el" contract, and a [número] of 1 makes its noun singular.
+ */
+export const fillTemplateWithAgreement = (template: string, values: PlaceholderValues): string => {
+  const one = ONE.test(values.numero?.trim() || '');
+
+  // "Los [número] errores mortales" with 1 -> "El 1 error mortal"
+  const counted = template.replace(
+    /(?:(\p{L}+)(\s+))?\[([^\[\]]+)\](\s+)(\p{L}+)(?:(\s+)(\p{L}+))?/gu,
+    (match, before: string | undefined, gap: string | undefined, label: string, gapAfter: string, next: string, gapNext?: string, nextNext?: string) => {
+      if (!one || getPlaceholderKey(label) !== 'numero') return match;
+      const determiner = before && findDeterminer(before);
+      const lead = !before ? '' : determiner
+        ? `${matchCase(before, formFor(determiner.forms, { ...determiner.agreement, plural: false }))}${gap}`
+        : `${before}${gap}`;
+      const second = nextNext && looksPlural(nextNext.toLowerCase()) && looksPlural(next.toLowerCase()) ? singularize(nextNext) : nextNext;
+      return `${lead}${values.numero!.trim()}${gapAfter}${singularize(next)}${gapNext ?? ''}${second ?? ''}`;
+    }
+  );
+
+  const agreed = counted.replace(
+    /(?:(\p{L}+)(\s+))?\[([^\[\]]+)\]/gu,
+    (match, before: string | undefined, gap: string | undefined, label: string) => {
+      const key = getPlaceholderKey(label);
+      const value = key && key !== 'numero' ? values[key]?.trim() : '';
+      if (!value || !before) return match;
+
+      const [valueFirst, ...valueRest] = value.split(/\s+/);
+      const ownArticle = valueRest.length > 0 && ARTICLES.has(valueFirst.toLowerCase());
+      const determiner = findDeterminer(before);
+      if (determiner) {
+        if (ownArticle && ARTICLES.has(before.toLowerCase())) return matchCase(before, value);
+        const body = ownArticle ? valueRest.join(' ') : value;
+        return `${matchCase(before, formFor(determiner.forms, inferAgreement(value)))}${gap}${body}`;
+      }
+      if (/^(de|a)$/i.test(before) && valueFirst === 'el' && valueRest.length > 0) {
+        return `${matchCase(before, before.toLowerCase() === 'de' ? 'del' : 'al')}${gap}${valueRest.join(' ')}`;
+      }
+      return match;
+    }
+  );
+
+  // Whatever the agreement passes left alone is substituted as written
+  return fillTemplate(agreed, values);
+};
+
+// Agreement helpers only know Spanish; other languages are substituted as written.
+export const fillLocalizedTemplate = (template: string, values: PlaceholderValues, language: Language) =>
+  language === 'es' ? fillTemplateWithAgreement(template, values) : fillTemplate(template, values);
+
+// Generic, deterministic values derived from the form, in the language of the template. Used when no model is available.
+// Accepted niche suggestions replace the generic wording for their slots.
+export const buildDefaultValues = (formData: FormData, language: Language = 'es'): PlaceholderValues => {
+  const values = DEFAULT_VALUE_BUILDERS[language](formData);
+  NICHE_CONTEXT_KEYS.forEach(key => {
+    const accepted = formData.context?.[key]?.trim();
+    if (accepted) values[key] = accepted;
+  });
+  return values;
+};
+
+// Slots used across the given templates in that language, most used first: the manual fill form asks for these.
+export const getUsedPlaceholders = (templates: HookTemplate[], language: Language) => {
+  const counts = new Map<PlaceholderKey, number>();
+  templates.forEach(template => {
+    new Set(getLocalizedTemplate(template, language).placeholders.map(p => p.key)).forEach(key => {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  return Array.from(counts, ([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+// Typed values win; blank ones fall back to the same defaults the offline provider uses.
+export const resolveManualValues = (values: PlaceholderValues, formData: FormData, language: Language): PlaceholderValues => {
+  const resolved = buildDefaultValues(formData, language);
+  (Object.keys(values) as PlaceholderKey[]).forEach(key => {
+    if (values[key]?.trim()) resolved[key] = values[key];
+  });
+  return resolved;
+};
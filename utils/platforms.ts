@@ -0,0 +1,25 @@
+import { PLATFORM_RULES, PLATFORMS } from '../constants';
+import { Platform } from '../types';
+
+export const isPlatform = (value: unknown): value is Platform => PLATFORMS.includes(value as Platform);
+
+export const countWords = (text: string) => text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+export interface HookMetrics {
+  characters: number;
+  words: number;
+  readingSeconds: number;
+  overLimit: boolean;
+}
+
+// Character and word counts plus how long the hook takes to read on the given platform.
+export const getHookMetrics = (text: string, platform: Platform): HookMetrics => {
+  const rules = PLATFORM_RULES[platform];
+  const words = countWords(text);
+  return {
+    characters: text.length,
+    words,
+    readingSeconds: Math.round((words / rules.readingWpm) * 600) / 10,
+    overLimit: text.length > rules.maxChars,
+  };
+};
@@ -0,0 +1,59 @@
+import { PromptProblem, PromptVariable } from '../types';
+
+export const BUILTIN_PROMPT_VERSION = 1;
+
+export const MAX_PROMPT_LENGTH = 8000;
+
+// In the order the editor offers them
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  'niche',
+  'topic',
+  'audience',
+  'platform',
+  'context',
+  'language',
+  'platformRules',
+  'voice',
+  'rewrite',
+  'templates',
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const VARIABLE_NAME = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export const isPromptVariable = (name: string): name is PromptVariable =>
+  PROMPT_VARIABLES.includes(name as PromptVariable);
+
+// Own keys only: `in` or a plain lookup would also find "toString", "constructor"... on any object.
+// (Object.hasOwn is not in the ES2020 lib the project targets.)
+export const hasVariable = (values: Record<string, string>, name: string) =>
+  Object.prototype.hasOwnProperty.call(values, name);
+
+// Distinct {{names}} in the order they first appear
+export const getPromptVariables = (body: string) =>
+  Array.from(new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+/**
+ * Why a prompt cannot be saved. Every {{variable}} must be a built-in one or one of the version's
+ * own, and {{templates}} is mandatory: without it the model never sees what to adapt.
+ */
+export const getPromptProblems = (body: string, extraVariables: Record<string, string>): PromptProblem[] => {
+  if (!body.trim()) return [{ code: 'EMPTY' }];
+
+  const problems: PromptProblem[] = [];
+  if (body.length > MAX_PROMPT_LENGTH) problems.push({ code: 'TOO_LONG', max: MAX_PROMPT_LENGTH });
+  Object.keys(extraVariables)
+    .filter(name => !VARIABLE_NAME.test(name) || isPromptVariable(name))
+    .forEach(name => problems.push({ code: 'INVALID_VARIABLE_NAME', name }));
+
+  const variables = getPromptVariables(body);
+  if (!variables.includes('templates')) problems.push({ code: 'MISSING_TEMPLATES' });
+  variables
+    .filter(name => !isPromptVariable(name) && !hasVariable(extraVariables, name))
+    .forEach(name => problems.push({ code: 'UNKNOWN_VARIABLE', name }));
+  return problems;
+};
+
+// Variables without a value render empty, so a stray one never reaches the model as "{{name}}"
+export const renderPrompt = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (_, name: string) => (hasVariable(values, name) ? values[name] : ''));
@@ -0,0 +1,43 @@
+import { HookScript, ScriptBeat } from '../types';
+import type { Translate } from '../i18n';
+
+// The hook owns the first 3 seconds; the CTA the last ~15% of the video
+const HOOK_SECONDS = 3;
+const CTA_SHARE = 0.15;
+
+export interface TimedBeat {
+  beat: ScriptBeat;
+  kind: 'hook' | 'point' | 'cta';
+  start: number; // Seconds from the start of the video
+  end: number;
+}
+
+/** Lays the script out on the clock: talking points split evenly whatever the hook and CTA leave. */
+export const getScriptTimeline = (script: HookScript): TimedBeat[] => {
+  const ctaStart = Math.round(script.duration * (1 - CTA_SHARE));
+  const pointSeconds = (ctaStart - HOOK_SECONDS) / Math.max(1, script.points.length);
+  return [
+    { beat: script.hook, kind: 'hook', start: 0, end: HOOK_SECONDS },
+    ...script.points.map((beat, index) => ({
+      beat,
+      kind: 'point' as const,
+      start: Math.round(HOOK_SECONDS + index * pointSeconds),
+      end: Math.round(HOOK_SECONDS + (index + 1) * pointSeconds),
+    })),
+    { beat: script.cta, kind: 'cta', start: ctaStart, end: script.duration },
+  ];
+};
+
+export const getBeatLabel = ({ kind }: TimedBeat, index: number, t: Translate) =>
+  kind === 'hook' ? t('script.hook') : kind === 'cta' ? t('script.cta') : t('script.point', { number: index });
+
+// Plain text for the clipboard and the exports: one block per beat, cues indented under what is said
+export const scriptToText = (script: HookScript, t: Translate) =>
+  getScriptTimeline(script)
+    .map((timed, index) => {
+      const lines = [`[${timed.start}-${timed.end}s] ${getBeatLabel(timed, index, t)}: ${timed.beat.say}`];
+      if (timed.beat.onScreenText) lines.push(`  ${t('script.onScreen')}: ${timed.beat.onScreenText}`);
+      if (timed.beat.bRoll) lines.push(`  ${t('script.bRoll')}: ${timed.beat.bRoll}`);
+      return lines.join('\n');
+    })
+    .join('\n');
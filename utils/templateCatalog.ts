@@ -0,0 +1,310 @@
+import { RAW_HOOKS } from '../constants';
+import { RAW_HOOKS_EN } from '../i18n/templates/en';
+import { RAW_HOOKS_PT } from '../i18n/templates/pt';
+import {
+  CustomTemplate,
+  HookCategory,
+  HookTemplate,
+  HookTrigger,
+  Language,
+  PlaceholderKey,
+  TemplatePlaceholder,
+  TemplateProblem,
+  TemplateTranslation,
+} from '../types';
+
+const NUMBER_PREFIX = /^(\d+)\.\s+/;
+const PLACEHOLDER_PATTERN = /\[([^\[\]]+)\]/g;
+
+// Ordered rules: the first pattern that matches the (lowercased) placeholder label wins.
+// Labels may be Spanish, English or Portuguese (see i18n/templates).
+const PLACEHOLDER_RULES: [RegExp, PlaceholderKey][] = [
+  [/^(tema|topic)$/, 'tema'],
+  [/^(número|number)$/, 'numero'],
+  [/^(tiempo|time|tempo)$/, 'tiempo'],
+  [/^(frecuencia|frequency|frequência)/, 'frecuencia'],
+  [/odia|odeia|dolor|^dor$|hate|pain/, 'odio'],
+  [/^(acción|action|ação)/, 'accion'],
+  [/^(tarea|task|tarefa)/, 'tarea'],
+  [/resultados? negativo|negative result/, 'resultadoNegativo'],
+  [/resultado|result/, 'resultado'],
+  [/^(situación positiva|positive situation|situação positiva)/, 'situacionPositiva'],
+  [/^(situación|situação)|negative situation/, 'situacionNegativa'],
+  [/^(problema|problem)/, 'problema'],
+  [/identidad|identity|identidade/, 'identidad'],
+  [/^(opción|option|opção)$/, 'opcion'],
+  [/nombre de estrategia|strategy name|nome da estratégia/, 'estrategia'],
+  [/consejo|advice|conselho/, 'consejo'],
+  [/persona famosa|famous person|pessoa famosa/, 'persona'],
+  [/herramienta|recurso|tool|ferramenta/, 'recurso'],
+  [/industria|industry|indústria/, 'industria'],
+];
+
+// One ready-made token per slot for the template editor, worded for each language.
+export const PLACEHOLDER_TOKENS: Record<Language, Record<PlaceholderKey, string>> = {
+  es: {
+    tema: '[tema]',
+    resultado: '[resultado]',
+    resultadoNegativo: '[resultado negativo]',
+    numero: '[número]',
+    tiempo: '[tiempo]',
+    frecuencia: '[frecuencia]',
+    accion: '[acción]',
+    tarea: '[tarea]',
+    situacionNegativa: '[situación negativa]',
+    situacionPositiva: '[situación positiva]',
+    identidad: '[identidad]',
+    problema: '[problema]',
+    odio: '[cosa que tu audiencia odia hacer]',
+    opcion: '[opción]',
+    estrategia: '[nombre de estrategia]',
+    consejo: '[consejo]',
+    persona: '[persona famosa]',
+    recurso: '[herramienta]',
+    industria: '[industria]',
+  },
+  en: {
+    tema: '[topic]',
+    resultado: '[result]',
+    resultadoNegativo: '[negative result]',
+    numero: '[number]',
+    tiempo: '[time]',
+    frecuencia: '[frequency]',
+    accion: '[action]',
+    tarea: '[task]',
+    situacionNegativa: '[negative situation]',
+    situacionPositiva: '[positive situation]',
+    identidad: '[identity]',
+    problema: '[problem]',
+    odio: '[thing your audience hates doing]',
+    opcion: '[option]',
+    estrategia: '[strategy name]',
+    consejo: '[advice]',
+    persona: '[famous person]',
+    recurso: '[tool]',
+    industria: '[industry]',
+  },
+  pt: {
+    tema: '[tema]',
+    resultado: '[resultado]',
+    resultadoNegativo: '[resultado negativo]',
+    numero: '[número]',
+    tiempo: '[tempo]',
+    frecuencia: '[frequência]',
+    accion: '[ação]',
+    tarea: '[tarefa]',
+    situacionNegativa: '[situação negativa]',
+    situacionPositiva: '[situação positiva]',
+    identidad: '[identidade]',
+    problema: '[problema]',
+    odio: '[coisa que seu público odeia fazer]',
+    opcion: '[opção]',
+    estrategia: '[nome da estratégia]',
+    consejo: '[conselho]',
+    persona: '[pessoa famosa]',
+    recurso: '[ferramenta]',
+    industria: '[indústria]',
+  },
+};
+
+// `\b` does not treat accented letters as word characters, so whole words are matched with Unicode lookarounds.
+const words = (alternatives: string) => new RegExp(`(?<!\\p{L})(?:${alternatives})(?!\\p{L})`, 'iu');
+
+// Ordered rules: a template lands in the first category whose pattern matches.
+const CATEGORY_RULES: [RegExp, HookCategory][] = [
+  [/error|red flags|equivocad|matando|dañando|saboteando|fracasan|estás fallando|reset urgente/i, 'errores'],
+  [/opinión impopular|mentira|mitos?\b|no necesitas|no tienes que|peor|está muerta|no es tan clave|no es la única|ya no funcionan|mala idea|no es lo que|deja de|no vuelvas|nunca vuelvas|evita|has estado haciendo/i, 'contrarian'],
+  [/^(\[número\]|\d+ |los \[número\])/i, 'listas'],
+  [words('logré|conseguí|consigo|pasé|probé|multipliqué|aprendí|dejé|usé|hice|hago|uso|mis?'), 'historia'],
+  [words('hacks?|trucos?|secretos?|nadie|ilegal|no conocías|poco valorados|roba|copia'), 'secretos'],
+];
+
+const TRIGGER_RULES: [RegExp, HookTrigger][] = [
+  [/error|red flags|matando|dañando|saboteando|fracasan|mortales|negativo|evita|deja de|no cometas|peor|nunca|tarde|urgente|frenan?|estás fallando/i, 'fear'],
+  [/\?|nadie|secreto|verdad|mentira|mitos?\b|hack|truco|no conocías|ilegal|pasó|impopular|razón/i, 'curiosity'],
+];
+
+export const getPlaceholderKey = (label: string): PlaceholderKey | null => {
+  const normalized = label.trim().toLowerCase();
+  const rule = PLACEHOLDER_RULES.find(([pattern]) => pattern.test(normalized));
+  return rule ? rule[1] : null;
+};
+
+export const extractPlaceholders = (template: string): TemplatePlaceholder[] => {
+  const placeholders: TemplatePlaceholder[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const token = match[0];
+    if (placeholders.some(p => p.token === token)) continue;
+    const key = getPlaceholderKey(match[1]);
+    if (key) placeholders.push({ token, key });
+  }
+  return placeholders;
+};
+
+const classify = <T>(template: string, rules: [RegExp, T][], fallback: T): T => {
+  const rule = rules.find(([pattern]) => pattern.test(template));
+  return rule ? rule[1] : fallback;
+};
+
+const splitRawHook = (raw: string, index: number) => {
+  const prefix = raw.match(NUMBER_PREFIX);
+  return { id: prefix ? Number(prefix[1]) : index + 1, template: raw.replace(NUMBER_PREFIX, '').trim() };
+};
+
+export const parseRawHook = (raw: string, index: number): HookTemplate => {
+  const { id, template } = splitRawHook(raw, index);
+  return {
+    id,
+    template,
+    category: classify(template, CATEGORY_RULES, 'tutorial'),
+    trigger: classify(template, TRIGGER_RULES, 'gain'),
+    placeholders: extractPlaceholders(template),
+    translations: {},
+  };
+};
+
+// Native translations of RAW_HOOKS, keyed by language. Spanish is the original.
+export const RAW_HOOK_TRANSLATIONS: Partial<Record<Language, string[]>> = {
+  en: RAW_HOOKS_EN,
+  pt: RAW_HOOKS_PT,
+};
+
+const parseTranslations = (rawByLanguage: Partial<Record<Language, string[]>>) => {
+  const byId = new Map<number, Partial<Record<Language, TemplateTranslation>>>();
+  for (const [language, rawHooks] of Object.entries(rawByLanguage) as [Language, string[]][]) {
+    rawHooks.forEach((raw, index) => {
+      const { id, template } = splitRawHook(raw, index);
+      byId.set(id, { ...byId.get(id), [language]: { template, placeholders: extractPlaceholders(template) } });
+    });
+  }
+  return byId;
+};
+
+/**
+ * Syntax problems of a single template: brackets must open and close in pairs without nesting,
+ * and every slot has to be one the placeholder rules recognise.
+ */
+export const getTemplateProblems = (template: string): TemplateProblem[] => {
+  if (!template.trim()) return [{ code: 'EMPTY' }];
+  const problems: TemplateProblem[] = [];
+
+  let depth = 0;
+  let balanced = true;
+  for (const char of template) {
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    if (depth < 0 || depth > 1) balanced = false;
+  }
+  if (!balanced || depth !== 0) problems.push({ code: 'UNBALANCED_BRACKETS' });
+
+  if (/\[\s*\]/.test(template)) problems.push({ code: 'EMPTY_PLACEHOLDER' });
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!getPlaceholderKey(match[1]) && !problems.some(p => p.code === 'UNKNOWN_PLACEHOLDER' && p.token === match[0])) {
+      problems.push({ code: 'UNKNOWN_PLACEHOLDER', token: match[0] });
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Returns a list of human readable problems with the raw hook list.
+ * An empty list means the catalog is valid. Run by the Vite build (see vite.config.ts).
+ */
+export const validateRawHooks = (rawHooks: string[]): string[] => {
+  const problems: string[] = [];
+  const seenIds = new Set<number>();
+
+  rawHooks.forEach((raw, index) => {
+    const where = `Hook #${index + 1}`;
+    const prefix = raw.match(NUMBER_PREFIX);
+    if (!prefix) {
+      problems.push(`${where}: falta el prefijo numérico ("${raw.slice(0, 40)}...").`);
+    } else {
+      const id = Number(prefix[1]);
+      if (id !== index + 1) problems.push(`${where}: el prefijo ${id} no coincide con su posición.`);
+      if (seenIds.has(id)) problems.push(`${where}: id ${id} duplicado.`);
+      seenIds.add(id);
+    }
+
+    for (const problem of getTemplateProblems(raw.replace(NUMBER_PREFIX, ''))) {
+      if (problem.code === 'UNBALANCED_BRACKETS') problems.push(`${where}: corchetes desbalanceados.`);
+      else if (problem.code === 'UNKNOWN_PLACEHOLDER') problems.push(`${where}: placeholder desconocido ${problem.token}.`);
+      else if (problem.code === 'EMPTY_PLACEHOLDER') problems.push(`${where}: placeholder vacío [].`);
+      else problems.push(`${where}: plantilla vacía.`);
+    }
+  });
+
+  return problems;
+};
+
+const placeholderKeySet = (template: string) =>
+  Array.from(new Set(extractPlaceholders(template).map(p => p.key))).sort().join(',');
+
+/**
+ * Same checks as validateRawHooks for a translated list, plus: every entry must
+ * translate an existing template and use the same placeholder slots as it.
+ */
+export const validateTranslatedHooks = (language: Language, translated: string[], original: string[]): string[] => {
+  const problems = validateRawHooks(translated).map(problem => `[${language}] ${problem}`);
+  const originals = new Map(original.map((raw, index) => {
+    const { id, template } = splitRawHook(raw, index);
+    return [id, template];
+  }));
+
+  translated.forEach((raw, index) => {
+    const { id, template } = splitRawHook(raw, index);
+    const source = originals.get(id);
+    if (source === undefined) {
+      problems.push(`[${language}] Hook #${index + 1}: no existe la plantilla original ${id}.`);
+    } else if (placeholderKeySet(template) !== placeholderKeySet(source)) {
+      problems.push(`[${language}] Hook #${index + 1}: sus placeholders no coinciden con los del original.`);
+    }
+  });
+
+  return problems;
+};
+
+const TRANSLATIONS_BY_ID = parseTranslations(RAW_HOOK_TRANSLATIONS);
+
+export const TEMPLATE_CATALOG: HookTemplate[] = RAW_HOOKS.map((raw, index) => {
+  const template = parseRawHook(raw, index);
+  return { ...template, translations: TRANSLATIONS_BY_ID.get(template.id) || {} };
+});
+
+/**
+ * The template as it should be shown and sent for a language: its native translation
+ * when there is one, otherwise the Spanish original (the model then translates it).
+ */
+export const getLocalizedTemplate = (template: HookTemplate, language: Language): TemplateTranslation =>
+  template.translations[language] || { template: template.template, placeholders: template.placeholders };
+
+// --- CUSTOM TEMPLATES ---
+
+// Far above the built-in numbering, so RAW_HOOKS can keep growing
+export const CUSTOM_TEMPLATE_ID_START = 100000;
+
+// Parsed like a built-in template; the user's category and trigger win over the automatic ones.
+export const toHookTemplate = (custom: CustomTemplate): HookTemplate => {
+  const parsed = parseRawHook(custom.template, 0);
+  return {
+    ...parsed,
+    id: custom.id,
+    category: custom.category || parsed.category,
+    trigger: custom.trigger || parsed.trigger,
+    custom: true,
+  };
+};
+
+let customCatalog: HookTemplate[] = [];
+
+// Called whenever the user's templates change, so lookups by id see them everywhere.
+export const registerCustomTemplates = (templates: CustomTemplate[]) => {
+  customCatalog = templates.map(toHookTemplate);
+};
+
+// Built-in templates first, then the user's, oldest first.
+export const getTemplateCatalog = (): HookTemplate[] => [...TEMPLATE_CATALOG, ...customCatalog];
+
+export const getTemplateById = (id: number): HookTemplate | undefined =>
+  id >= CUSTOM_TEMPLATE_ID_START ? customCatalog.find(t => t.id === id) : TEMPLATE_CATALOG.find(t => t.id === id);
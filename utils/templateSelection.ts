@@ -0,0 +1,34 @@
+import { HOOK_LENGTH_LIMITS } from '../constants';
+import { HookLength, HookTemplate, TemplateFilters } from '../types';
+
+export const getTemplateLength = (template: HookTemplate): Exclude<HookLength, 'all'> => {
+  const length = template.template.length;
+  if (length <= HOOK_LENGTH_LIMITS.short) return 'short';
+  if (length <= HOOK_LENGTH_LIMITS.medium) return 'medium';
+  return 'long';
+};
+
+export const matchesFilters = (template: HookTemplate, filters: TemplateFilters): boolean =>
+  (!filters.source || filters.source === 'all' || (filters.source === 'custom') === Boolean(template.custom)) &&
+  (filters.categories.length === 0 || filters.categories.includes(template.category)) &&
+  (filters.triggers.length === 0 || filters.triggers.includes(template.trigger)) &&
+  (filters.length === 'all' || getTemplateLength(template) === filters.length);
+
+// Fisher-Yates on a copy, so the catalog itself keeps its canonical order.
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Builds the ordered pool of templates a generation session walks through.
+ * The pool is computed once per session so "load more" pages stay consistent, even when shuffled.
+ */
+export const selectTemplates = (catalog: HookTemplate[], filters: TemplateFilters): HookTemplate[] => {
+  const matching = catalog.filter(template => matchesFilters(template, filters));
+  return filters.shuffle ? shuffle(matching) : matching;
+};
@@ -0,0 +1,46 @@
+import { UsageQuotas, UsageTotals } from '../types';
+import type { Translate } from '../i18n';
+
+const HOUR_SECONDS = 3600;
+
+export const totalTokens = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+export const hasQuotas = (quotas: UsageQuotas) => Object.values(quotas).some(quota => quota !== null);
+
+/** Friendly text for the 429 the server sends once a quota is used up; null for any other error code. */
+export const getQuotaMessage = (code: string, retryAfterSeconds: number | undefined, t: Translate, intlTag: string) => {
+  const seconds = retryAfterSeconds ?? 0;
+  if (code === 'DAILY_QUOTA_EXCEEDED') {
+    return t('generator.error.quotaDaily', { hours: Math.max(1, Math.ceil(seconds / HOUR_SECONDS)) });
+  }
+  if (code === 'MONTHLY_QUOTA_EXCEEDED') {
+    return t('generator.error.quotaMonthly', { date: new Date(Date.now() + seconds * 1000).toLocaleDateString(intlTag) });
+  }
+  return null;
+};
+
+type UsageLimits = { requests: number | null; tokens: number | null };
+
+// "50 solicitudes · 100.000 tokens", leaving out whatever has no limit
+export const formatQuota = (limits: UsageLimits, t: Translate, intlTag: string) => {
+  const parts = [
+    limits.requests !== null && t('usage.requests', { count: limits.requests.toLocaleString(intlTag) }),
+    limits.tokens !== null && t('usage.tokens', { count: limits.tokens.toLocaleString(intlTag) }),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : t('admin.consumption.unlimited');
+};
+
+// "12/50 solicitudes · 3.400 tokens": the limit only appears when there is one
+export const formatUsage = (
+  totals: UsageTotals,
+  limits: UsageLimits,
+  t: Translate,
+  intlTag: string,
+) => {
+  const format = (used: number, max: number | null) =>
+    max === null ? used.toLocaleString(intlTag) : `${used.toLocaleString(intlTag)}/${max.toLocaleString(intlTag)}`;
+  return [
+    t('usage.requests', { count: format(totals.requests, limits.requests) }),
+    t('usage.tokens', { count: format(totalTokens(totals), limits.tokens) }),
+  ].join(' · ');
+};
@@ -0,0 +1,17 @@
+// Lowercase and strip accents so "Barato" also catches "BARATO" and "baráto"
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Forbidden words or phrases that appear in the hook as whole words,
+ * so banning "gratis" does not flag "gratitud".
+ */
+export const findForbiddenWords = (text: string, forbiddenWords: string[]) => {
+  const haystack = normalize(text);
+  return forbiddenWords.filter(word => {
+    const needle = normalize(word.trim());
+    if (!needle) return false;
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(needle)}(?=$|[^\\p{L}\\p{N}])`, 'u').test(haystack);
+  });
+};
@@ -1,5 +1,26 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { RAW_HOOKS } from './constants';
+import { RAW_HOOK_TRANSLATIONS, validateRawHooks, validateTranslatedHooks } from './utils/templateCatalog';
+import { Language } from './types';
+import { createServerConfig } from './server/config';
+import { hookApiPlugin } from './server/apiPlugin';
+
+// Fails the build (and warns in dev) when a template in RAW_HOOKS or one of its translations is malformed.
+const templateCatalogCheck = (): Plugin => ({
+  name: 'template-catalog-check',
+  buildStart() {
+    const problems = [
+      ...validateRawHooks(RAW_HOOKS),
+      ...(Object.entries(RAW_HOOK_TRANSLATIONS) as [Language, string[]][]).flatMap(
+        ([language, translated]) => validateTranslatedHooks(language, translated, RAW_HOOKS)
+      ),
+    ];
+    if (problems.length > 0) {
+      this.error(`Catálogo de plantillas inválido:\n${problems.join('\n')}`);
+    }
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -8,12 +29,7 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   
   return {
-    plugins: [react()],
-    define: {
-      // Safely stringify the key. If missing, it becomes an empty string "" instead of undefined.
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || ""),
-      // Inject access codes (comma separated strings)
-      'process.env.ACCESS_CODES': JSON.stringify(env.ACCESS_CODES || ""),
-    },
+    // Secrets (API_KEY, ACCESS_CODES) are only handed to the server middleware, never `define`d into the bundle.
+    plugins: [react(), templateCatalogCheck(), hookApiPlugin(createServerConfig(env))],
   };
-});
\ No newline at end of file
+});